@@ -1,11 +1,22 @@
 import * as vscode from 'vscode';
 import { ReleaseYmlGenerator } from './generators/releaseYmlGenerator';
 import { VSCodeExtGenerator } from './generators/vscodeExtGenerator';
+import { NpmPackageGenerator } from './generators/npmPackageGenerator';
+import { PythonPackageGenerator } from './generators/pythonPackageGenerator';
+import { BinaryReleaseGenerator } from './generators/binaryReleaseGenerator';
+import { DockerImageGenerator } from './generators/dockerImageGenerator';
+import { CiWorkflowGenerator } from './generators/ciWorkflowGenerator';
+import { ReusableWorkflowGenerator } from './generators/reusableWorkflowGenerator';
+import { TemplateManager } from './templates/templateManager';
+import { WorkflowLintProvider } from './workflow/workflowLintProvider';
+import { WorkflowSimulatorProvider } from './workflow/workflowSimulatorProvider';
+import { WorkflowHardener } from './workflow/workflowHardener';
 import { GitOperations } from './git/gitOperations';
 import { GitHubHelper } from './git/githubHelper';
 import { RepoSync } from './git/repoSync';
 import { SecretStorage } from './git/secretStorage';
 import { WorkflowWebviewProvider } from './views/webviewPanel';
+import { DiffPreview } from './views/diffPreview';
 
 /**
  * 包装命令处理函数，添加全局错误处理
@@ -31,6 +42,16 @@ export function activate(context: vscode.ExtensionContext) {
     const gitOps = new GitOperations();
     const releaseGenerator = new ReleaseYmlGenerator();
     const vscodeExtGenerator = new VSCodeExtGenerator();
+    const npmGenerator = new NpmPackageGenerator();
+    const pythonGenerator = new PythonPackageGenerator();
+    const binaryGenerator = new BinaryReleaseGenerator();
+    const dockerGenerator = new DockerImageGenerator();
+    const ciGenerator = new CiWorkflowGenerator();
+    const reusableGenerator = new ReusableWorkflowGenerator();
+    const templateManager = new TemplateManager();
+    const workflowLinter = new WorkflowLintProvider();
+    const workflowSimulator = new WorkflowSimulatorProvider();
+    const workflowHardener = new WorkflowHardener();
     const githubHelper = new GitHubHelper();
     const repoSync = new RepoSync();
 
@@ -40,6 +61,14 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.registerWebviewViewProvider(WorkflowWebviewProvider.viewType, webviewProvider)
     );
 
+    // 注册生成文件预览
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(DiffPreview.scheme, DiffPreview.getInstance())
+    );
+
+    // 注册工作流检查（问题面板 + 快速修复）
+    workflowLinter.register(context);
+
     // 生成 Release.yml
     context.subscriptions.push(
         vscode.commands.registerCommand('lyugitex.generateReleaseYml', wrapCommand(() => releaseGenerator.generate()))
@@ -50,11 +79,76 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('lyugitex.generateVscodeExtYml', wrapCommand(() => vscodeExtGenerator.generate()))
     );
 
+    // 生成 npm 包发布工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateNpmYml', wrapCommand(() => npmGenerator.generate()))
+    );
+
+    // 生成 Python 包发布工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generatePythonYml', wrapCommand(() => pythonGenerator.generate()))
+    );
+
+    // 生成 Rust/Go 二进制发布工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateBinaryYml', wrapCommand(() => binaryGenerator.generate()))
+    );
+
+    // 生成 Docker 镜像工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateDockerYml', wrapCommand(() => dockerGenerator.generate()))
+    );
+
+    // 生成 CI 工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateCiYml', wrapCommand(() => ciGenerator.generate()))
+    );
+
+    // 生成可复用工作流 / 组合操作及调用方
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateReusableWorkflow', wrapCommand(() => reusableGenerator.generate()))
+    );
+
+    // 从模板生成工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateFromTemplate', wrapCommand(() => templateManager.generateFromTemplate()))
+    );
+
+    // 导出内置模板
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.exportTemplate', wrapCommand(() => templateManager.exportBuiltinTemplate()))
+    );
+
+    // 检查工作流文件
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.lintWorkflows', wrapCommand(() => workflowLinter.lintWorkspace()))
+    );
+
+    // 模拟工作流运行条件
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.simulateWorkflow', wrapCommand(() => workflowSimulator.simulate()))
+    );
+
+    // 加固工作流
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.hardenWorkflows', wrapCommand(() => workflowHardener.hardenWorkspace()))
+    );
+
     // 创建 Tag
     context.subscriptions.push(
         vscode.commands.registerCommand('lyugitex.createTag', wrapCommand(() => gitOps.createTag()))
     );
 
+    // 递增版本号并创建 Tag
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.bumpVersion', wrapCommand(() => gitOps.bumpVersion()))
+    );
+
+    // 生成变更日志
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.generateChangelog', wrapCommand(() => gitOps.generateChangelog()))
+    );
+
     // 删除最新 Tag
     context.subscriptions.push(
         vscode.commands.registerCommand('lyugitex.deleteLatestTag', wrapCommand(() => gitOps.deleteLatestTag()))
@@ -90,6 +184,11 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('lyugitex.manageSecrets', wrapCommand(() => githubHelper.manageSecrets()))
     );
 
+    // 检查工作流引用的 Secrets
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.checkWorkflowSecrets', wrapCommand(() => githubHelper.checkWorkflowSecrets()))
+    );
+
     // 打开 GitHub Secrets 页面
     context.subscriptions.push(
         vscode.commands.registerCommand('lyugitex.openSecrets', wrapCommand(() => githubHelper.openSecretsPage()))
@@ -105,6 +204,11 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('lyugitex.deleteWorkflowRuns', wrapCommand(() => githubHelper.deleteWorkflowRuns()))
     );
 
+    // 管理 GitHub Releases
+    context.subscriptions.push(
+        vscode.commands.registerCommand('lyugitex.manageReleases', wrapCommand(() => githubHelper.manageReleases()))
+    );
+
     // 初始化 Git 仓库
     context.subscriptions.push(
         vscode.commands.registerCommand('lyugitex.initRepo', wrapCommand(() => gitOps.initRepo()))
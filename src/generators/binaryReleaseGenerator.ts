@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { WorkflowWriter } from './workflowWriter';
+
+type Language = 'rust' | 'go';
+
+interface BinaryTarget {
+    /** 平台名称，同时用作产物名后缀 */
+    name: string;
+    /** Rust 构建使用的 runner */
+    os: string;
+    rustTarget: string;
+    goos: string;
+    goarch: string;
+    /** Linux 交叉编译需要使用 cross */
+    cross?: boolean;
+}
+
+interface BinaryReleaseConfig {
+    language: Language;
+    binaryName: string;
+    /** Go main 包路径 */
+    mainPackage: string;
+    targets: BinaryTarget[];
+}
+
+const TARGETS: BinaryTarget[] = [
+    { name: 'linux-x64', os: 'ubuntu-latest', rustTarget: 'x86_64-unknown-linux-gnu', goos: 'linux', goarch: 'amd64' },
+    { name: 'linux-arm64', os: 'ubuntu-latest', rustTarget: 'aarch64-unknown-linux-gnu', goos: 'linux', goarch: 'arm64', cross: true },
+    { name: 'windows-x64', os: 'windows-latest', rustTarget: 'x86_64-pc-windows-msvc', goos: 'windows', goarch: 'amd64' },
+    { name: 'windows-arm64', os: 'windows-latest', rustTarget: 'aarch64-pc-windows-msvc', goos: 'windows', goarch: 'arm64' },
+    { name: 'macos-x64', os: 'macos-15-intel', rustTarget: 'x86_64-apple-darwin', goos: 'darwin', goarch: 'amd64' },
+    { name: 'macos-arm64', os: 'macos-latest', rustTarget: 'aarch64-apple-darwin', goos: 'darwin', goarch: 'arm64' }
+];
+
+export class BinaryReleaseGenerator {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+
+    async generate(): Promise<void> {
+        // 选择工作区
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要生成二进制发布工作流的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const hasCargo = fs.existsSync(path.join(rootPath, 'Cargo.toml'));
+        const hasGoMod = fs.existsSync(path.join(rootPath, 'go.mod'));
+
+        if (!hasCargo && !hasGoMod) {
+            vscode.window.showWarningMessage('未找到 Cargo.toml 或 go.mod');
+            return;
+        }
+
+        // 两者都有时让用户选择
+        let language: Language = hasCargo ? 'rust' : 'go';
+        if (hasCargo && hasGoMod) {
+            const choice = await vscode.window.showQuickPick([
+                { label: 'Rust', description: 'Cargo.toml', value: 'rust' as Language },
+                { label: 'Go', description: 'go.mod', value: 'go' as Language }
+            ], { placeHolder: '检测到多种项目，选择要发布的语言' });
+            if (!choice) return;
+            language = choice.value;
+        }
+
+        let binaryName: string | undefined;
+        let mainPackage = '.';
+        if (language === 'rust') {
+            binaryName = this.detectRustBinaryName(rootPath);
+        } else {
+            const mainPackages = await this.findGoMainPackages(rootPath);
+            if (mainPackages.length > 1) {
+                const selected = await vscode.window.showQuickPick(mainPackages, { placeHolder: '选择要构建的 main 包' });
+                if (!selected) return;
+                mainPackage = selected;
+            } else if (mainPackages.length === 1) {
+                mainPackage = mainPackages[0];
+            }
+            binaryName = mainPackage === '.' ? this.detectGoModuleName(rootPath) : path.posix.basename(mainPackage);
+        }
+
+        binaryName = await vscode.window.showInputBox({
+            prompt: '可执行文件名称',
+            value: binaryName || workspaceFolder.name
+        });
+        if (!binaryName) return;
+
+        // 目标平台选择
+        const targetChoices = await vscode.window.showQuickPick(
+            TARGETS.map(t => ({
+                label: t.name,
+                description: language === 'rust' ? t.rustTarget : `${t.goos}/${t.goarch}`,
+                picked: t.name.endsWith('x64'),
+                target: t
+            })),
+            { canPickMany: true, placeHolder: '选择目标平台' }
+        );
+        if (!targetChoices || targetChoices.length === 0) return;
+
+        const config: BinaryReleaseConfig = {
+            language,
+            binaryName,
+            mainPackage,
+            targets: targetChoices.map(t => t.target)
+        };
+
+        await this.createWorkflow(rootPath, config);
+    }
+
+    private detectRustBinaryName(rootPath: string): string | undefined {
+        try {
+            const content = fs.readFileSync(path.join(rootPath, 'Cargo.toml'), 'utf-8');
+            // 优先 [[bin]] 的 name，其次 [package] 的 name
+            const binMatch = content.match(/\[\[bin\]\][^[]*?name\s*=\s*"([^"]+)"/);
+            if (binMatch) return binMatch[1];
+            const pkgMatch = content.match(/\[package\][^[]*?name\s*=\s*"([^"]+)"/);
+            if (pkgMatch) return pkgMatch[1];
+        } catch {
+            // 忽略
+        }
+        return undefined;
+    }
+
+    private detectGoModuleName(rootPath: string): string | undefined {
+        try {
+            const content = fs.readFileSync(path.join(rootPath, 'go.mod'), 'utf-8');
+            const match = content.match(/^module\s+(\S+)/m);
+            if (match) return match[1].split('/').pop();
+        } catch {
+            // 忽略
+        }
+        return undefined;
+    }
+
+    private async findGoMainPackages(rootPath: string): Promise<string[]> {
+        const packages: string[] = [];
+        if (fs.existsSync(path.join(rootPath, 'main.go'))) {
+            packages.push('.');
+        }
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(rootPath, 'cmd/*/main.go'));
+        for (const file of files) {
+            const dir = path.relative(rootPath, path.dirname(file.fsPath)).replace(/\\/g, '/');
+            packages.push(`./${dir}`);
+        }
+        return packages;
+    }
+
+    private getMatrix(config: BinaryReleaseConfig): string {
+        return config.targets.map(t => {
+            const isWindows = t.goos === 'windows';
+            const lines = [`          - name: ${t.name}`];
+            if (config.language === 'rust') {
+                lines.push(`            os: ${t.os}`);
+                lines.push(`            target: ${t.rustTarget}`);
+                lines.push(`            cross: ${t.cross ? 'true' : 'false'}`);
+            } else {
+                lines.push(`            goos: ${t.goos}`);
+                lines.push(`            goarch: ${t.goarch}`);
+            }
+            lines.push(`            ext: '${isWindows ? '.exe' : ''}'`);
+            lines.push(`            archive: ${isWindows ? 'zip' : 'tar.gz'}`);
+            return lines.join('\n');
+        }).join('\n');
+    }
+
+    private getBuildSteps(config: BinaryReleaseConfig): string {
+        if (config.language === 'rust') {
+            return `
+      - name: Setup Rust
+        uses: dtolnay/rust-toolchain@stable
+        with:
+          targets: \${{ matrix.target }}
+
+      - name: Rust cache
+        uses: Swatinem/rust-cache@v2
+        with:
+          key: \${{ matrix.target }}
+
+      - name: Install cross
+        if: matrix.cross
+        uses: taiki-e/install-action@v2
+        with:
+          tool: cross
+
+      - name: Build
+        shell: bash
+        run: \${{ matrix.cross && 'cross' || 'cargo' }} build --release --locked --target \${{ matrix.target }}
+
+      - name: Collect binary
+        shell: bash
+        run: |
+          mkdir -p bin
+          cp target/\${{ matrix.target }}/release/\${{ env.BINARY_NAME }}\${{ matrix.ext }} bin/`;
+        }
+
+        return `
+      - name: Setup Go
+        uses: actions/setup-go@v5
+        with:
+          go-version-file: go.mod
+
+      - name: Build
+        env:
+          GOOS: \${{ matrix.goos }}
+          GOARCH: \${{ matrix.goarch }}
+          CGO_ENABLED: '0'
+        run: go build -trimpath -ldflags "-s -w" -o bin/\${{ env.BINARY_NAME }}\${{ matrix.ext }} ${config.mainPackage}`;
+    }
+
+    private async createWorkflow(rootPath: string, config: BinaryReleaseConfig): Promise<void> {
+        const testSteps = config.language === 'rust'
+            ? `
+      - name: Setup Rust
+        uses: dtolnay/rust-toolchain@stable
+
+      - name: Rust cache
+        uses: Swatinem/rust-cache@v2
+
+      - name: Test
+        run: cargo test --locked`
+            : `
+      - name: Setup Go
+        uses: actions/setup-go@v5
+        with:
+          go-version-file: go.mod
+
+      - name: Test
+        run: go test ./...`;
+
+        // Go 在 Linux 上交叉编译所有平台，Rust 使用各平台原生 runner
+        const runsOn = config.language === 'rust' ? '${{ matrix.os }}' : 'ubuntu-latest';
+
+        // Windows 打 zip，其余打 tar.gz
+        const archiveCommand = config.language === 'rust'
+            ? `7z a "dist/$ARCHIVE.zip" "./bin/*"`
+            : `(cd bin && zip -r "../dist/$ARCHIVE.zip" .)`;
+
+        const ymlContent = `name: Release Binaries
+
+on:
+  push:
+    tags:
+      - 'v*'
+  workflow_dispatch:
+    inputs:
+      dry_run:
+        description: '测试模式（只构建不发布）'
+        type: boolean
+        default: false
+
+permissions:
+  contents: write
+
+env:
+  BINARY_NAME: ${config.binaryName}
+
+jobs:
+  test:
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+${testSteps}
+
+  build:
+    needs: test
+    runs-on: ${runsOn}
+    strategy:
+      fail-fast: false
+      matrix:
+        include:
+${this.getMatrix(config)}
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+${this.getBuildSteps(config)}
+
+      - name: Archive
+        shell: bash
+        run: |
+          mkdir -p dist
+          ARCHIVE="\${BINARY_NAME}-\${GITHUB_REF_NAME}-\${{ matrix.name }}"
+          if [ "\${{ matrix.archive }}" = "zip" ]; then
+            ${archiveCommand}
+          else
+            tar -czf "dist/$ARCHIVE.tar.gz" -C bin .
+          fi
+
+      - name: Upload artifact
+        uses: actions/upload-artifact@v4
+        with:
+          name: binary-\${{ matrix.name }}
+          path: dist/*
+
+  release:
+    needs: build
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Download artifacts
+        uses: actions/download-artifact@v4
+        with:
+          pattern: binary-*
+          path: dist
+          merge-multiple: true
+
+      - name: Generate checksums
+        working-directory: dist
+        run: |
+          shopt -s nullglob
+          files=(*.tar.gz *.zip)
+          for f in "\${files[@]}"; do
+            sha256sum "$f" > "$f.sha256"
+          done
+          sha256sum "\${files[@]}" > SHA256SUMS.txt
+
+      - name: Create GitHub Release
+        uses: softprops/action-gh-release@v2
+        if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+        with:
+          files: |
+            dist/*.tar.gz
+            dist/*.zip
+            dist/*.sha256
+            dist/SHA256SUMS.txt
+          generate_release_notes: true
+`;
+
+        const filePath = await this.workflowWriter.write(rootPath, 'release.yml', ymlContent);
+        if (!filePath) return;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+    }
+}
@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { loadDotnetWorkspace, getSdkVersions, DotnetWorkspace } from './dotnetProjectModel';
+import { WorkflowWriter } from './workflowWriter';
+
+type CiStack = 'dotnet' | 'node';
+type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+interface CiConfig {
+    stack: CiStack;
+    branches: string[];
+    operatingSystems: string[];
+    /** .NET SDK 或 Node.js 版本 */
+    versions: string[];
+}
+
+interface DotnetCiConfig extends CiConfig {
+    stack: 'dotnet';
+    testProjects: string[];
+    /** global.json 固定了 SDK 时同时安装该版本 */
+    globalJsonFile?: string;
+}
+
+interface NodeCiConfig extends CiConfig {
+    stack: 'node';
+    packageManager: PackageManager;
+    /** npm 没有 package-lock.json 时使用 npm install，且不缓存 */
+    hasLockfile: boolean;
+    /** package.json 没有 packageManager 字段时传给 pnpm/action-setup 的版本 */
+    pnpmVersion?: string;
+    buildCommand?: string;
+    /** 带覆盖率的测试命令 */
+    testCommand: string;
+    collectsCoverage: boolean;
+}
+
+const OPERATING_SYSTEMS = ['ubuntu-latest', 'windows-latest', 'macos-latest'];
+const DOTNET_VERSIONS = ['8.0.x', '9.0.x', '10.0.x'];
+const NODE_VERSIONS = ['18', '20', '22'];
+
+export class CiWorkflowGenerator {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+
+    async generate(): Promise<void> {
+        // 选择工作区
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要生成 CI 工作流的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const dotnet = loadDotnetWorkspace(rootPath);
+        const hasPackageJson = fs.existsSync(path.join(rootPath, 'package.json'));
+
+        let stack: CiStack;
+        if (dotnet.projects.length > 0 && hasPackageJson) {
+            const choice = await vscode.window.showQuickPick([
+                { label: '.NET', description: `${dotnet.projects.length} 个项目`, value: 'dotnet' as CiStack },
+                { label: 'Node.js', description: 'package.json', value: 'node' as CiStack }
+            ], { placeHolder: '项目同时包含 .NET 和 Node.js，选择要生成 CI 的技术栈' });
+            if (!choice) return;
+            stack = choice.value;
+        } else if (dotnet.projects.length > 0) {
+            stack = 'dotnet';
+        } else if (hasPackageJson) {
+            stack = 'node';
+        } else {
+            vscode.window.showWarningMessage('未找到 .NET 项目或 package.json');
+            return;
+        }
+
+        // 触发分支
+        const branchInput = await vscode.window.showInputBox({
+            prompt: 'push 触发的分支（逗号分隔），Pull Request 始终触发',
+            value: 'main'
+        });
+        if (!branchInput) return;
+        const branches = branchInput.split(',').map(b => b.trim()).filter(b => b);
+
+        // 操作系统矩阵
+        const osChoices = await vscode.window.showQuickPick(
+            OPERATING_SYSTEMS.map(os => ({ label: os, picked: os === 'ubuntu-latest' })),
+            { canPickMany: true, placeHolder: '选择测试的操作系统' }
+        );
+        if (!osChoices || osChoices.length === 0) return;
+        const operatingSystems = osChoices.map(o => o.label);
+
+        const config = stack === 'dotnet'
+            ? await this.configureDotnet(dotnet, { stack, branches, operatingSystems, versions: [] })
+            : await this.configureNode(rootPath, { stack, branches, operatingSystems, versions: [] });
+        if (!config) return;
+
+        const ymlContent = config.stack === 'dotnet' ? this.createDotnetCi(config) : this.createNodeCi(config);
+
+        const filePath = await this.workflowWriter.write(rootPath, 'ci.yml', ymlContent);
+        if (!filePath) return;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+    }
+
+    private async configureDotnet(dotnet: DotnetWorkspace, base: CiConfig): Promise<DotnetCiConfig | undefined> {
+        const detected = dotnet.projects.filter(p => p.isTestProject);
+        if (detected.length === 0) {
+            vscode.window.showWarningMessage('未找到测试项目（引用 Microsoft.NET.Test.Sdk 或设置 IsTestProject 的项目）');
+            return undefined;
+        }
+
+        const selectedProjects = await vscode.window.showQuickPick(
+            detected.map(p => ({ label: p.name, description: p.path, detail: p.targetFrameworks.join(';'), picked: true, project: p })),
+            { canPickMany: true, placeHolder: '选择要运行的测试项目' }
+        );
+        if (!selectedProjects || selectedProjects.length === 0) return undefined;
+        const testProjects = selectedProjects.map(p => p.project.path);
+
+        // SDK 版本矩阵，默认选中测试项目目标框架对应的版本
+        const detectedVersions = new Set(getSdkVersions(selectedProjects.map(p => p.project)));
+        const versionChoices = await vscode.window.showQuickPick(
+            [...new Set([...detectedVersions, ...DOTNET_VERSIONS])].map(v => ({
+                label: v,
+                description: detectedVersions.has(v) ? '项目目标框架' : undefined,
+                picked: detectedVersions.has(v)
+            })),
+            { canPickMany: true, placeHolder: '选择 .NET SDK 版本矩阵（SDK 版本需不低于项目的目标框架）' }
+        );
+        if (!versionChoices || versionChoices.length === 0) return undefined;
+
+        return {
+            ...base,
+            stack: 'dotnet',
+            versions: versionChoices.map(v => v.label),
+            testProjects,
+            globalJsonFile: dotnet.globalJson?.sdkVersion ? dotnet.globalJson.path : undefined
+        };
+    }
+
+    private async configureNode(rootPath: string, base: CiConfig): Promise<NodeCiConfig | undefined> {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(rootPath, 'package.json'), 'utf-8'));
+        const scripts: Record<string, string> = packageJson.scripts || {};
+
+        if (!scripts.test || scripts.test.includes('no test specified')) {
+            vscode.window.showWarningMessage('package.json 中没有 test 脚本');
+            return undefined;
+        }
+
+        const versionChoices = await vscode.window.showQuickPick(
+            NODE_VERSIONS.map(v => ({ label: v, picked: v === '20' })),
+            { canPickMany: true, placeHolder: '选择 Node.js 版本矩阵' }
+        );
+        if (!versionChoices || versionChoices.length === 0) return undefined;
+
+        const packageManager: PackageManager = fs.existsSync(path.join(rootPath, 'pnpm-lock.yaml'))
+            ? 'pnpm'
+            : fs.existsSync(path.join(rootPath, 'yarn.lock')) ? 'yarn' : 'npm';
+
+        const hasLockfile = packageManager !== 'npm'
+            || ['package-lock.json', 'npm-shrinkwrap.json'].some(f => fs.existsSync(path.join(rootPath, f)));
+
+        const buildScript = ['build', 'compile'].find(s => scripts[s]);
+        const run = (script: string) => packageManager === 'npm' ? `npm run ${script}` : `${packageManager} ${script}`;
+
+        // 覆盖率：优先使用专门的脚本，其次给 jest / vitest 追加 --coverage
+        const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+        const coverageScript = ['test:coverage', 'coverage'].find(s => scripts[s]);
+        let testCommand: string;
+        let collectsCoverage = true;
+        if (coverageScript) {
+            testCommand = run(coverageScript);
+        } else if (dependencies.jest || dependencies.vitest) {
+            testCommand = packageManager === 'npm' ? 'npm test -- --coverage' : `${packageManager} test --coverage`;
+        } else {
+            testCommand = `${packageManager} test`;
+            collectsCoverage = false;
+        }
+
+        return {
+            ...base,
+            stack: 'node',
+            versions: versionChoices.map(v => v.label),
+            packageManager,
+            hasLockfile,
+            pnpmVersion: packageManager === 'pnpm' && !String(packageJson.packageManager ?? '').startsWith('pnpm@')
+                ? this.detectPnpmVersion(rootPath)
+                : undefined,
+            buildCommand: buildScript ? run(buildScript) : undefined,
+            testCommand,
+            collectsCoverage
+        };
+    }
+
+    /**
+     * 按 pnpm-lock.yaml 的 lockfileVersion 推断 pnpm 主版本
+     */
+    private detectPnpmVersion(rootPath: string): string {
+        const content = fs.readFileSync(path.join(rootPath, 'pnpm-lock.yaml'), 'utf-8');
+        const lockfileVersion = content.match(/^lockfileVersion:\s*['"]?(\d+)/m)?.[1];
+        if (lockfileVersion === '5') return '7';
+        if (lockfileVersion === '6') return '8';
+        return '10';
+    }
+
+    private getHeader(config: CiConfig, versionKey: string): string {
+        return `name: CI
+
+on:
+  push:
+    branches:
+${config.branches.map(b => `      - ${b}`).join('\n')}
+  pull_request:
+
+# 同一分支或 PR 的新提交会取消尚未完成的旧运行
+concurrency:
+  group: \${{ github.workflow }}-\${{ github.event.pull_request.number || github.ref }}
+  cancel-in-progress: true
+
+permissions:
+  contents: read
+
+jobs:
+  test:
+    name: Test (\${{ matrix.os }}, ${versionKey} \${{ matrix.${versionKey} }})
+    runs-on: \${{ matrix.os }}
+    strategy:
+      fail-fast: false
+      matrix:
+        os: [${config.operatingSystems.join(', ')}]
+        ${versionKey}: [${config.versions.map(v => `'${v}'`).join(', ')}]
+`;
+    }
+
+    private createDotnetCi(config: DotnetCiConfig): string {
+        const testSteps = config.testProjects.map(proj => {
+            const projName = path.basename(proj, '.csproj');
+            return `
+      - name: Test ${projName}
+        run: dotnet test ${proj} -c Release --collect:"XPlat Code Coverage" --logger "trx;LogFilePrefix=${projName}" --results-directory ./TestResults`;
+        }).join('\n');
+
+        return `${this.getHeader(config, 'dotnet')}
+    env:
+      DOTNET_NOLOGO: true
+      DOTNET_CLI_TELEMETRY_OPTOUT: true
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Setup .NET
+        uses: actions/setup-dotnet@v4
+        with:${config.globalJsonFile ? `
+          global-json-file: ${config.globalJsonFile}` : ''}
+          dotnet-version: \${{ matrix.dotnet }}
+
+      - name: Cache NuGet packages
+        uses: actions/cache@v4
+        with:
+          path: ~/.nuget/packages
+          key: nuget-\${{ runner.os }}-\${{ hashFiles('**/*.csproj', '**/packages.lock.json', '**/Directory.Packages.props') }}
+          restore-keys: |
+            nuget-\${{ runner.os }}-
+${testSteps}
+
+      - name: Upload test results
+        if: always()
+        uses: actions/upload-artifact@v4
+        with:
+          name: test-results-\${{ matrix.os }}-\${{ matrix.dotnet }}
+          path: ./TestResults
+          if-no-files-found: ignore
+`;
+    }
+
+    private createNodeCi(config: NodeCiConfig): string {
+        const pnpmSetup = config.packageManager === 'pnpm' ? `
+      - name: Setup pnpm
+        uses: pnpm/action-setup@v4${config.pnpmVersion ? `
+        with:
+          version: ${config.pnpmVersion}` : ''}
+` : '';
+
+        const installCommand = {
+            npm: config.hasLockfile ? 'npm ci' : 'npm install',
+            yarn: 'yarn install --frozen-lockfile',
+            pnpm: 'pnpm install --frozen-lockfile'
+        }[config.packageManager];
+
+        const buildStep = config.buildCommand ? `
+      - name: Build
+        run: ${config.buildCommand}
+` : '';
+
+        const coverageUpload = config.collectsCoverage ? `
+      - name: Upload coverage
+        if: always()
+        uses: actions/upload-artifact@v4
+        with:
+          name: coverage-\${{ matrix.os }}-node\${{ matrix.node }}
+          path: coverage
+          if-no-files-found: ignore
+` : '';
+
+        return `${this.getHeader(config, 'node')}
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+${pnpmSetup}
+      - name: Setup Node.js
+        uses: actions/setup-node@v4
+        with:
+          node-version: \${{ matrix.node }}${config.hasLockfile ? `
+          cache: '${config.packageManager}'` : ''}
+
+      - name: Install dependencies
+        run: ${installCommand}
+${buildStep}
+      - name: Test
+        run: ${config.testCommand}
+${coverageUpload}
+      - name: Upload test results
+        if: always()
+        uses: actions/upload-artifact@v4
+        with:
+          name: test-results-\${{ matrix.os }}-node\${{ matrix.node }}
+          path: |
+            junit*.xml
+            test-results
+            reports
+          if-no-files-found: ignore
+`;
+    }
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { GitHubHelper } from '../git/githubHelper';
+import { WorkflowWriter } from './workflowWriter';
+
+type Registry = 'ghcr' | 'dockerhub' | 'custom';
+type TagStrategy = 'semver' | 'latest' | 'sha';
+
+interface DockerImageConfig {
+    dockerfile: string;
+    context: string;
+    registry: Registry;
+    /** 自定义镜像仓库地址，如 registry.example.com */
+    registryHost?: string;
+    image: string;
+    platforms: string[];
+    tagStrategies: TagStrategy[];
+    usernameSecret?: string;
+    passwordSecret?: string;
+}
+
+const PLATFORMS = ['linux/amd64', 'linux/arm64'];
+
+export class DockerImageGenerator {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+    private githubHelper = new GitHubHelper();
+
+    async generate(): Promise<void> {
+        // 选择工作区
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要生成 Docker 镜像工作流的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const dockerfiles = await this.findDockerfiles(rootPath);
+        if (dockerfiles.length === 0) {
+            vscode.window.showWarningMessage('未找到 Dockerfile');
+            return;
+        }
+
+        let dockerfile = dockerfiles[0];
+        if (dockerfiles.length > 1) {
+            const selected = await vscode.window.showQuickPick(dockerfiles, { placeHolder: '选择要构建的 Dockerfile' });
+            if (!selected) return;
+            dockerfile = selected;
+        }
+
+        // 选择镜像仓库
+        const registryChoice = await vscode.window.showQuickPick([
+            { label: 'GitHub Container Registry', description: 'ghcr.io，使用 GITHUB_TOKEN', value: 'ghcr' as Registry },
+            { label: 'Docker Hub', description: 'docker.io，需要 DOCKERHUB_USERNAME / DOCKERHUB_TOKEN', value: 'dockerhub' as Registry },
+            { label: '自定义镜像仓库', description: '如 Harbor、阿里云 ACR 等', value: 'custom' as Registry }
+        ], { placeHolder: '选择镜像仓库' });
+        if (!registryChoice) return;
+        const registry = registryChoice.value;
+
+        let registryHost: string | undefined;
+        if (registry === 'custom') {
+            registryHost = await vscode.window.showInputBox({
+                prompt: '镜像仓库地址',
+                placeHolder: '例如: registry.cn-hangzhou.aliyuncs.com'
+            });
+            if (!registryHost) return;
+        }
+
+        // 镜像名称
+        const defaultImage = registry === 'ghcr'
+            ? '${{ github.repository }}'
+            : `${registry === 'dockerhub' ? 'username' : 'namespace'}/${workspaceFolder.name.toLowerCase()}`;
+        const image = await vscode.window.showInputBox({
+            prompt: registry === 'ghcr' ? '镜像名称（默认使用 owner/repo）' : '镜像名称（namespace/name）',
+            value: defaultImage
+        });
+        if (!image) return;
+
+        // 目标平台
+        const platformChoices = await vscode.window.showQuickPick(
+            PLATFORMS.map(p => ({ label: p, picked: p === 'linux/amd64' })),
+            { canPickMany: true, placeHolder: '选择目标平台' }
+        );
+        if (!platformChoices || platformChoices.length === 0) return;
+
+        // 标签策略
+        const tagChoices = await vscode.window.showQuickPick([
+            { label: '语义化版本', description: 'v1.2.3 → 1.2.3、1.2', value: 'semver' as TagStrategy, picked: true },
+            { label: 'latest', description: '默认分支和版本 Tag 更新 latest', value: 'latest' as TagStrategy, picked: true },
+            { label: 'Commit SHA', description: 'sha-abc1234', value: 'sha' as TagStrategy }
+        ], { canPickMany: true, placeHolder: '选择镜像标签策略' });
+        if (!tagChoices || tagChoices.length === 0) return;
+
+        let usernameSecret: string | undefined;
+        let passwordSecret: string | undefined;
+        if (registry === 'dockerhub') {
+            usernameSecret = 'DOCKERHUB_USERNAME';
+            passwordSecret = 'DOCKERHUB_TOKEN';
+        } else if (registry === 'custom') {
+            usernameSecret = 'REGISTRY_USERNAME';
+            passwordSecret = 'REGISTRY_PASSWORD';
+        }
+
+        const config: DockerImageConfig = {
+            dockerfile,
+            context: path.posix.dirname(dockerfile),
+            registry,
+            registryHost,
+            image,
+            platforms: platformChoices.map(p => p.label),
+            tagStrategies: tagChoices.map(t => t.value),
+            usernameSecret,
+            passwordSecret
+        };
+
+        if (!await this.createWorkflow(rootPath, config)) return;
+
+        if (usernameSecret && passwordSecret) {
+            await this.githubHelper.setupWorkflowSecrets(workspaceFolder, [usernameSecret, passwordSecret]);
+        }
+    }
+
+    private async findDockerfiles(rootPath: string): Promise<string[]> {
+        const pattern = new vscode.RelativePattern(rootPath, '**/{Dockerfile,Dockerfile.*,*.Dockerfile}');
+        const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
+        return files
+            .map(f => path.relative(rootPath, f.fsPath).replace(/\\/g, '/'))
+            .sort((a, b) => a.split('/').length - b.split('/').length);
+    }
+
+    private getImageRef(config: DockerImageConfig): string {
+        switch (config.registry) {
+            case 'ghcr':
+                return `ghcr.io/${config.image}`;
+            case 'dockerhub':
+                return config.image;
+            default:
+                return `${config.registryHost}/${config.image}`;
+        }
+    }
+
+    private getLoginStep(config: DockerImageConfig): string {
+        if (config.registry === 'ghcr') {
+            return `
+      - name: Login to GitHub Container Registry
+        if: \${{ !inputs.dry_run }}
+        uses: docker/login-action@v3
+        with:
+          registry: ghcr.io
+          username: \${{ github.actor }}
+          password: \${{ secrets.GITHUB_TOKEN }}
+`;
+        }
+
+        const registryLine = config.registry === 'custom' ? `
+          registry: ${config.registryHost}` : '';
+        return `
+      - name: Login to ${config.registry === 'dockerhub' ? 'Docker Hub' : config.registryHost}
+        if: \${{ !inputs.dry_run }}
+        uses: docker/login-action@v3
+        with:${registryLine}
+          username: \${{ secrets.${config.usernameSecret} }}
+          password: \${{ secrets.${config.passwordSecret} }}
+`;
+    }
+
+    private getTagRules(config: DockerImageConfig): string {
+        const rules: string[] = [];
+        if (config.tagStrategies.includes('semver')) {
+            rules.push('type=semver,pattern={{version}}');
+            rules.push('type=semver,pattern={{major}}.{{minor}}');
+        }
+        if (config.tagStrategies.includes('latest')) {
+            rules.push('type=raw,value=latest,enable=${{ startsWith(github.ref, \'refs/tags/\') || github.ref_name == github.event.repository.default_branch }}');
+        }
+        if (config.tagStrategies.includes('sha')) {
+            rules.push('type=sha');
+        }
+        return rules.map(r => `            ${r}`).join('\n');
+    }
+
+    private async createWorkflow(rootPath: string, config: DockerImageConfig): Promise<boolean> {
+        const multiPlatform = config.platforms.some(p => p !== 'linux/amd64');
+        const qemuStep = multiPlatform ? `
+      - name: Setup QEMU
+        uses: docker/setup-qemu-action@v3
+` : '';
+
+        const permissions = config.registry === 'ghcr'
+            ? `  contents: read
+  packages: write`
+            : '  contents: read';
+
+        const ymlContent = `name: Docker Image
+
+on:
+  push:
+    tags:
+      - 'v*'
+  workflow_dispatch:
+    inputs:
+      dry_run:
+        description: '测试模式（只构建不推送）'
+        type: boolean
+        default: false
+
+permissions:
+${permissions}
+
+jobs:
+  build-and-push:
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+${qemuStep}
+      - name: Setup Docker Buildx
+        uses: docker/setup-buildx-action@v3
+${this.getLoginStep(config)}
+      - name: Docker metadata
+        id: meta
+        uses: docker/metadata-action@v5
+        with:
+          images: ${this.getImageRef(config)}
+          tags: |
+${this.getTagRules(config)}
+
+      - name: Build and push
+        uses: docker/build-push-action@v6
+        with:
+          context: ${config.context}
+          file: ${config.dockerfile}
+          platforms: ${config.platforms.join(',')}
+          push: \${{ !inputs.dry_run }}
+          tags: \${{ steps.meta.outputs.tags }}
+          labels: \${{ steps.meta.outputs.labels }}
+          cache-from: type=gha
+          cache-to: type=gha,mode=max
+`;
+
+        const filePath = await this.workflowWriter.write(rootPath, 'docker.yml', ymlContent);
+        if (!filePath) return false;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+        return true;
+    }
+}
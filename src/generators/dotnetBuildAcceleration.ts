@@ -0,0 +1,271 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DotnetProject, DotnetWorkspace } from './dotnetProjectModel';
+import { DiffPreview } from '../views/diffPreview';
+
+export interface BuildAccelerationConfig {
+    nugetCache: boolean;
+    /** NuGet 缓存键使用的文件（hashFiles 参数） */
+    nugetCacheKeyFiles: string[];
+    /** 缓存 ~/.npm 时作为缓存键的 package-lock.json，为空时不缓存 */
+    npmLockFiles: string[];
+    /** 还原时加 --locked-mode，依赖已提交的 packages.lock.json */
+    lockedMode: boolean;
+    /** 启用锁定文件需要写入的 Directory.Build.props 内容，生成工作流前预览确认，工作流写入后才写入 */
+    lockFileEdit?: string;
+    /** 每个 ZIP 目标单独一个 matrix 作业，由 release 作业汇总附件 */
+    runtimeMatrix: boolean;
+    readyToRun: boolean;
+    trimmed: boolean;
+}
+
+type AccelerationOption = 'nugetCache' | 'npmCache' | 'lockFile' | 'runtimeMatrix' | 'readyToRun' | 'trimmed';
+
+/**
+ * 发布选项的适用情况
+ * - yes：适用
+ * - risky：可以启用，但可能需要修改代码（如反射、动态加载）
+ * - no：不适用，启用后也不会传给该项目
+ */
+type Support = { level: 'yes' | 'risky' | 'no'; reason?: string };
+
+const IGNORED_DIRS = ['bin', 'obj', 'node_modules', '.git', '.vs', 'artifacts'];
+
+/** 未使用锁定文件时 NuGet 缓存键取项目文件 */
+const PROJECT_CACHE_KEY_FILES = ['**/*.csproj', '**/*.fsproj', '**/*.vbproj', '**/Directory.Packages.props', '**/Directory.Build.props'];
+
+/**
+ * .NET 发布工作流的缓存与加速选项：按检测到的项目估算哪些选项适用，并预选适用的选项
+ */
+export class DotnetBuildAcceleration {
+    private preview = DiffPreview.getInstance();
+
+    async select(rootPath: string, workspace: DotnetWorkspace, zipProjects: DotnetProject[], runtimes: string[]): Promise<BuildAccelerationConfig | undefined> {
+        const projects = workspace.projects;
+        const lockedProjects = projects.filter(p => p.restoreWithLockFile);
+        const missingLockFiles = lockedProjects.filter(p => !p.hasLockFile);
+        const blockedProjects = this.findLockFileBlockers(rootPath, projects);
+        const lockFileReady = projects.length > 0 && lockedProjects.length === projects.length && missingLockFiles.length === 0;
+        const npmLockFiles = this.findNpmLockFiles(rootPath);
+        const zipTargets = zipProjects.length * runtimes.length;
+
+        type Item = vscode.QuickPickItem & { value: AccelerationOption };
+        const items: Item[] = [{
+            label: '$(database) 缓存 NuGet 包',
+            description: projects.some(p => p.hasLockFile) ? '按 packages.lock.json 计算缓存键' : '按项目文件和 Directory.*.props 计算缓存键',
+            picked: true,
+            value: 'nugetCache'
+        }];
+
+        if (npmLockFiles.length > 0) {
+            items.push({
+                label: '$(database) 缓存 npm 包',
+                description: `按 ${npmLockFiles.join('、')} 计算缓存键`,
+                detail: '发布时前端项目的 npm install 会复用 ~/.npm',
+                picked: true,
+                value: 'npmCache'
+            });
+        }
+
+        items.push({
+            label: '$(lock) 锁定文件还原（RestorePackagesWithLockFile）',
+            description: lockFileReady ? '已启用，CI 使用 --locked-mode 还原' : lockedProjects.length === 0 ? '在 Directory.Build.props 中启用' : `${lockedProjects.length}/${projects.length} 个项目已启用`,
+            detail: lockFileReady
+                ? '依赖与提交的 packages.lock.json 不一致时还原失败'
+                : blockedProjects.length > 0
+                    ? `无法自动启用: ${blockedProjects.map(p => p.name).join('、')} 中的 RestorePackagesWithLockFile 不是 true，或未导入根目录的 Directory.Build.props`
+                    : `需要本地 dotnet restore 后提交 packages.lock.json${missingLockFiles.length > 0 ? `，缺少: ${missingLockFiles.map(p => p.name).join('、')}` : ''}`,
+            picked: lockFileReady,
+            value: 'lockFile'
+        });
+
+        if (zipTargets > 1) {
+            items.push({
+                label: '$(split-horizontal) 按运行时并行发布',
+                description: `${zipTargets} 个 ZIP 目标各自一个 matrix 作业`,
+                detail: 'release 作业下载所有构件后统一创建 Release',
+                picked: true,
+                value: 'runtimeMatrix'
+            });
+        }
+
+        if (zipProjects.length > 0) {
+            items.push(
+                {
+                    label: '$(rocket) ReadyToRun',
+                    description: '预编译为本机代码，启动更快，体积约增大 2～3 倍',
+                    detail: describeSupport(zipProjects, readyToRunSupport),
+                    picked: false,
+                    value: 'readyToRun'
+                },
+                {
+                    label: '$(fold) 裁剪（PublishTrimmed）',
+                    description: '移除未使用的程序集代码，减小单文件体积',
+                    detail: describeSupport(zipProjects, trimSupport),
+                    picked: false,
+                    value: 'trimmed'
+                }
+            );
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: '选择缓存与加速选项（已按检测到的项目预选适用的选项）'
+        });
+        if (!picked) return undefined;
+        const selected = new Set(picked.map(item => item.value));
+
+        // 只有所有项目的 RestorePackagesWithLockFile 最终为 true 时才用 --locked-mode 还原
+        let lockedMode = selected.has('lockFile');
+        let lockFileEdit: string | undefined;
+        if (lockedMode && lockedProjects.length < projects.length) {
+            lockFileEdit = blockedProjects.length === 0 ? this.getLockFileEdit(rootPath) : undefined;
+            if (lockFileEdit === undefined) {
+                vscode.window.showWarningMessage(`${(blockedProjects.length > 0 ? blockedProjects : projects.filter(p => !p.restoreWithLockFile)).map(p => p.name).join('、')} 未启用 RestorePackagesWithLockFile，请手动设置为 true 后重新生成；本次不使用 --locked-mode 还原`);
+                lockedMode = false;
+            }
+        }
+        if (lockedMode && !lockFileReady) {
+            vscode.window.showWarningMessage('CI 使用 --locked-mode 还原，请在本地运行 dotnet restore 并提交生成的 packages.lock.json');
+        }
+
+        // 启用锁定文件后缓存键只取 packages.lock.json，依赖变化时才会失效
+        const useLockFileKey = lockedMode || projects.every(p => p.hasLockFile);
+        return {
+            nugetCache: selected.has('nugetCache'),
+            nugetCacheKeyFiles: useLockFileKey
+                ? ['**/packages.lock.json']
+                : PROJECT_CACHE_KEY_FILES,
+            npmLockFiles: selected.has('npmCache') ? npmLockFiles : [],
+            lockedMode,
+            lockFileEdit,
+            runtimeMatrix: selected.has('runtimeMatrix'),
+            readyToRun: selected.has('readyToRun'),
+            trimmed: selected.has('trimmed')
+        };
+    }
+
+    /**
+     * 生成工作流前预览 Directory.Build.props 的修改，用户取消时改为不使用 --locked-mode 还原
+     */
+    async confirmLockFileEdit(rootPath: string, config: BuildAccelerationConfig): Promise<BuildAccelerationConfig> {
+        if (config.lockFileEdit === undefined) return config;
+        if (await this.preview.confirm(path.join(rootPath, 'Directory.Build.props'), config.lockFileEdit) === 'apply') return config;
+
+        vscode.window.showWarningMessage('未启用 RestorePackagesWithLockFile，本次不使用 --locked-mode 还原');
+        return { ...config, lockedMode: false, lockFileEdit: undefined, nugetCacheKeyFiles: PROJECT_CACHE_KEY_FILES };
+    }
+
+    /**
+     * 工作流写入后写入已确认的 Directory.Build.props 修改
+     */
+    applyLockFileEdit(rootPath: string, config: BuildAccelerationConfig): void {
+        if (config.lockFileEdit === undefined) return;
+        fs.writeFileSync(path.join(rootPath, 'Directory.Build.props'), config.lockFileEdit);
+    }
+
+    /**
+     * 无法通过根目录 Directory.Build.props 启用锁定文件的项目：
+     * 已显式设置了非 true 的值，或没有导入根目录的 Directory.Build.props
+     */
+    private findLockFileBlockers(rootPath: string, projects: DotnetProject[]): DotnetProject[] {
+        const propsPath = path.resolve(rootPath, 'Directory.Build.props');
+        const propsExists = fs.existsSync(propsPath);
+        return projects.filter(p => {
+            if (p.restoreWithLockFile) return false;
+            if (p.setsRestoreWithLockFile) return true;
+            return propsExists
+                ? !p.importedFiles.includes(propsPath)
+                : p.importedFiles.some(f => path.basename(f) === 'Directory.Build.props');
+        });
+    }
+
+    /**
+     * 在 Directory.Build.props 中启用 RestorePackagesWithLockFile 后的内容，文件不存在时新建；无法修改时返回 undefined
+     */
+    private getLockFileEdit(rootPath: string): string | undefined {
+        const propsPath = path.join(rootPath, 'Directory.Build.props');
+        const property = '<RestorePackagesWithLockFile>true</RestorePackagesWithLockFile>';
+
+        if (!fs.existsSync(propsPath)) {
+            return [
+                '<Project>',
+                '  <PropertyGroup>',
+                `    ${property}`,
+                '  </PropertyGroup>',
+                '</Project>',
+                ''
+            ].join('\n');
+        }
+
+        const content = fs.readFileSync(propsPath, 'utf-8');
+        const closing = content.lastIndexOf('</Project>');
+        if (content.includes('<RestorePackagesWithLockFile') || closing < 0) return undefined;
+        return `${content.slice(0, closing)}  <PropertyGroup>\n    ${property}\n  </PropertyGroup>\n${content.slice(closing)}`;
+    }
+
+    private findNpmLockFiles(rootPath: string, dir = rootPath): string[] {
+        const result: string[] = [];
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            if (entry.isDirectory()) {
+                if (!IGNORED_DIRS.includes(entry.name) && !entry.name.startsWith('.')) {
+                    result.push(...this.findNpmLockFiles(rootPath, path.join(dir, entry.name)));
+                }
+            } else if (entry.name === 'package-lock.json') {
+                result.push(path.relative(rootPath, path.join(dir, entry.name)).replace(/\\/g, '/'));
+            }
+        }
+        return result.sort();
+    }
+}
+
+/**
+ * dotnet publish 的 ReadyToRun / 裁剪参数，只传给适用的项目
+ */
+export function getPublishArgs(project: DotnetProject, config: BuildAccelerationConfig): string {
+    const args: string[] = [];
+    if (config.readyToRun && readyToRunSupport(project).level !== 'no') args.push('-p:PublishReadyToRun=true');
+    if (config.trimmed && trimSupport(project).level !== 'no') args.push('-p:PublishTrimmed=true');
+    return args.join(' ');
+}
+
+function readyToRunSupport(project: DotnetProject): Support {
+    if (project.publishAot) return { level: 'no', reason: '已启用 PublishAot' };
+    const major = netCoreMajor(project);
+    if (major === undefined) return { level: 'no', reason: '不是 .NET (Core) 项目' };
+    if (major < 3) return { level: 'no', reason: '需要 .NET Core 3.0+' };
+    if (major < 6) return { level: 'risky', reason: '.NET 6 之前不支持跨平台编译，需要在目标系统的 Runner 上发布' };
+    return { level: 'yes' };
+}
+
+function trimSupport(project: DotnetProject): Support {
+    if (project.publishAot) return { level: 'no', reason: 'PublishAot 已包含裁剪' };
+    if (project.usesWindowsDesktop) return { level: 'no', reason: 'WPF / Windows Forms 不支持裁剪' };
+    const major = netCoreMajor(project);
+    if (major === undefined || major < 6) return { level: 'no', reason: '需要 .NET 6+' };
+    if (/^Microsoft\.NET\.Sdk\.(Web|BlazorWebAssembly)\b/i.test(project.sdk)) {
+        return { level: 'risky', reason: 'ASP.NET Core 只有 Minimal API 支持裁剪' };
+    }
+    // 依赖反射或动态加载的代码可能在裁剪后运行失败，发布时注意 IL2026 等警告
+    return { level: major < 8 ? 'risky' : 'yes', reason: major < 8 ? '.NET 8 之前的裁剪分析不完整' : undefined };
+}
+
+/**
+ * 各项目中最低的 .NET (Core) 主版本，.NET Framework / .NET Standard 返回 undefined
+ */
+function netCoreMajor(project: DotnetProject): number | undefined {
+    const majors = project.targetFrameworks
+        .map(f => f.match(/^net(?:coreapp)?(\d+)\.\d+/))
+        .filter((m): m is RegExpMatchArray => !!m)
+        .map(m => Number(m[1]));
+    return majors.length > 0 ? Math.min(...majors) : undefined;
+}
+
+function describeSupport(projects: DotnetProject[], support: (p: DotnetProject) => Support): string {
+    const labels = { yes: '适用', risky: '需要验证', no: '不适用' };
+    return projects.map(p => {
+        const { level, reason } = support(p);
+        return `${p.name}: ${labels[level]}${reason ? `（${reason}）` : ''}`;
+    }).join('；');
+}
@@ -0,0 +1,338 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * .NET 项目模型：按 MSBuild 的规则解析解决方案、Directory.Build.props 导入链和 global.json
+ *
+ * 只做静态求值：支持 $(Property) 展开、简单的 == / != 条件和
+ * GetPathOfFileAbove 形式的向上导入，其余属性函数保持原样
+ */
+
+export type DotnetProjectKind = 'library' | 'app' | 'test';
+
+export interface DotnetProject {
+    /** 相对于根目录的路径（使用 /） */
+    path: string;
+    name: string;
+    sdk: string;
+    targetFrameworks: string[];
+    outputType: string;
+    isPackable: boolean;
+    packageId: string;
+    isTestProject: boolean;
+    kind: DotnetProjectKind;
+    /** 设置了 RestorePackagesWithLockFile=true */
+    restoreWithLockFile: boolean;
+    /** 项目或导入的文件中设置了 RestorePackagesWithLockFile（无论取值） */
+    setsRestoreWithLockFile: boolean;
+    /** 求值时导入的 Directory.Build.props 等文件（绝对路径） */
+    importedFiles: string[];
+    /** 项目目录下（或 NuGetLockFilePath 指定的位置）存在 packages.lock.json */
+    hasLockFile: boolean;
+    /** UseWPF / UseWindowsForms，这类项目不支持裁剪 */
+    usesWindowsDesktop: boolean;
+    /** PublishAot=true，原生 AOT 发布已包含裁剪，ReadyToRun 不再适用 */
+    publishAot: boolean;
+    /** 项目或 Directory.Build.props 引用了 coverlet.collector，dotnet test 可收集 Cobertura 覆盖率 */
+    hasCoverageCollector: boolean;
+    /** 列出该项目的解决方案文件 */
+    solutions: string[];
+}
+
+export interface DotnetWorkspace {
+    /** 找到的解决方案文件（.sln / .slnx），没有时为空 */
+    solutions: string[];
+    projects: DotnetProject[];
+    /** global.json 中固定的 SDK 版本 */
+    globalJson?: { path: string; sdkVersion?: string; rollForward?: string };
+    /** 根目录的 nuget.config 及其中声明的包源 */
+    nugetConfig?: { path: string; sources: NuGetSource[] };
+}
+
+export interface NuGetSource {
+    key: string;
+    url: string;
+}
+
+const PROJECT_EXTENSIONS = ['.csproj', '.fsproj', '.vbproj'];
+const IGNORED_DIRS = ['bin', 'obj', 'node_modules', '.git', '.vs', 'artifacts'];
+
+/**
+ * 加载工作区中的 .NET 项目：优先使用根目录的解决方案文件列出的项目，否则递归查找项目文件
+ */
+export function loadDotnetWorkspace(rootPath: string): DotnetWorkspace {
+    const solutions = fs.readdirSync(rootPath)
+        .filter(f => /\.slnx?$/i.test(f))
+        .sort();
+
+    const solutionProjects = new Map(solutions.map(solution => [solution, readSolutionProjects(rootPath, solution)]));
+    let projectPaths = [...solutionProjects.values()].flat();
+    if (projectPaths.length === 0) {
+        projectPaths = findProjectFiles(rootPath);
+    }
+
+    const projects = [...new Set(projectPaths)]
+        .filter(p => fs.existsSync(path.join(rootPath, p)))
+        .map(p => ({ ...loadDotnetProject(rootPath, p), solutions: solutions.filter(s => solutionProjects.get(s)!.includes(p)) }));
+
+    return { solutions, projects, globalJson: readGlobalJson(rootPath), nugetConfig: readNuGetConfig(rootPath) };
+}
+
+/**
+ * 解析单个项目文件（含 Directory.Build.props 导入链）
+ */
+export function loadDotnetProject(rootPath: string, projectPath: string): DotnetProject {
+    const fullPath = path.join(rootPath, projectPath);
+    const projectDir = path.dirname(fullPath);
+    const name = path.basename(projectPath, path.extname(projectPath));
+    const content = readXml(fullPath);
+
+    const sdk = content.match(/<Project\b[^>]*\bSdk\s*=\s*"([^"]*)"/)?.[1] ?? 'Microsoft.NET.Sdk';
+    const isTestSdk = /^MSTest\.Sdk\b/i.test(sdk);
+    const referencesTestSdk = /<PackageReference\s+Include\s*=\s*"Microsoft\.NET\.Test\.Sdk"/i.test(content);
+    const coverletPattern = /<PackageReference\s+Include\s*=\s*"coverlet\.collector"/i;
+    const isWebSdk = /^Microsoft\.NET\.Sdk\.(Web|Worker|BlazorWebAssembly)\b/i.test(sdk);
+
+    const properties = new Map<string, string>([
+        ['MSBuildProjectName', name],
+        ['MSBuildProjectDirectory', projectDir],
+        ['AssemblyName', name]
+    ]);
+
+    // Directory.Build.props 在项目内容之前导入
+    const buildProps = findFileAbove(projectDir, rootPath, 'Directory.Build.props');
+    const visited = new Set<string>();
+    if (buildProps) {
+        evaluateFile(buildProps, rootPath, properties, visited);
+    }
+    evaluateContent(content, fullPath, rootPath, properties, visited);
+
+    const get = (key: string) => properties.get(key)?.trim() ?? '';
+    const isTrue = (key: string) => get(key).toLowerCase() === 'true';
+
+    const frameworks = (get('TargetFrameworks') || get('TargetFramework'))
+        .split(';')
+        .map(f => f.trim())
+        .filter(f => f && !f.includes('$('));
+
+    const isTestProject = isTrue('IsTestProject') || referencesTestSdk || isTestSdk;
+    const outputType = get('OutputType') || (isWebSdk || isTestProject ? 'Exe' : 'Library');
+    // 测试项目和 Web 项目默认不可打包
+    const isPackable = get('IsPackable') ? isTrue('IsPackable') : !isTestProject && !isWebSdk;
+
+    let kind: DotnetProjectKind;
+    if (isTestProject) {
+        kind = 'test';
+    } else if (/^(Exe|WinExe)$/i.test(outputType) || isWebSdk) {
+        kind = 'app';
+    } else {
+        kind = 'library';
+    }
+
+    const lockFile = get('NuGetLockFilePath') || 'packages.lock.json';
+
+    return {
+        path: projectPath.replace(/\\/g, '/'),
+        name,
+        sdk,
+        targetFrameworks: frameworks,
+        outputType,
+        isPackable,
+        packageId: get('PackageId') || get('AssemblyName') || name,
+        isTestProject,
+        kind,
+        restoreWithLockFile: isTrue('RestorePackagesWithLockFile'),
+        setsRestoreWithLockFile: properties.has('RestorePackagesWithLockFile'),
+        importedFiles: [...visited],
+        hasLockFile: fs.existsSync(path.resolve(projectDir, lockFile.replace(/\\/g, '/'))),
+        usesWindowsDesktop: isTrue('UseWPF') || isTrue('UseWindowsForms'),
+        publishAot: isTrue('PublishAot'),
+        hasCoverageCollector: coverletPattern.test(content) || (!!buildProps && coverletPattern.test(readXml(buildProps))),
+        solutions: []
+    };
+}
+
+/**
+ * 目标框架 → setup-dotnet 使用的 SDK 版本（net8.0 → 8.0.x，netstandard 不需要特定 SDK）
+ */
+export function frameworkToSdkVersion(framework: string): string | undefined {
+    const match = framework.match(/^net(?:coreapp)?(\d+)\.(\d+)/);
+    if (!match || Number(match[1]) < 2) return undefined;
+    return `${match[1]}.${match[2]}.x`;
+}
+
+/**
+ * 项目需要的 SDK 版本，按版本号排序
+ */
+export function getSdkVersions(projects: DotnetProject[]): string[] {
+    const versions = new Set<string>();
+    for (const project of projects) {
+        for (const framework of project.targetFrameworks) {
+            const version = frameworkToSdkVersion(framework);
+            if (version) versions.add(version);
+        }
+    }
+    return [...versions].sort((a, b) => parseFloat(a) - parseFloat(b));
+}
+
+function readSolutionProjects(rootPath: string, solution: string): string[] {
+    const content = fs.readFileSync(path.join(rootPath, solution), 'utf-8');
+    const projectPaths: string[] = [];
+
+    if (solution.toLowerCase().endsWith('.slnx')) {
+        for (const match of content.matchAll(/<Project\b[^>]*\bPath\s*=\s*"([^"]+)"/g)) {
+            projectPaths.push(match[1]);
+        }
+    } else {
+        // Project("{类型 GUID}") = "名称", "相对路径", "{项目 GUID}"
+        for (const match of content.matchAll(/^Project\("[^"]*"\)\s*=\s*"[^"]*",\s*"([^"]+)"/gm)) {
+            projectPaths.push(match[1]);
+        }
+    }
+
+    return projectPaths
+        .filter(p => PROJECT_EXTENSIONS.includes(path.extname(p).toLowerCase()))
+        .map(p => path.posix.normalize(p.replace(/\\/g, '/')));
+}
+
+function findProjectFiles(rootPath: string, dir = rootPath): string[] {
+    const result: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+            if (!IGNORED_DIRS.includes(entry.name)) {
+                result.push(...findProjectFiles(rootPath, path.join(dir, entry.name)));
+            }
+        } else if (PROJECT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+            result.push(path.relative(rootPath, path.join(dir, entry.name)).replace(/\\/g, '/'));
+        }
+    }
+    return result.sort();
+}
+
+function readGlobalJson(rootPath: string): DotnetWorkspace['globalJson'] {
+    const globalJsonPath = path.join(rootPath, 'global.json');
+    if (!fs.existsSync(globalJsonPath)) return undefined;
+
+    try {
+        // global.json 允许注释
+        const json = JSON.parse(fs.readFileSync(globalJsonPath, 'utf-8').replace(/^\s*\/\/.*$/gm, ''));
+        return { path: 'global.json', sdkVersion: json.sdk?.version, rollForward: json.sdk?.rollForward };
+    } catch {
+        return { path: 'global.json' };
+    }
+}
+
+function readNuGetConfig(rootPath: string): DotnetWorkspace['nugetConfig'] {
+    // 文件名不区分大小写：nuget.config、NuGet.Config 都有人用
+    const fileName = fs.readdirSync(rootPath).find(f => f.toLowerCase() === 'nuget.config');
+    if (!fileName) return undefined;
+
+    const content = readXml(path.join(rootPath, fileName));
+    const block = content.match(/<packageSources>([\s\S]*?)<\/packageSources>/)?.[1] ?? '';
+    const sources = [...block.matchAll(/<add\b([^>]*?)\/?>/g)]
+        .map(match => parseAttributes(match[1]))
+        .filter(attributes => attributes.key && attributes.value)
+        .map(attributes => ({ key: attributes.key, url: attributes.value }));
+    return { path: fileName, sources };
+}
+
+/**
+ * 从 startDir 向上查找文件，不超出 rootPath
+ */
+function findFileAbove(startDir: string, rootPath: string, fileName: string): string | undefined {
+    let dir = startDir;
+    const root = path.resolve(rootPath);
+    while (path.resolve(dir).startsWith(root)) {
+        const candidate = path.join(dir, fileName);
+        if (fs.existsSync(candidate)) return candidate;
+        const parent = path.dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+    }
+    return undefined;
+}
+
+function readXml(filePath: string): string {
+    return fs.readFileSync(filePath, 'utf-8').replace(/<!--[\s\S]*?-->/g, '');
+}
+
+function evaluateFile(filePath: string, rootPath: string, properties: Map<string, string>, visited: Set<string>): void {
+    const resolved = path.resolve(filePath);
+    if (visited.has(resolved) || !fs.existsSync(resolved)) return;
+    visited.add(resolved);
+    evaluateContent(readXml(resolved), resolved, rootPath, properties, visited);
+}
+
+/**
+ * 按文档顺序处理 PropertyGroup 和 Import
+ */
+function evaluateContent(content: string, filePath: string, rootPath: string, properties: Map<string, string>, visited: Set<string>): void {
+    const fileDir = path.dirname(filePath) + path.sep;
+    const expand = (value: string) => expandProperties(value, properties, fileDir);
+
+    const pattern = /<PropertyGroup\b([^>]*?)(?:\/>|>([\s\S]*?)<\/PropertyGroup>)|<Import\b([^>]*?)\/?>/g;
+    for (const match of content.matchAll(pattern)) {
+        if (match[3] !== undefined) {
+            const attributes = parseAttributes(match[3]);
+            if (!evaluateCondition(attributes.Condition, expand)) continue;
+            const importPath = resolveImport(attributes.Project ?? '', fileDir, rootPath, expand);
+            if (importPath) evaluateFile(importPath, rootPath, properties, visited);
+            continue;
+        }
+
+        if (!evaluateCondition(parseAttributes(match[1]).Condition, expand)) continue;
+
+        for (const property of (match[2] ?? '').matchAll(/<([A-Za-z_][\w.-]*)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g)) {
+            if (!evaluateCondition(parseAttributes(property[2]).Condition, expand)) continue;
+            properties.set(property[1], expand((property[3] ?? '').trim()));
+        }
+    }
+}
+
+function resolveImport(project: string, fileDir: string, rootPath: string, expand: (v: string) => string): string | undefined {
+    // $([MSBuild]::GetPathOfFileAbove('Directory.Build.props', '$(MSBuildThisFileDirectory)../'))
+    const above = project.match(/GetPathOfFileAbove\(\s*'([^']+)'\s*(?:,\s*'([^']*)')?\s*\)/);
+    if (above) {
+        const startDir = above[2] ? path.resolve(expand(above[2])) : path.dirname(fileDir);
+        return findFileAbove(startDir, rootPath, above[1]);
+    }
+
+    const expanded = expand(project);
+    // SDK 自带的导入（$(MSBuildExtensionsPath) 等）无法解析，直接跳过
+    if (!expanded || expanded.includes('$(')) return undefined;
+    return path.resolve(fileDir, expanded.replace(/\\/g, '/'));
+}
+
+function expandProperties(value: string, properties: Map<string, string>, fileDir: string): string {
+    return value
+        .replace(/\$\(MSBuildThisFileDirectory\)/g, fileDir)
+        .replace(/\$\(([A-Za-z_][\w.-]*)\)/g, (_, name: string) => properties.get(name) ?? '');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w.]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = match[2] ?? match[3];
+    }
+    return attributes;
+}
+
+/**
+ * 求值简单条件：'a' == 'b'、'a' != 'b' 及其 and / or 组合，无法识别的条件视为成立
+ */
+function evaluateCondition(condition: string | undefined, expand: (v: string) => string): boolean {
+    if (!condition || !condition.trim()) return true;
+
+    const orParts = condition.split(/\s+or\s+/i);
+    if (orParts.length > 1) return orParts.some(part => evaluateCondition(part, expand));
+
+    const andParts = condition.split(/\s+and\s+/i);
+    if (andParts.length > 1) return andParts.every(part => evaluateCondition(part, expand));
+
+    const comparison = condition.trim().replace(/^\((.*)\)$/, '$1').match(/^'([^']*)'\s*(==|!=)\s*'([^']*)'$/);
+    if (!comparison) return true;
+
+    const left = expand(comparison[1]).trim().toLowerCase();
+    const right = expand(comparison[3]).trim().toLowerCase();
+    return comparison[2] === '==' ? left === right : left !== right;
+}
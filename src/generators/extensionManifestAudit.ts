@@ -0,0 +1,409 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { parseSemVer, compareSemVer, formatSemVer } from '../git/semver';
+import { DiffPreview } from '../views/diffPreview';
+
+const execAsync = promisify(exec);
+
+type CheckStatus = 'ok' | 'warning' | 'error';
+
+interface ManifestCheck {
+    label: string;
+    status: CheckStatus;
+    detail: string;
+    /** 修复操作，返回是否做了修改 */
+    fix?: { title: string; apply: () => Promise<boolean> };
+}
+
+interface ExtensionManifest {
+    publisher?: string;
+    repository?: string | { url?: string };
+    license?: string;
+    icon?: string;
+    main?: string;
+    browser?: string;
+    engines?: { vscode?: string };
+    scripts?: Record<string, string>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+    ok: '$(pass-filled)',
+    warning: '$(warning)',
+    error: '$(error)'
+};
+
+const LICENSES = ['MIT', 'Apache-2.0', 'GPL-3.0-only', 'BSD-3-Clause', 'MPL-2.0', 'UNLICENSED'];
+
+const BUNDLERS = ['webpack', 'esbuild', 'rollup', '@vercel/ncc', 'tsup'];
+
+/** .vscodeignore 默认内容 */
+const DEFAULT_IGNORE = ['.vscode/**', '.vscode-test/**', '.github/**', 'src/**', '**/*.ts', '**/*.map', '**/tsconfig.json', '**/.eslintrc*', '**/eslint.config.*', '.gitignore'];
+
+/**
+ * 生成工作流前检查扩展清单（package.json / .vscodeignore），避免 vsce package 在 CI 中失败
+ */
+export class ExtensionManifestAudit {
+    private preview = DiffPreview.getInstance();
+
+    /**
+     * 显示检查清单，返回是否继续生成工作流
+     */
+    async run(rootPath: string): Promise<boolean> {
+        for (;;) {
+            const checks = this.audit(rootPath);
+            const problems = checks.filter(c => c.status !== 'ok');
+            if (problems.length === 0) return true;
+
+            type ChecklistItem = vscode.QuickPickItem & { check?: ManifestCheck; proceed?: boolean };
+            const items: ChecklistItem[] = [
+                { label: `$(arrow-right) 继续生成工作流`, description: `${problems.length} 项未通过`, proceed: true },
+                { label: '检查清单（点击未通过的项目修复）', kind: vscode.QuickPickItemKind.Separator },
+                ...checks.map(check => ({
+                    label: `${STATUS_ICONS[check.status]} ${check.label}`,
+                    description: check.status !== 'ok' && check.fix ? check.fix.title : undefined,
+                    detail: check.detail,
+                    check
+                }))
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: '扩展清单检查：有问题的项目会导致 vsce package 失败或发布内容不完整',
+                matchOnDetail: true
+            });
+            if (!selected) return false;
+            if (selected.proceed) return true;
+
+            const fix = selected.check?.status !== 'ok' ? selected.check?.fix : undefined;
+            if (fix) {
+                try {
+                    await fix.apply();
+                } catch (error: unknown) {
+                    vscode.window.showErrorMessage(`修复失败: ${(error as Error).message}`);
+                }
+            }
+        }
+    }
+
+    audit(rootPath: string): ManifestCheck[] {
+        const packageJsonPath = path.join(rootPath, 'package.json');
+        const manifest: ExtensionManifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        const update = (change: (manifest: Record<string, unknown>) => void) => this.updatePackageJson(packageJsonPath, change);
+
+        return [
+            this.checkPublisher(manifest, update),
+            this.checkRepository(rootPath, manifest, update),
+            this.checkLicense(rootPath, manifest, update),
+            this.checkIcon(rootPath, manifest, update),
+            this.checkMain(rootPath, manifest, update),
+            this.checkPrepublish(manifest, update),
+            this.checkVscodeignore(rootPath, manifest),
+            this.checkTypesVersion(manifest, update)
+        ];
+    }
+
+    private checkPublisher(manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        if (manifest.publisher) {
+            return { label: 'publisher', status: 'ok', detail: manifest.publisher };
+        }
+        return {
+            label: 'publisher',
+            status: 'error',
+            detail: '缺少 publisher，vsce 无法打包',
+            fix: {
+                title: '填写 publisher',
+                apply: async () => {
+                    const publisher = await vscode.window.showInputBox({
+                        prompt: 'Marketplace 发布者 ID',
+                        validateInput: (v) => /^[a-zA-Z0-9][a-zA-Z0-9-]*$/.test(v) ? null : '只能包含字母、数字和连字符'
+                    });
+                    if (!publisher) return false;
+                    return update(m => { m.publisher = publisher; });
+                }
+            }
+        };
+    }
+
+    private checkRepository(rootPath: string, manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        const url = typeof manifest.repository === 'string' ? manifest.repository : manifest.repository?.url;
+        if (url) {
+            return { label: 'repository', status: 'ok', detail: url };
+        }
+        return {
+            label: 'repository',
+            status: 'warning',
+            detail: '缺少 repository，vsce 会提示警告，README 中的相对链接也无法转换',
+            fix: {
+                title: '根据 Git 远程地址填写',
+                apply: async () => {
+                    let remoteUrl = '';
+                    try {
+                        const { stdout } = await execAsync('git remote get-url origin', { cwd: rootPath });
+                        const match = stdout.trim().match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?$/);
+                        remoteUrl = match ? `https://github.com/${match[1]}/${match[2]}.git` : stdout.trim();
+                    } catch {
+                        // 没有远程仓库时手动输入
+                    }
+                    const repositoryUrl = await vscode.window.showInputBox({ prompt: '仓库地址', value: remoteUrl });
+                    if (!repositoryUrl) return false;
+                    return update(m => { m.repository = { type: 'git', url: repositoryUrl }; });
+                }
+            }
+        };
+    }
+
+    private checkLicense(rootPath: string, manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        const hasLicenseFile = fs.readdirSync(rootPath).some(f => /^licen[sc]e(\.(md|txt))?$/i.test(f));
+        if (manifest.license) {
+            return {
+                label: 'license',
+                status: hasLicenseFile || manifest.license === 'UNLICENSED' ? 'ok' : 'warning',
+                detail: hasLicenseFile || manifest.license === 'UNLICENSED'
+                    ? manifest.license
+                    : `${manifest.license}，但根目录没有 LICENSE 文件，vsce 打包时会询问是否继续`
+            };
+        }
+        return {
+            label: 'license',
+            status: 'warning',
+            detail: '缺少 license，vsce 打包时会询问是否继续，CI 中会失败',
+            fix: {
+                title: '选择许可证',
+                apply: async () => {
+                    const license = await vscode.window.showQuickPick(LICENSES, { placeHolder: '选择许可证（SPDX 标识）' });
+                    if (!license) return false;
+                    return update(m => { m.license = license; });
+                }
+            }
+        };
+    }
+
+    private checkIcon(rootPath: string, manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        const selectIcon = {
+            title: '选择 PNG 图标',
+            apply: async () => {
+                const files = await vscode.window.showOpenDialog({
+                    defaultUri: vscode.Uri.file(rootPath),
+                    canSelectMany: false,
+                    filters: { 'PNG 图片': ['png'] }
+                });
+                if (!files || files.length === 0) return false;
+
+                // 工作区外的图标复制到 images/ 下
+                let iconPath = path.relative(rootPath, files[0].fsPath);
+                const outside = iconPath.startsWith('..') || path.isAbsolute(iconPath);
+                if (outside) iconPath = path.join('images', path.basename(files[0].fsPath));
+                if (!await update(m => { m.icon = iconPath.split(path.sep).join('/'); })) return false;
+
+                if (outside) {
+                    fs.mkdirSync(path.join(rootPath, 'images'), { recursive: true });
+                    fs.copyFileSync(files[0].fsPath, path.join(rootPath, iconPath));
+                }
+                return true;
+            }
+        };
+
+        if (!manifest.icon) {
+            return { label: 'icon', status: 'warning', detail: '缺少 icon，Marketplace 中会显示默认图标（建议 128×128 PNG）', fix: selectIcon };
+        }
+        if (!fs.existsSync(path.join(rootPath, manifest.icon))) {
+            return { label: 'icon', status: 'error', detail: `图标文件 ${manifest.icon} 不存在`, fix: selectIcon };
+        }
+        if (!manifest.icon.toLowerCase().endsWith('.png')) {
+            return { label: 'icon', status: 'error', detail: `Marketplace 不接受 SVG 等格式的图标: ${manifest.icon}`, fix: selectIcon };
+        }
+        return { label: 'icon', status: 'ok', detail: manifest.icon };
+    }
+
+    private checkMain(rootPath: string, manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        if (!manifest.main) {
+            return {
+                label: 'main',
+                status: 'ok',
+                detail: manifest.browser ? `仅 Web 扩展（browser: ${manifest.browser}）` : '没有 main，视为纯声明式扩展（主题、代码片段等）'
+            };
+        }
+
+        const main = path.normalize(manifest.main).replace(/^\.[/\\]/, '');
+        const outDir = this.getOutDir(rootPath);
+        const expected = outDir ? `./${outDir}/${path.basename(main).replace(/\.ts$/, '.js')}` : undefined;
+        const fixMain = expected
+            ? { title: `改为 ${expected}`, apply: () => update(m => { m.main = expected; }) }
+            : undefined;
+
+        if (main.endsWith('.ts')) {
+            return { label: 'main', status: 'error', detail: `main 指向 TypeScript 源文件 ${manifest.main}，应指向编译输出`, fix: fixMain };
+        }
+        if (main.split(/[/\\]/)[0] === 'src' && outDir && outDir !== 'src') {
+            return { label: 'main', status: 'error', detail: `main 指向 src/，但 tsconfig 的 outDir 是 ${outDir}`, fix: fixMain };
+        }
+        if (outDir && !main.startsWith(outDir + path.sep) && !this.usesBundler(manifest)) {
+            return { label: 'main', status: 'warning', detail: `main (${manifest.main}) 不在 tsconfig 的 outDir (${outDir}) 中`, fix: fixMain };
+        }
+        return { label: 'main', status: 'ok', detail: manifest.main };
+    }
+
+    private checkPrepublish(manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        const scripts = manifest.scripts ?? {};
+        if (scripts['vscode:prepublish']) {
+            return { label: 'vscode:prepublish', status: 'ok', detail: scripts['vscode:prepublish'] };
+        }
+        if (!manifest.main) {
+            return { label: 'vscode:prepublish', status: 'ok', detail: '没有需要编译的代码' };
+        }
+
+        const buildScript = ['package', 'compile', 'build'].find(s => scripts[s]);
+        const command = buildScript ? `npm run ${buildScript}` : 'tsc -p ./';
+        return {
+            label: 'vscode:prepublish',
+            status: 'warning',
+            detail: '缺少 vscode:prepublish 脚本，vsce package 不会自动编译，可能打包旧的输出',
+            fix: {
+                title: `添加 "${command}"`,
+                apply: async () => {
+                    return update(m => { m.scripts = { ...(m.scripts as Record<string, string>), 'vscode:prepublish': command }; });
+                }
+            }
+        };
+    }
+
+    private checkVscodeignore(rootPath: string, manifest: ExtensionManifest): ManifestCheck {
+        const ignorePath = path.join(rootPath, '.vscodeignore');
+        const bundled = this.usesBundler(manifest);
+        const hasDependencies = Object.keys(manifest.dependencies ?? {}).length > 0;
+
+        if (!fs.existsSync(ignorePath)) {
+            return {
+                label: '.vscodeignore',
+                status: 'warning',
+                detail: '不存在，源码、测试和配置文件都会被打包',
+                fix: {
+                    title: '生成 .vscodeignore',
+                    apply: async () => {
+                        const lines = [...DEFAULT_IGNORE, ...(bundled ? ['node_modules/**'] : [])];
+                        if (!await this.preview.confirmAndWrite(ignorePath, lines.join('\n') + '\n')) return false;
+                        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(ignorePath));
+                        return true;
+                    }
+                }
+            };
+        }
+
+        const lines = fs.readFileSync(ignorePath, 'utf-8').split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+        const excludesSrc = lines.some(l => /^\/?src(\/|\/\*\*)?$/.test(l));
+        const nodeModulesLines = lines.filter(l => /^\/?node_modules(\/|\/\*\*)?$/.test(l));
+        const problems: string[] = [];
+        const append: string[] = [];
+        let removeNodeModules = false;
+
+        if (!excludesSrc && manifest.main && !path.normalize(manifest.main).replace(/^\.[/\\]/, '').startsWith('src')) {
+            problems.push('没有排除 src/');
+            append.push('src/**');
+        }
+        if (bundled && nodeModulesLines.length === 0) {
+            problems.push('已使用打包工具，但没有排除 node_modules/');
+            append.push('node_modules/**');
+        }
+        if (!bundled && hasDependencies && nodeModulesLines.length > 0) {
+            problems.push('没有使用打包工具却排除了 node_modules/，运行时依赖不会被打包');
+            removeNodeModules = true;
+        }
+
+        if (problems.length === 0) {
+            return { label: '.vscodeignore', status: 'ok', detail: `${lines.length} 条规则` };
+        }
+        return {
+            label: '.vscodeignore',
+            status: removeNodeModules ? 'error' : 'warning',
+            detail: problems.join('；'),
+            fix: {
+                title: '修正 .vscodeignore',
+                apply: async () => {
+                    let content = fs.readFileSync(ignorePath, 'utf-8');
+                    if (removeNodeModules) {
+                        content = content.split(/\r?\n/).filter(l => !/^\/?node_modules(\/|\/\*\*)?$/.test(l.trim())).join('\n');
+                    }
+                    if (append.length > 0) {
+                        content = `${content.trimEnd()}\n${append.join('\n')}\n`;
+                    }
+                    return this.preview.confirmAndWrite(ignorePath, content);
+                }
+            }
+        };
+    }
+
+    private checkTypesVersion(manifest: ExtensionManifest, update: PackageJsonUpdater): ManifestCheck {
+        const engineRange = manifest.engines?.vscode ?? '';
+        const typesRange = manifest.devDependencies?.['@types/vscode'] ?? manifest.dependencies?.['@types/vscode'];
+        if (!typesRange) {
+            return { label: '@types/vscode', status: 'ok', detail: '未使用' };
+        }
+
+        const engine = parseSemVer(engineRange.replace(/^[\^~>=\s]+/, ''));
+        const types = parseSemVer(typesRange.replace(/^[\^~>=\s]+/, ''));
+        if (!engine || !types) {
+            return { label: '@types/vscode', status: 'warning', detail: `无法比较版本: engines.vscode=${engineRange}，@types/vscode=${typesRange}` };
+        }
+
+        // vsce 要求 @types/vscode 不高于 engines.vscode，否则可能用到旧版本 VS Code 没有的 API
+        if (compareSemVer(types, engine) <= 0) {
+            return { label: '@types/vscode', status: 'ok', detail: `${typesRange}（engines.vscode ${engineRange}）` };
+        }
+        return {
+            label: '@types/vscode',
+            status: 'error',
+            detail: `@types/vscode ${typesRange} 高于 engines.vscode ${engineRange}，vsce package 会报错`,
+            fix: {
+                title: '选择修复方式',
+                apply: async () => {
+                    const choice = await vscode.window.showQuickPick([
+                        { label: `engines.vscode 改为 ^${formatSemVer(types)}`, description: '要求用户使用更新的 VS Code', value: 'engine' },
+                        { label: `@types/vscode 改为 ~${formatSemVer(engine)}`, description: '修改后需重新 npm install', value: 'types' }
+                    ], { placeHolder: '@types/vscode 与 engines.vscode 不匹配' });
+                    if (!choice) return false;
+
+                    return update(m => {
+                        if (choice.value === 'engine') {
+                            m.engines = { ...(m.engines as Record<string, string>), vscode: `^${formatSemVer(types)}` };
+                        } else {
+                            const key = manifest.devDependencies?.['@types/vscode'] ? 'devDependencies' : 'dependencies';
+                            m[key] = { ...(m[key] as Record<string, string>), '@types/vscode': `~${formatSemVer(engine)}` };
+                        }
+                    });
+                }
+            }
+        };
+    }
+
+    private getOutDir(rootPath: string): string | undefined {
+        const tsconfigPath = path.join(rootPath, 'tsconfig.json');
+        if (!fs.existsSync(tsconfigPath)) return undefined;
+
+        // tsconfig 允许注释，只用正则读取 outDir
+        const match = fs.readFileSync(tsconfigPath, 'utf-8').match(/"outDir"\s*:\s*"([^"]+)"/);
+        return match ? path.normalize(match[1]).replace(/^\.[/\\]/, '').replace(/[/\\]$/, '') : undefined;
+    }
+
+    private usesBundler(manifest: ExtensionManifest): boolean {
+        const dependencies = { ...manifest.dependencies, ...manifest.devDependencies };
+        return BUNDLERS.some(name => name in dependencies);
+    }
+
+    /**
+     * 修改 package.json，保留原有缩进
+     */
+    private updatePackageJson(packageJsonPath: string, change: (manifest: Record<string, unknown>) => void): Promise<boolean> {
+        const content = fs.readFileSync(packageJsonPath, 'utf-8');
+        const indent = content.match(/^[ \t]+(?=")/m)?.[0] ?? '  ';
+        const manifest = JSON.parse(content);
+        change(manifest);
+        return this.preview.confirmAndWrite(packageJsonPath, JSON.stringify(manifest, null, indent) + '\n');
+    }
+}
+
+/** 修改 package.json，返回是否已写入 */
+type PackageJsonUpdater = (change: (manifest: Record<string, unknown>) => void) => Promise<boolean>;
@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { GitHubHelper } from '../git/githubHelper';
+import { WorkflowWriter } from './workflowWriter';
+
+type NpmRegistry = 'npmjs' | 'github';
+
+interface WorkspacePackage {
+    name: string;
+    dir: string;
+}
+
+interface NpmReleaseConfig {
+    registry: NpmRegistry;
+    nodeVersion: string;
+    installCommand: string;
+    buildCommand?: string;
+    runTests: boolean;
+    /** 要发布的 workspace 包，为空时发布根目录的包 */
+    workspaces: WorkspacePackage[];
+    access: 'public' | 'restricted';
+    provenance: boolean;
+    tokenSecret?: string;
+}
+
+const REGISTRY_URLS: Record<NpmRegistry, string> = {
+    npmjs: 'https://registry.npmjs.org',
+    github: 'https://npm.pkg.github.com'
+};
+
+export class NpmPackageGenerator {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+    private githubHelper = new GitHubHelper();
+
+    async generate(): Promise<void> {
+        // 选择工作区
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要生成 npm 发布工作流的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const packageJsonPath = path.join(rootPath, 'package.json');
+        if (!fs.existsSync(packageJsonPath)) {
+            vscode.window.showErrorMessage('未找到 package.json');
+            return;
+        }
+
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        const scripts: Record<string, string> = packageJson.scripts || {};
+
+        // workspaces 项目：选择要发布的子包
+        let workspaces: WorkspacePackage[] = [];
+        const workspacePatterns = this.getWorkspacePatterns(packageJson);
+        if (workspacePatterns.length > 0) {
+            const packages = await this.findWorkspacePackages(rootPath, workspacePatterns);
+            if (packages.length === 0) {
+                vscode.window.showWarningMessage('package.json 声明了 workspaces，但未找到可发布的子包');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                packages.map(p => ({ label: p.name, description: p.dir, picked: true, pkg: p })),
+                { canPickMany: true, placeHolder: '选择要发布的 workspace 包' }
+            );
+            if (!selected || selected.length === 0) return;
+            workspaces = selected.map(s => s.pkg);
+        } else if (packageJson.private) {
+            vscode.window.showWarningMessage('package.json 标记为 private，无法发布到 npm');
+            return;
+        }
+
+        // 选择发布目标，publishConfig.registry 指向 GitHub Packages 时默认选中
+        const publishRegistry: string = packageJson.publishConfig?.registry || '';
+        const registryItems = [
+            { label: 'npmjs.com', description: '需要 NPM_TOKEN Secret，支持 provenance', value: 'npmjs' as NpmRegistry },
+            { label: 'GitHub Packages', description: '使用 GITHUB_TOKEN，包名需带 @owner 作用域', value: 'github' as NpmRegistry }
+        ];
+        if (publishRegistry.includes('npm.pkg.github.com')) {
+            registryItems.reverse();
+        }
+        const registryChoice = await vscode.window.showQuickPick(registryItems, { placeHolder: '选择发布目标' });
+        if (!registryChoice) return;
+        const registry = registryChoice.value;
+
+        if (registry === 'github') {
+            const names = workspaces.length > 0 ? workspaces.map(w => w.name) : [packageJson.name as string];
+            const unscoped = names.filter(n => !n?.startsWith('@'));
+            if (unscoped.length > 0) {
+                vscode.window.showWarningMessage(`GitHub Packages 要求包名带作用域，以下包需要修改: ${unscoped.join(', ')}`);
+            }
+        }
+
+        // Node.js 版本
+        const nodeVersion = await vscode.window.showQuickPick(['22', '20', '18'], {
+            placeHolder: '选择构建使用的 Node.js 版本'
+        });
+        if (!nodeVersion) return;
+
+        // 构建命令：优先使用根目录脚本，workspaces 项目回退到各子包的 build
+        const buildScript = ['build', 'compile'].find(s => scripts[s]);
+        const buildCommand = buildScript
+            ? `npm run ${buildScript}`
+            : workspaces.length > 0 ? 'npm run build --workspaces --if-present' : undefined;
+        const runTests = !!scripts.test && !scripts.test.includes('no test specified');
+
+        // 访问级别：npm 对带作用域的包默认 restricted，因此显式传 --access
+        const access: 'public' | 'restricted' = packageJson.publishConfig?.access === 'restricted' ? 'restricted' : 'public';
+
+        // provenance 仅 npmjs.com 支持
+        let provenance = false;
+        if (registry === 'npmjs') {
+            const provenanceChoice = await vscode.window.showQuickPick(
+                ['是，启用 provenance', '否'],
+                { placeHolder: '是否生成 npm provenance（来源证明）？' }
+            );
+            if (!provenanceChoice) return;
+            provenance = provenanceChoice.startsWith('是');
+        }
+
+        let tokenSecret: string | undefined;
+        if (registry === 'npmjs') {
+            tokenSecret = await vscode.window.showInputBox({
+                prompt: 'GitHub Secrets 中的 npm Token 名称',
+                value: 'NPM_TOKEN'
+            });
+            if (!tokenSecret) return;
+        }
+
+        const hasLockfile = fs.existsSync(path.join(rootPath, 'package-lock.json'));
+
+        const config: NpmReleaseConfig = {
+            registry,
+            nodeVersion,
+            installCommand: hasLockfile ? 'npm ci' : 'npm install',
+            buildCommand,
+            runTests,
+            workspaces,
+            access,
+            provenance,
+            tokenSecret
+        };
+
+        if (!await this.createWorkflow(rootPath, config)) return;
+
+        if (tokenSecret) {
+            await this.githubHelper.setupWorkflowSecrets(workspaceFolder, [tokenSecret]);
+        }
+    }
+
+    private getWorkspacePatterns(packageJson: { workspaces?: string[] | { packages?: string[] } }): string[] {
+        const ws = packageJson.workspaces;
+        if (!ws) return [];
+        return Array.isArray(ws) ? ws : ws.packages || [];
+    }
+
+    private async findWorkspacePackages(rootPath: string, patterns: string[]): Promise<WorkspacePackage[]> {
+        const packages: WorkspacePackage[] = [];
+        for (const pattern of patterns) {
+            const glob = `${pattern.replace(/\/$/, '')}/package.json`;
+            const files = await vscode.workspace.findFiles(new vscode.RelativePattern(rootPath, glob), '**/node_modules/**');
+            for (const file of files) {
+                try {
+                    const pkg = JSON.parse(fs.readFileSync(file.fsPath, 'utf-8'));
+                    if (pkg.name && !pkg.private) {
+                        const dir = path.relative(rootPath, path.dirname(file.fsPath)).replace(/\\/g, '/');
+                        packages.push({ name: pkg.name, dir });
+                    }
+                } catch {
+                    // 忽略无法解析的 package.json
+                }
+            }
+        }
+        return packages;
+    }
+
+    private async createWorkflow(rootPath: string, config: NpmReleaseConfig): Promise<boolean> {
+        const publishFlags = [
+            `--access ${config.access}`,
+            ...(config.provenance ? ['--provenance'] : [])
+        ].join(' ');
+
+        // 构建和测试步骤
+        let buildSteps = '';
+        if (config.buildCommand) {
+            buildSteps += `
+      - name: Build
+        run: ${config.buildCommand}
+`;
+        }
+        if (config.runTests) {
+            buildSteps += `
+      - name: Test
+        run: npm test
+`;
+        }
+
+        // 打包和发布步骤
+        let publishSteps = '';
+        if (config.workspaces.length > 0) {
+            publishSteps += config.workspaces.map(ws => `
+      - name: Pack ${ws.name}
+        run: npm pack --workspace ${ws.dir} --pack-destination ./packages
+
+      - name: Publish ${ws.name}
+        if: \${{ !inputs.dry_run }}
+        run: npm publish --workspace ${ws.dir} ${publishFlags}
+        env:
+          NODE_AUTH_TOKEN: ${this.getAuthToken(config)}
+`).join('');
+        } else {
+            publishSteps += `
+      - name: Pack
+        run: npm pack --pack-destination ./packages
+
+      - name: Publish
+        if: \${{ !inputs.dry_run }}
+        run: npm publish ${publishFlags}
+        env:
+          NODE_AUTH_TOKEN: ${this.getAuthToken(config)}
+`;
+        }
+
+        const permissions = [
+            '  contents: write',
+            ...(config.registry === 'github' ? ['  packages: write'] : []),
+            ...(config.provenance ? ['  id-token: write'] : [])
+        ].join('\n');
+
+        const ymlContent = `name: Release npm Package
+
+on:
+  push:
+    tags:
+      - 'v*'
+  workflow_dispatch:
+    inputs:
+      dry_run:
+        description: '测试模式（只构建不发布）'
+        type: boolean
+        default: false
+
+permissions:
+${permissions}
+
+jobs:
+  build-and-publish:
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Setup Node.js
+        uses: actions/setup-node@v4
+        with:
+          node-version: '${config.nodeVersion}'
+          registry-url: '${REGISTRY_URLS[config.registry]}'${config.installCommand === 'npm ci' ? `
+          cache: 'npm'` : ''}
+
+      - name: Install dependencies
+        run: ${config.installCommand}
+${buildSteps}
+      - name: Create packages directory
+        run: mkdir -p ./packages
+${publishSteps}
+      - name: Create GitHub Release
+        uses: softprops/action-gh-release@v2
+        if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+        with:
+          files: ./packages/*.tgz
+          generate_release_notes: true
+`;
+
+        const filePath = await this.workflowWriter.write(rootPath, 'release.yml', ymlContent);
+        if (!filePath) return false;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+        return true;
+    }
+
+    private getAuthToken(config: NpmReleaseConfig): string {
+        return config.registry === 'github'
+            ? '${{ secrets.GITHUB_TOKEN }}'
+            : `\${{ secrets.${config.tokenSecret} }}`;
+    }
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { WorkflowWriter } from './workflowWriter';
+import { Pipeline, PipelinePlatform, PIPELINE_FILES, collectPipelineSecrets } from '../pipeline/pipelineModel';
+import { renderGitLabCi } from '../pipeline/gitlabCiRenderer';
+import { renderGiteaActions } from '../pipeline/giteaActionsRenderer';
+
+const execAsync = promisify(exec);
+
+const SECRET_SETTINGS: Record<Exclude<PipelinePlatform, 'github'>, string> = {
+    gitlab: 'Settings → CI/CD → Variables（勾选 Masked；勾选 Protected 时需要在 Settings → Repository → Protected tags 中保护发布 Tag）',
+    gitea: '仓库设置 → Actions → Secrets'
+};
+
+/**
+ * 选择流水线平台，把平台无关的流水线渲染为 GitLab CI / Gitea Actions 并写入
+ */
+export class PipelineWriter {
+    private workflowWriter = new WorkflowWriter();
+
+    /**
+     * 选择生成的平台，远程仓库在 GitLab / Gitea 上时排在前面
+     */
+    async selectPlatform(rootPath: string): Promise<PipelinePlatform | undefined> {
+        const remotes = await this.getRemoteUrls(rootPath);
+        const detected = (pattern: RegExp) => remotes.find(url => pattern.test(url));
+
+        const items = [
+            { label: '$(github) GitHub Actions', description: '.github/workflows', value: 'github' as PipelinePlatform, remote: detected(/github\.com/i) },
+            { label: '$(source-control) GitLab CI', description: PIPELINE_FILES.gitlab, detail: 'CI/CD 变量代替 Secrets，release-cli 创建 Release', value: 'gitlab' as PipelinePlatform, remote: detected(/gitlab/i) },
+            { label: '$(server) Gitea Actions', description: PIPELINE_FILES.gitea, detail: '兼容 GitHub Actions 语法，gitea-release-action 创建 Release', value: 'gitea' as PipelinePlatform, remote: detected(/gitea/i) }
+        ].map(item => item.remote ? { ...item, description: `${item.description} · 远程 ${item.remote}` } : item);
+
+        // 远程仓库在 GitLab / Gitea 上时排在第一位
+        items.sort((a, b) => Number(!!b.remote && b.value !== 'github') - Number(!!a.remote && a.value !== 'github'));
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: '生成哪个平台的发布流水线？' });
+        return picked?.value;
+    }
+
+    /**
+     * 渲染并写入流水线文件，提示需要配置的变量
+     * @returns 是否已写入
+     */
+    async write(rootPath: string, platform: Exclude<PipelinePlatform, 'github'>, pipeline: Pipeline): Promise<boolean> {
+        const content = platform === 'gitlab' ? renderGitLabCi(pipeline) : renderGiteaActions(pipeline);
+
+        const filePath = await this.workflowWriter.writePipeline(rootPath, PIPELINE_FILES[platform], content);
+        if (!filePath) return false;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(filePath));
+
+        const secrets = collectPipelineSecrets(pipeline);
+        if (secrets.length > 0) {
+            vscode.window.showInformationMessage(`需要在 ${SECRET_SETTINGS[platform]} 中配置: ${secrets.join(', ')}`);
+        }
+        return true;
+    }
+
+    private async getRemoteUrls(rootPath: string): Promise<string[]> {
+        try {
+            const { stdout } = await execAsync('git remote -v', { cwd: rootPath });
+            return [...new Set(stdout.split('\n').map(line => line.split(/\s+/)[1]).filter(Boolean))];
+        } catch {
+            return [];
+        }
+    }
+}
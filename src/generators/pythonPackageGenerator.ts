@@ -0,0 +1,388 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { GitHubHelper } from '../git/githubHelper';
+import { WorkflowWriter } from './workflowWriter';
+
+type BuildTool = 'build' | 'poetry' | 'hatch' | 'cibuildwheel';
+type PypiTarget = 'pypi' | 'testpypi';
+type PypiAuth = 'trusted' | 'token';
+
+interface PythonReleaseConfig {
+    packageName?: string;
+    buildTool: BuildTool;
+    pythonVersions: string[];
+    runTests: boolean;
+    target: PypiTarget;
+    auth: PypiAuth;
+    tokenSecret?: string;
+}
+
+const PYTHON_VERSIONS = ['3.9', '3.10', '3.11', '3.12', '3.13'];
+
+const BUILD_BACKENDS: Record<string, BuildTool> = {
+    'poetry.core.masonry.api': 'poetry',
+    'hatchling.build': 'hatch'
+};
+
+export class PythonPackageGenerator {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+    private githubHelper = new GitHubHelper();
+
+    async generate(): Promise<void> {
+        // 选择工作区
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要生成 PyPI 发布工作流的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const projectFiles = ['pyproject.toml', 'setup.cfg', 'setup.py'].filter(f => fs.existsSync(path.join(rootPath, f)));
+        if (projectFiles.length === 0) {
+            vscode.window.showWarningMessage('未找到 pyproject.toml / setup.cfg / setup.py');
+            return;
+        }
+
+        // 选择构建方式，按 pyproject.toml 的 build-backend 预选
+        const detected = this.detectBuildTool(rootPath);
+        const toolItems = [
+            { label: 'python -m build', description: '通用 PEP 517 构建（setuptools/flit/pdm 等）', value: 'build' as BuildTool },
+            { label: 'Poetry', description: 'poetry build', value: 'poetry' as BuildTool },
+            { label: 'Hatch', description: 'hatch build', value: 'hatch' as BuildTool },
+            { label: 'cibuildwheel', description: '含 C/C++/Rust 扩展，按平台构建 wheel', value: 'cibuildwheel' as BuildTool }
+        ].map(item => item.value === detected ? { ...item, description: `${item.description}（已检测）` } : item);
+        toolItems.sort((a, b) => (a.value === detected ? -1 : 0) - (b.value === detected ? -1 : 0));
+
+        const toolChoice = await vscode.window.showQuickPick(toolItems, {
+            placeHolder: `选择构建方式（检测到: ${projectFiles.join(', ')}）`
+        });
+        if (!toolChoice) return;
+
+        // Python 版本矩阵
+        const requiresPython = this.detectRequiresPython(rootPath);
+        const versionChoices = await vscode.window.showQuickPick(
+            PYTHON_VERSIONS.map(v => ({ label: v, picked: this.satisfiesMinimum(v, requiresPython) })),
+            { canPickMany: true, placeHolder: requiresPython ? `选择测试的 Python 版本（requires-python ${requiresPython}）` : '选择测试的 Python 版本' }
+        );
+        if (!versionChoices || versionChoices.length === 0) return;
+        const pythonVersions = versionChoices.map(v => v.label);
+
+        const hasTests = fs.existsSync(path.join(rootPath, 'tests')) || fs.existsSync(path.join(rootPath, 'test'));
+        const testChoice = await vscode.window.showQuickPick(
+            hasTests ? ['是，运行 pytest', '否，跳过测试'] : ['否，跳过测试', '是，运行 pytest'],
+            { placeHolder: '发布前是否运行测试？' }
+        );
+        if (!testChoice) return;
+
+        // 发布目标
+        const targetChoice = await vscode.window.showQuickPick([
+            { label: 'PyPI', description: 'https://pypi.org', value: 'pypi' as PypiTarget },
+            { label: 'TestPyPI', description: 'https://test.pypi.org，适合试发布', value: 'testpypi' as PypiTarget }
+        ], { placeHolder: '选择发布目标' });
+        if (!targetChoice) return;
+
+        const authChoice = await vscode.window.showQuickPick([
+            { label: 'Trusted Publishing', description: '推荐，需在 PyPI 项目中配置可信发布者，无需 Token', value: 'trusted' as PypiAuth },
+            { label: 'API Token', description: '使用 GitHub Secrets 中的 PyPI API Token', value: 'token' as PypiAuth }
+        ], { placeHolder: '选择认证方式' });
+        if (!authChoice) return;
+
+        let tokenSecret: string | undefined;
+        if (authChoice.value === 'token') {
+            tokenSecret = await vscode.window.showInputBox({
+                prompt: 'GitHub Secrets 中的 PyPI API Token 名称',
+                value: targetChoice.value === 'testpypi' ? 'TEST_PYPI_API_TOKEN' : 'PYPI_API_TOKEN'
+            });
+            if (!tokenSecret) return;
+        }
+
+        const config: PythonReleaseConfig = {
+            packageName: this.detectPackageName(rootPath),
+            buildTool: toolChoice.value,
+            pythonVersions,
+            runTests: testChoice.startsWith('是'),
+            target: targetChoice.value,
+            auth: authChoice.value,
+            tokenSecret
+        };
+
+        if (!await this.createWorkflow(rootPath, config)) return;
+
+        if (tokenSecret) {
+            await this.githubHelper.setupWorkflowSecrets(workspaceFolder, [tokenSecret]);
+        } else {
+            // 环境名与工作流中 publish job 的 environment 一致
+            const site = config.target === 'testpypi' ? 'TestPyPI' : 'PyPI';
+            const action = await vscode.window.showInformationMessage(
+                `Trusted Publishing 需要在 ${site} 项目设置中添加 GitHub 可信发布者（工作流 release.yml，环境 ${config.target}）`,
+                '查看配置说明',
+                '稍后配置'
+            );
+            if (action === '查看配置说明') {
+                vscode.env.openExternal(vscode.Uri.parse('https://docs.pypi.org/trusted-publishers/adding-a-publisher/'));
+            }
+        }
+    }
+
+    private detectBuildTool(rootPath: string): BuildTool {
+        try {
+            const content = fs.readFileSync(path.join(rootPath, 'pyproject.toml'), 'utf-8');
+            if (/^\s*\[tool\.cibuildwheel\]/m.test(content)) return 'cibuildwheel';
+            const match = content.match(/build-backend\s*=\s*["']([^"']+)["']/);
+            if (match && BUILD_BACKENDS[match[1]]) return BUILD_BACKENDS[match[1]];
+        } catch {
+            // 没有 pyproject.toml
+        }
+        return 'build';
+    }
+
+    private detectPackageName(rootPath: string): string | undefined {
+        for (const file of ['pyproject.toml', 'setup.cfg']) {
+            try {
+                const content = fs.readFileSync(path.join(rootPath, file), 'utf-8');
+                const match = content.match(/^name\s*=\s*["']?([\w.-]+)["']?/m);
+                if (match) return match[1];
+            } catch {
+                // 忽略
+            }
+        }
+        return undefined;
+    }
+
+    private detectRequiresPython(rootPath: string): string | undefined {
+        for (const file of ['pyproject.toml', 'setup.cfg']) {
+            try {
+                const content = fs.readFileSync(path.join(rootPath, file), 'utf-8');
+                const match = content.match(/(?:requires-python|python_requires)\s*=\s*["']?([^"'\n]+)["']?/);
+                if (match) return match[1].trim();
+            } catch {
+                // 忽略
+            }
+        }
+        return undefined;
+    }
+
+    private satisfiesMinimum(version: string, requiresPython?: string): boolean {
+        const match = requiresPython?.match(/>=\s*3\.(\d+)/);
+        if (!match) return version !== '3.9';
+        return parseInt(version.split('.')[1]) >= parseInt(match[1]);
+    }
+
+    private getBuildSteps(config: PythonReleaseConfig, pythonVersion: string): string {
+        const setupPython = `
+      - name: Setup Python
+        uses: actions/setup-python@v5
+        with:
+          python-version: '${pythonVersion}'
+`;
+        switch (config.buildTool) {
+            case 'poetry':
+                return `${setupPython}
+      - name: Install Poetry
+        run: pipx install poetry
+
+      - name: Build
+        run: poetry build`;
+            case 'hatch':
+                return `${setupPython}
+      - name: Install Hatch
+        run: pipx install hatch
+
+      - name: Build
+        run: hatch build`;
+            default:
+                return `${setupPython}
+      - name: Install build
+        run: python -m pip install --upgrade build
+
+      - name: Build
+        run: python -m build`;
+        }
+    }
+
+    private getTestInstallCommand(config: PythonReleaseConfig): string {
+        if (config.buildTool === 'poetry') {
+            return `pipx install poetry
+          poetry install`;
+        }
+        return `python -m pip install --upgrade pip
+          pip install . pytest`;
+    }
+
+    private async createWorkflow(rootPath: string, config: PythonReleaseConfig): Promise<boolean> {
+        const buildPython = config.pythonVersions[config.pythonVersions.length - 1];
+
+        // 测试 job
+        let testJob = '';
+        if (config.runTests) {
+            testJob = `
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        python-version: [${config.pythonVersions.map(v => `'${v}'`).join(', ')}]
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Setup Python \${{ matrix.python-version }}
+        uses: actions/setup-python@v5
+        with:
+          python-version: \${{ matrix.python-version }}
+
+      - name: Install dependencies
+        run: |
+          ${this.getTestInstallCommand(config)}
+
+      - name: Test
+        run: ${config.buildTool === 'poetry' ? 'poetry run pytest' : 'pytest'}
+`;
+        }
+
+        const needsTest = config.runTests ? `
+    needs: test` : '';
+
+        // 构建 job：cibuildwheel 按平台构建 wheel，sdist 单独构建
+        let buildJobs: string;
+        if (config.buildTool === 'cibuildwheel') {
+            buildJobs = `
+  build-wheels:${needsTest}
+    runs-on: \${{ matrix.os }}
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest, macos-latest]
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Build wheels
+        uses: pypa/cibuildwheel@v2.21
+        env:
+          CIBW_BUILD: ${config.pythonVersions.map(v => `cp${v.replace('.', '')}-*`).join(' ')}
+
+      - name: Upload wheels
+        uses: actions/upload-artifact@v4
+        with:
+          name: dist-wheels-\${{ matrix.os }}
+          path: ./wheelhouse/*.whl
+
+  build-sdist:${needsTest}
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+${this.getBuildSteps({ ...config, buildTool: 'build' }, buildPython).replace('python -m build', 'python -m build --sdist')}
+
+      - name: Upload sdist
+        uses: actions/upload-artifact@v4
+        with:
+          name: dist-sdist
+          path: dist/*.tar.gz
+`;
+        } else {
+            buildJobs = `
+  build:${needsTest}
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+${this.getBuildSteps(config, buildPython)}
+
+      - name: Upload dist
+        uses: actions/upload-artifact@v4
+        with:
+          name: dist-package
+          path: dist/
+`;
+        }
+
+        const buildNeeds = config.buildTool === 'cibuildwheel' ? '[build-wheels, build-sdist]' : 'build';
+
+        const downloadStep = `
+      - name: Download dist
+        uses: actions/download-artifact@v4
+        with:
+          pattern: dist-*
+          path: dist
+          merge-multiple: true`;
+
+        // 发布步骤
+        const publishWith: string[] = [];
+        if (config.target === 'testpypi') {
+            publishWith.push('repository-url: https://test.pypi.org/legacy/');
+        }
+        if (config.auth === 'token') {
+            publishWith.push(`password: \${{ secrets.${config.tokenSecret} }}`);
+        }
+        const publishWithBlock = publishWith.length > 0
+            ? `
+        with:
+${publishWith.map(l => `          ${l}`).join('\n')}`
+            : '';
+
+        const publishPermissions = config.auth === 'trusted' ? `
+    permissions:
+      id-token: write` : '';
+
+        const environmentUrl = config.target === 'testpypi' ? 'https://test.pypi.org/p/' : 'https://pypi.org/p/';
+
+        const ymlContent = `name: Release Python Package
+
+on:
+  push:
+    tags:
+      - 'v*'
+  workflow_dispatch:
+    inputs:
+      dry_run:
+        description: '测试模式（只构建不发布）'
+        type: boolean
+        default: false
+
+permissions:
+  contents: write
+
+jobs:${testJob}${buildJobs}
+  publish:
+    needs: ${buildNeeds}
+    if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+    runs-on: ubuntu-latest
+    environment:
+      name: ${config.target}
+      url: ${environmentUrl}${config.packageName ?? '${{ github.event.repository.name }}'}${publishPermissions}
+
+    steps:${downloadStep}
+
+      - name: Publish to ${config.target === 'testpypi' ? 'TestPyPI' : 'PyPI'}
+        uses: pypa/gh-action-pypi-publish@release/v1${publishWithBlock}
+
+  release:
+    needs: ${buildNeeds}
+    if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+    runs-on: ubuntu-latest
+
+    steps:${downloadStep}
+
+      - name: Create GitHub Release
+        uses: softprops/action-gh-release@v2
+        with:
+          files: dist/*
+          generate_release_notes: true
+`;
+
+        const filePath = await this.workflowWriter.write(rootPath, 'release.yml', ymlContent);
+        if (!filePath) return false;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+        return true;
+    }
+}
@@ -2,20 +2,100 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { WorkspaceManager } from '../git/workspaceManager';
+import { GitHubHelper } from '../git/githubHelper';
+import { WorkflowWriter } from './workflowWriter';
+import { PipelineWriter } from './pipelineWriter';
+import { DiffPreview } from '../views/diffPreview';
+import { TemplateManager } from '../templates/templateManager';
+import { DotnetBuildAcceleration, BuildAccelerationConfig, getPublishArgs } from './dotnetBuildAcceleration';
+import { loadDotnetWorkspace, getSdkVersions, DotnetProject, DotnetProjectKind, DotnetWorkspace } from './dotnetProjectModel';
+import { Pipeline, PipelineJob, PipelinePlatform, PipelineStep, PipelineTool } from '../pipeline/pipelineModel';
+
+/**
+ * 签名方式
+ * - pfx：Secrets 中的 PFX 证书，signtool 签名程序文件，dotnet nuget sign 签名 NuGet 包
+ * - nuget：只用 dotnet nuget sign 签名 NuGet 包
+ * - azure：Azure Key Vault 中的证书，AzureSignTool / NuGetKeyVaultSignTool 远程签名
+ */
+type SignMethod = 'none' | 'pfx' | 'nuget' | 'azure';
+
+interface SigningConfig {
+    method: SignMethod;
+    timestampUrl: string;
+}
+
+const PFX_SECRETS = ['SIGNING_CERTIFICATE', 'SIGNING_CERTIFICATE_PASSWORD'];
+const AZURE_KEY_VAULT_SECRETS = ['AZURE_KEY_VAULT_URL', 'AZURE_KEY_VAULT_CERTIFICATE', 'AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET', 'AZURE_TENANT_ID'];
+
+/**
+ * NuGet 发布源
+ * - nuget.org：API Key 推送
+ * - github：GitHub Packages，使用 GITHUB_TOKEN（需要 packages: write）
+ * - azure：Azure Artifacts，PAT 作为源凭据，推送时 API Key 可为任意值
+ * - custom：ProGet、Nexus、BaGet 等私有源，API Key 同时作为源凭据
+ */
+type NuGetFeedKind = 'nuget.org' | 'github' | 'azure' | 'custom';
+
+interface NuGetFeed {
+    kind: NuGetFeedKind;
+    /** 源名称，与 nuget.config 中的 key 一致 */
+    name: string;
+    url: string;
+    /** API Key / PAT 的 Secret 名称，GitHub Packages 为 GITHUB_TOKEN */
+    secret: string;
+    /** 私有源需要先注册凭据，还原内部依赖包时也会用到 */
+    authenticated: boolean;
+    /** nuget.config 中已声明该源，只需更新凭据 */
+    inNuGetConfig: boolean;
+    /** 需要添加到 nuget.config，工作流写入后预览确认 */
+    addToNuGetConfig: boolean;
+    /** 是否支持 .snupkg 符号包（GitHub Packages 和 Azure Artifacts 不支持） */
+    symbols: boolean;
+}
 
-type ReleaseType = 'nuget' | 'zip' | 'both';
+const NUGET_ORG_URL = 'https://api.nuget.org/v3/index.json';
+
+/**
+ * 发布前的测试门禁：测试失败或行覆盖率低于阈值时不发布
+ */
+interface TestGateConfig {
+    /** 为空时不运行测试 */
+    projects: DotnetProject[];
+    /** dotnet test --filter 表达式 */
+    filter: string;
+    /** 行覆盖率阈值（%），0 表示不检查 */
+    coverageThreshold: number;
+}
 
 interface ReleaseConfig {
-    projects: string[];
-    releaseType: ReleaseType;
-    nugetApiKeySecret?: string;
-    nugetSource: string;
+    nugetProjects: DotnetProject[];
+    zipProjects: DotnetProject[];
+    /** 单个解决方案时还原/构建解决方案，否则逐个项目 */
+    buildTargets: string[];
+    nugetFeeds: NuGetFeed[];
+    symbolPackages: boolean;
     dotnetVersions: string[];
+    globalJsonFile?: string;
     runtimes: string[];
+    tests: TestGateConfig;
+    acceleration: BuildAccelerationConfig;
+    signing: SigningConfig;
 }
 
+const KIND_LABELS: Record<DotnetProjectKind, string> = {
+    library: '类库',
+    app: '应用程序',
+    test: '测试项目'
+};
+
 export class ReleaseYmlGenerator {
     private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+    private pipelineWriter = new PipelineWriter();
+    private templateManager = new TemplateManager();
+    private githubHelper = new GitHubHelper();
+    private buildAcceleration = new DotnetBuildAcceleration();
+    private preview = DiffPreview.getInstance();
 
     async generate(): Promise<void> {
         // 选择工作区
@@ -25,43 +105,74 @@ export class ReleaseYmlGenerator {
         });
         if (!workspaceFolder) return;
 
-        const projects = await this.findCsprojFiles(workspaceFolder.uri.fsPath);
+        const rootPath = workspaceFolder.uri.fsPath;
+        const workspace = loadDotnetWorkspace(rootPath);
+        const projects = workspace.projects.filter(p => !p.isTestProject);
         if (projects.length === 0) {
-            vscode.window.showWarningMessage('未找到 .csproj 文件');
+            vscode.window.showWarningMessage('未找到 .NET 项目（.sln / .slnx 或 .csproj）');
             return;
         }
 
-        // 选择发布类型
-        const releaseTypeChoice = await vscode.window.showQuickPick([
-            { label: 'NuGet 包', description: '适合类库项目', value: 'nuget' as ReleaseType },
-            { label: 'ZIP 压缩包', description: '适合 WPF/控制台等应用程序', value: 'zip' as ReleaseType },
-            { label: '两者都要', description: 'NuGet + ZIP', value: 'both' as ReleaseType }
-        ], { placeHolder: '选择发布类型' });
+        const platform = await this.pipelineWriter.selectPlatform(rootPath);
+        if (!platform) return;
+
+        // 每个项目可选 NuGet / ZIP，类库默认 NuGet，应用程序默认 ZIP
+        const items = projects.flatMap(p => {
+            const detail = `${p.path} · ${KIND_LABELS[p.kind]} · ${p.targetFrameworks.join(';') || '未检测到目标框架'}`;
+            return [
+                { label: p.name, kind: vscode.QuickPickItemKind.Separator },
+                {
+                    label: `$(package) ${p.name}`,
+                    description: p.isPackable ? `NuGet 包 · ${p.packageId}` : 'NuGet 包 · IsPackable=false',
+                    detail,
+                    picked: p.kind === 'library' && p.isPackable,
+                    project: p,
+                    mode: 'nuget'
+                },
+                {
+                    label: `$(file-zip) ${p.name}`,
+                    description: 'ZIP 压缩包',
+                    detail,
+                    picked: p.kind === 'app',
+                    project: p,
+                    mode: 'zip'
+                }
+            ];
+        });
 
-        if (!releaseTypeChoice) return;
-        const releaseType = releaseTypeChoice.value;
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: '选择各项目的发布方式（已按项目类型预选）'
+        });
+        if (!selected || selected.length === 0) return;
 
-        // 选择项目
-        const selectedProjects = await vscode.window.showQuickPick(
-            projects.map(p => ({ label: path.basename(p, '.csproj'), description: p, picked: false })),
-            { canPickMany: true, placeHolder: '选择要发布的项目' }
-        );
+        const nugetProjects = selected.filter(s => s.mode === 'nuget').map(s => s.project!);
+        const zipProjects = selected.filter(s => s.mode === 'zip').map(s => s.project!);
 
-        if (!selectedProjects || selectedProjects.length === 0) return;
+        const notPackable = nugetProjects.filter(p => !p.isPackable);
+        if (notPackable.length > 0) {
+            vscode.window.showWarningMessage(`以下项目设置了 IsPackable=false，dotnet pack 不会生成包: ${notPackable.map(p => p.name).join(', ')}`);
+        }
 
-        // NuGet 配置
-        let nugetApiKeySecret: string | undefined;
-        if (releaseType === 'nuget' || releaseType === 'both') {
-            nugetApiKeySecret = await vscode.window.showInputBox({
-                prompt: 'GitHub Secrets 中的 NuGet API Key 名称',
-                value: 'NUGET_API_KEY'
-            });
-            if (!nugetApiKeySecret) return;
+        // NuGet 发布源
+        let nugetFeeds: NuGetFeed[] = [];
+        let symbolPackages = false;
+        if (nugetProjects.length > 0) {
+            const feeds = await this.selectNuGetFeeds(rootPath, workspace, platform);
+            if (!feeds) return;
+            nugetFeeds = feeds;
+
+            const symbols = await vscode.window.showQuickPick([
+                { label: '生成并推送符号包 (.snupkg)', description: '调试时可从符号服务器下载 PDB', value: true },
+                { label: '不生成符号包', value: false }
+            ], { placeHolder: feeds.every(f => !f.symbols) ? '所选的源都不支持符号包，符号包只会作为 Release 附件' : '是否发布符号包？' });
+            if (!symbols) return;
+            symbolPackages = symbols.value;
         }
 
         // ZIP 运行时选择
         let runtimes: string[] = [];
-        if (releaseType === 'zip' || releaseType === 'both') {
+        if (zipProjects.length > 0) {
             const runtimeChoices = await vscode.window.showQuickPick([
                 { label: 'win-x64', picked: true },
                 { label: 'win-x86' },
@@ -75,150 +186,556 @@ export class ReleaseYmlGenerator {
             runtimes = runtimeChoices?.map(r => r.label) || ['win-x64'];
         }
 
-        // 检测 .NET 版本
-        const allVersions = new Set<string>();
-        for (const proj of selectedProjects) {
-            const versions = await this.detectDotnetVersions(workspaceFolder.uri.fsPath, proj.description!);
-            versions.forEach(v => allVersions.add(v));
+        // SDK 版本：global.json 固定了版本时直接使用，否则按目标框架安装
+        const globalJson = workspace.globalJson;
+        let dotnetVersions = globalJson?.sdkVersion ? [] : getSdkVersions([...nugetProjects, ...zipProjects]);
+        if (!globalJson?.sdkVersion && dotnetVersions.length === 0) {
+            const version = await vscode.window.showInputBox({
+                prompt: '未能从项目及 Directory.Build.props 中检测到目标框架，请输入 .NET SDK 版本',
+                value: '8.0.x',
+                validateInput: (v) => /^\d+\.\d+(\.(x|\d+))?$/.test(v.trim()) ? null : '格式如 8.0.x 或 8.0.404'
+            });
+            if (!version) return;
+            dotnetVersions = [version.trim()];
         }
 
+        const tests = await this.selectTestGate(workspace);
+        if (!tests) return;
+
+        const acceleration = await this.buildAcceleration.select(rootPath, workspace, zipProjects, runtimes);
+        if (!acceleration) return;
+
+        // 签名步骤依赖 Windows Runner 和 GitHub Secrets，其他平台只生成不签名的流水线
+        if (platform !== 'github') {
+            const confirm = await vscode.window.showWarningMessage(
+                `${platform === 'gitlab' ? 'GitLab CI' : 'Gitea Actions'} 流水线不支持代码签名，生成的 NuGet 包和 ZIP 中的程序集都不会签名。`,
+                { modal: true },
+                '继续生成（不签名）'
+            );
+            if (!confirm) return;
+        }
+        const signing = platform === 'github'
+            ? await this.selectSigning(nugetProjects.length > 0, zipProjects.length > 0)
+            : { method: 'none' as SignMethod, timestampUrl: '' };
+        if (!signing) return;
+
+        const selectedPaths = [...new Set([...nugetProjects, ...zipProjects].map(p => p.path))];
+
         const config: ReleaseConfig = {
-            projects: selectedProjects.map(p => p.description!),
-            releaseType,
-            nugetApiKeySecret,
-            nugetSource: 'https://api.nuget.org/v3/index.json',
-            dotnetVersions: allVersions.size > 0 ? [...allVersions] : ['8.0.x'],
-            runtimes
+            nugetProjects,
+            zipProjects,
+            buildTargets: workspace.solutions.length === 1 ? workspace.solutions : selectedPaths,
+            nugetFeeds,
+            symbolPackages,
+            dotnetVersions,
+            globalJsonFile: globalJson?.path,
+            runtimes,
+            tests,
+            acceleration,
+            signing
         };
 
-        await this.createReleaseYml(workspaceFolder.uri.fsPath, config);
+        // 在渲染工作流之前确认，取消时不生成 --locked-mode 还原
+        config.acceleration = await this.buildAcceleration.confirmLockFileEdit(rootPath, acceleration);
+
+        if (platform !== 'github') {
+            if (await this.pipelineWriter.write(rootPath, platform, this.buildPipeline(config))) {
+                await this.applyProjectEdits(rootPath, workspace, config);
+            }
+            return;
+        }
+
+        if (!await this.createReleaseYml(rootPath, config)) return;
+        await this.applyProjectEdits(rootPath, workspace, config);
+
+        // GITHUB_TOKEN 由 Actions 自动提供，无需创建
+        const feedSecrets = [...new Set(nugetFeeds.filter(f => f.kind !== 'github').map(f => f.secret))];
+        await this.githubHelper.setupWorkflowSecrets(workspaceFolder, feedSecrets);
+
+        if (signing.method !== 'none') {
+            await this.setupSigningSecrets(workspaceFolder, signing.method);
+        }
     }
 
-    private async findCsprojFiles(rootPath: string): Promise<string[]> {
-        const pattern = new vscode.RelativePattern(rootPath, '**/*.csproj');
-        const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
-        return files.map(f => vscode.workspace.asRelativePath(f));
+    private async selectNuGetFeeds(rootPath: string, workspace: DotnetWorkspace, platform: PipelinePlatform): Promise<NuGetFeed[] | undefined> {
+        const configured = workspace.nugetConfig?.sources ?? [];
+        const selected = await vscode.window.showQuickPick([
+            { label: 'nuget.org', description: '需要 NuGet API Key Secret', picked: true, value: 'nuget.org' as NuGetFeedKind },
+            // GitHub Packages 依赖 Actions 提供的 GITHUB_TOKEN
+            ...(platform === 'github' ? [{ label: 'GitHub Packages', description: '使用 GITHUB_TOKEN（packages: write）', value: 'github' as NuGetFeedKind }] : []),
+            { label: 'Azure Artifacts', description: '需要具有 Packaging 读写权限的 PAT Secret', value: 'azure' as NuGetFeedKind },
+            { label: '其他私有源', description: 'ProGet、Nexus、BaGet、GitLab / Gitea 软件包仓库等，需要 API Key Secret', value: 'custom' as NuGetFeedKind }
+        ], { canPickMany: true, placeHolder: '选择 NuGet 包的发布源（可多选）' });
+        if (!selected || selected.length === 0) return undefined;
+
+        const feeds: NuGetFeed[] = [];
+        for (const { value: kind } of selected) {
+            const feed = await this.promptNuGetFeed(rootPath, kind, platform);
+            if (!feed) return undefined;
+
+            // 复用 nuget.config 中同一地址的源名称，工作流只需更新凭据
+            const existing = configured.find(s => s.url.replace(/\/+$/, '').toLowerCase() === feed.url.replace(/\/+$/, '').toLowerCase());
+            if (existing) {
+                feed.name = existing.key;
+                feed.inNuGetConfig = true;
+            } else if (feed.authenticated) {
+                const choice = await vscode.window.showQuickPick([
+                    { label: '仅在工作流中注册', description: 'dotnet nuget add source', value: false },
+                    { label: `写入 ${workspace.nugetConfig?.path ?? 'nuget.config'}`, description: '项目引用了该源中的内部包时需要，本地还原也能使用', value: true }
+                ], { placeHolder: `${feed.name} 尚未在 nuget.config 中声明` });
+                if (!choice) return undefined;
+                if (choice.value) {
+                    feed.inNuGetConfig = true;
+                    feed.addToNuGetConfig = true;
+                }
+            }
+            feeds.push(feed);
+        }
+        return feeds;
     }
 
-    private async detectDotnetVersions(rootPath: string, projectPath: string): Promise<string[]> {
-        try {
-            const fullPath = path.join(rootPath, projectPath);
-            const content = fs.readFileSync(fullPath, 'utf-8');
-            const match = content.match(/<TargetFrameworks?>(.*?)<\/TargetFrameworks?>/);
-            if (match) {
-                const frameworks = match[1].split(';');
-                const versions = frameworks
-                    .map(f => f.match(/net(\d+)\.(\d+)/))
-                    .filter((m): m is RegExpMatchArray => m !== null)
-                    .map(m => `${m[1]}.${m[2]}.x`);
-                return [...new Set(versions)];
+    private async promptNuGetFeed(rootPath: string, kind: NuGetFeedKind, platform: PipelinePlatform): Promise<NuGetFeed | undefined> {
+        const feed = { kind, authenticated: kind !== 'nuget.org', inNuGetConfig: false, addToNuGetConfig: false, symbols: kind === 'nuget.org' };
+
+        if (kind === 'github') {
+            const owner = await vscode.window.showInputBox({
+                prompt: 'GitHub Packages 的所有者（用户或组织）',
+                value: await this.getGitHubOwner(rootPath)
+            });
+            if (!owner) return undefined;
+            return { ...feed, name: 'github', url: `https://nuget.pkg.github.com/${owner}/index.json`, secret: 'GITHUB_TOKEN' };
+        }
+
+        const url = kind === 'nuget.org' ? NUGET_ORG_URL : await vscode.window.showInputBox({
+            prompt: kind === 'azure' ? 'Azure Artifacts 源地址' : '私有源地址（NuGet V3 index.json）',
+            placeHolder: kind === 'azure' ? 'https://pkgs.dev.azure.com/{organization}/_packaging/{feed}/nuget/v3/index.json' : 'https://nuget.example.com/v3/index.json',
+            validateInput: (v) => /^https?:\/\/\S+$/.test(v.trim()) ? null : '请输入 http(s) 地址'
+        });
+        if (!url) return undefined;
+
+        const defaultName = kind === 'nuget.org'
+            ? 'nuget.org'
+            : url.match(/_packaging\/([^/@]+)/)?.[1] ?? new URL(url.trim()).hostname;
+        const defaultSecret = { 'nuget.org': 'NUGET_API_KEY', azure: 'AZURE_ARTIFACTS_PAT', custom: 'NUGET_FEED_API_KEY' }[kind];
+
+        const store = { github: 'GitHub Secrets', gitlab: 'GitLab CI/CD 变量', gitea: 'Gitea Secrets' }[platform];
+        const secret = await vscode.window.showInputBox({
+            prompt: kind === 'azure' ? `${store} 中 ${defaultName} 的 PAT 名称` : `${store} 中 ${defaultName} 的 API Key 名称`,
+            value: defaultSecret,
+            validateInput: (v) => /^[A-Z_][A-Z0-9_]*$/.test(v) ? null : '只能使用大写字母、数字和下划线'
+        });
+        if (!secret) return undefined;
+
+        let symbols = feed.symbols;
+        if (kind === 'custom') {
+            const choice = await vscode.window.showQuickPick([
+                { label: '支持', description: '推送 .nupkg 时一并推送 .snupkg', value: true },
+                { label: '不支持', description: '推送时加 --no-symbols', value: false }
+            ], { placeHolder: `${defaultName} 是否支持符号包 (.snupkg)？` });
+            if (!choice) return undefined;
+            symbols = choice.value;
+        }
+
+        return { ...feed, name: defaultName, url: url.trim(), secret, symbols };
+    }
+
+    private async getGitHubOwner(rootPath: string): Promise<string> {
+        const remoteUrl = await this.githubHelper.getRepoUrl(rootPath);
+        return remoteUrl ? this.githubHelper.parseGitHubUrl(remoteUrl)?.owner ?? '' : '';
+    }
+
+    /**
+     * 工作流写入后预览并写入 nuget.config 中新增的源，以及启用锁定文件对 Directory.Build.props 的修改
+     */
+    private async applyProjectEdits(rootPath: string, workspace: DotnetWorkspace, config: ReleaseConfig): Promise<void> {
+        const newFeeds = config.nugetFeeds.filter(f => f.addToNuGetConfig);
+        if (newFeeds.length > 0) {
+            const configFile = workspace.nugetConfig?.path ?? 'nuget.config';
+            const configPath = path.join(rootPath, configFile);
+            const content = newFeeds.reduce(
+                (current, feed) => addNuGetSource(current, feed),
+                fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : undefined
+            )!;
+
+            const names = newFeeds.map(f => f.name).join('、');
+            if (!await this.preview.confirmAndWrite(configPath, content)) {
+                vscode.window.showWarningMessage(`工作流只为 ${names} 更新凭据，需要在 ${configFile} 中声明这些源，否则 CI 中配置源的步骤会失败`);
+            } else if (content.includes('<packageSourceMapping>')) {
+                vscode.window.showWarningMessage(`${configFile} 启用了包源映射，需要为 ${names} 添加 packageSourceMapping 规则才会从这些源还原`);
             }
-        } catch {
-            // 忽略
         }
-        return ['8.0.x'];
+
+        this.buildAcceleration.applyLockFileEdit(rootPath, config.acceleration);
     }
 
+    private async selectTestGate(workspace: DotnetWorkspace): Promise<TestGateConfig | undefined> {
+        const testProjects = workspace.projects.filter(p => p.isTestProject);
+        if (testProjects.length === 0) {
+            return { projects: [], filter: '', coverageThreshold: 0 };
+        }
 
-    private async createReleaseYml(rootPath: string, config: ReleaseConfig): Promise<void> {
-        const githubDir = path.join(rootPath, '.github', 'workflows');
-        if (!fs.existsSync(githubDir)) {
-            fs.mkdirSync(githubDir, { recursive: true });
+        const selected = await vscode.window.showQuickPick(
+            testProjects.map(p => ({
+                label: `$(beaker) ${p.name}`,
+                description: p.path,
+                detail: p.hasCoverageCollector ? undefined : '未引用 coverlet.collector，不会收集覆盖率',
+                picked: true,
+                project: p
+            })),
+            { canPickMany: true, placeHolder: '发布前运行哪些测试项目？测试失败时不发布（全部取消则不运行测试）' }
+        );
+        if (!selected) return undefined;
+        if (selected.length === 0) {
+            return { projects: [], filter: '', coverageThreshold: 0 };
         }
 
-        let buildSteps = '';
+        const filter = await vscode.window.showInputBox({
+            prompt: 'dotnet test --filter 表达式，留空运行全部测试',
+            placeHolder: 'Category!=Integration',
+            validateInput: (v) => v.includes('"') ? '不能包含双引号' : null
+        });
+        if (filter === undefined) return undefined;
+
+        const threshold = await vscode.window.showInputBox({
+            prompt: '行覆盖率阈值（%），低于阈值时不发布；0 表示只在作业摘要中显示覆盖率',
+            value: '0',
+            validateInput: (v) => /^\d+(\.\d+)?$/.test(v.trim()) && Number(v) <= 100 ? null : '请输入 0～100 之间的数字'
+        });
+        if (threshold === undefined) return undefined;
+
+        const projects = selected.map(s => s.project);
+        const coverageThreshold = Number(threshold.trim());
+        const withoutCollector = projects.filter(p => !p.hasCoverageCollector);
+        if (coverageThreshold > 0 && withoutCollector.length > 0) {
+            vscode.window.showWarningMessage(`以下测试项目未引用 coverlet.collector，不计入覆盖率: ${withoutCollector.map(p => p.name).join(', ')}`);
+        }
 
-        // NuGet 步骤
-        if (config.releaseType === 'nuget' || config.releaseType === 'both') {
-            buildSteps += config.projects.map(proj => {
-                const projName = path.basename(proj, '.csproj');
-                return `
-      - name: Pack ${projName}
-        run: dotnet pack ${proj} -c Release -o ./nupkgs
+        return { projects, filter: filter.trim(), coverageThreshold };
+    }
 
-      - name: Push ${projName} to NuGet
-        if: \${{ !inputs.dry_run }}
-        run: dotnet nuget push ./nupkgs/${projName}.*.nupkg --api-key \${{ secrets.${config.nugetApiKeySecret} }} --source ${config.nugetSource} --skip-duplicate`;
-            }).join('\n');
+    private async selectSigning(hasNuget: boolean, hasZip: boolean): Promise<SigningConfig | undefined> {
+        const items: (vscode.QuickPickItem & { method: SignMethod })[] = [
+            { label: '不签名', method: 'none' }
+        ];
+        if (hasZip) {
+            items.push({
+                label: 'PFX 证书（GitHub Secrets）',
+                description: hasNuget ? 'signtool 签名程序文件 + dotnet nuget sign 签名包' : 'signtool 签名程序文件',
+                detail: '签名 Windows 程序文件需要在 windows-latest 上运行',
+                method: 'pfx'
+            });
+        }
+        if (hasNuget) {
+            items.push({ label: 'dotnet nuget sign', description: '只签名 NuGet 包（PFX 证书）', method: 'nuget' });
         }
+        items.push({
+            label: 'Azure Key Vault',
+            description: [hasZip && 'AzureSignTool', hasNuget && 'NuGetKeyVaultSignTool'].filter(Boolean).join(' + '),
+            detail: '证书保存在 Key Vault 中，私钥不离开云端',
+            method: 'azure'
+        });
 
-        // ZIP 步骤
-        if (config.releaseType === 'zip' || config.releaseType === 'both') {
-            for (const proj of config.projects) {
-                const projName = path.basename(proj, '.csproj');
-                for (const runtime of config.runtimes) {
-                    buildSteps += `
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: '是否对发布的程序文件 / NuGet 包进行代码签名？' });
+        if (!selected) return undefined;
+        if (selected.method === 'none') return { method: 'none', timestampUrl: '' };
 
-      - name: Publish ${projName} (${runtime})
-        run: dotnet publish ${proj} -c Release -r ${runtime} --self-contained -p:PublishSingleFile=true -o ./publish/${projName}-${runtime}
+        const timestampUrl = await vscode.window.showInputBox({
+            prompt: 'RFC 3161 时间戳服务器',
+            value: 'http://timestamp.digicert.com'
+        });
+        if (!timestampUrl) return undefined;
 
-      - name: Zip ${projName} (${runtime})
-        shell: pwsh
-        run: Compress-Archive -Path ./publish/${projName}-${runtime}/* -DestinationPath ./publish/${projName}-${runtime}.zip`;
-                }
-            }
+        return { method: selected.method, timestampUrl };
+    }
+
+    /**
+     * 通过 GitHub Secrets 创建流程配置签名所需的 Secrets
+     */
+    private async setupSigningSecrets(folder: vscode.WorkspaceFolder, method: SignMethod): Promise<void> {
+        if (method === 'azure') {
+            await this.githubHelper.setupWorkflowSecrets(folder, AZURE_KEY_VAULT_SECRETS);
+            return;
         }
 
-        // 收集产物
-        let releaseFiles = '';
-        if (config.releaseType === 'nuget' || config.releaseType === 'both') {
-            releaseFiles += './nupkgs/*.nupkg\n';
-        }
-        if (config.releaseType === 'zip' || config.releaseType === 'both') {
-            releaseFiles += '            ./publish/*.zip';
-        }
-
-        const ymlContent = `name: Release
-
-on:
-  push:
-    tags:
-      - 'v*'
-  workflow_dispatch:
-    inputs:
-      dry_run:
-        description: '测试模式（只构建不发布）'
-        type: boolean
-        default: false
-
-permissions:
-  contents: write
-
-jobs:
-  build-and-publish:
-    runs-on: ubuntu-latest
-    
-    steps:
-      - name: Checkout
-        uses: actions/checkout@v4
-
-      - name: Setup .NET
-        uses: actions/setup-dotnet@v4
-        with:
-          dotnet-version: |
-${config.dotnetVersions.map(v => `            ${v}`).join('\n')}
-
-      - name: Restore
-        run: dotnet restore
-
-      - name: Build
-        run: dotnet build -c Release --no-restore
-${buildSteps}
-
-      - name: Create GitHub Release
-        uses: softprops/action-gh-release@v1
-        if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
-        with:
-          files: |
-            ${releaseFiles.trim()}
-          generate_release_notes: true
-`;
-
-        const filePath = path.join(githubDir, 'release.yml');
-        fs.writeFileSync(filePath, ymlContent);
+        // PFX 证书以 Base64 文本保存到 Secret，帮用户转换后放到剪贴板
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'PFX 证书': ['pfx', 'p12'] },
+            openLabel: '选择签名证书'
+        });
+        if (files && files.length > 0) {
+            await vscode.env.clipboard.writeText(fs.readFileSync(files[0].fsPath).toString('base64'));
+            vscode.window.showInformationMessage('证书的 Base64 内容已复制到剪贴板，创建 SIGNING_CERTIFICATE 时直接粘贴');
+        }
+        await this.githubHelper.setupWorkflowSecrets(folder, PFX_SECRETS);
+    }
+
+    private async createReleaseYml(rootPath: string, config: ReleaseConfig): Promise<boolean> {
+        const toContext = (p: DotnetProject) => ({ path: p.path, name: p.name, packageId: p.packageId });
+        const { acceleration } = config;
+        const { method } = config.signing;
+        const signBinaries = config.zipProjects.length > 0 && (method === 'pfx' || method === 'azure');
+        const signPackages = config.nugetProjects.length > 0 && method !== 'none';
+
+        const template = this.templateManager.getTemplate(rootPath, 'dotnet-release');
+        const context = await this.templateManager.promptVariables(template, rootPath, {
+            dotnetVersions: config.dotnetVersions,
+            globalJsonFile: config.globalJsonFile ?? '',
+            buildTargets: config.buildTargets,
+            publishNuget: config.nugetProjects.length > 0,
+            publishZip: config.zipProjects.length > 0,
+            nugetProjects: config.nugetProjects.map(toContext),
+            zipProjects: config.zipProjects.map(p => ({ ...toContext(p), publishArgs: getPublishArgs(p, acceleration) })),
+            runtimes: config.runtimes,
+            zipTargets: this.getZipTargets(config).map(({ project, runtime }) => ({
+                name: project.name,
+                path: project.path,
+                runtime,
+                publishArgs: getPublishArgs(project, acceleration)
+            })),
+            runtimeMatrix: acceleration.runtimeMatrix,
+            nugetFeeds: config.nugetFeeds.map(f => ({
+                ...f,
+                // 已注册凭据的源按名称推送，其余直接使用地址
+                pushSource: f.authenticated ? f.name : f.url,
+                symbols: config.symbolPackages && f.symbols
+            })),
+            privateFeeds: config.nugetFeeds.filter(f => f.authenticated),
+            githubPackages: config.nugetFeeds.some(f => f.kind === 'github'),
+            symbolPackages: config.symbolPackages,
+            nugetCache: acceleration.nugetCache,
+            nugetCacheKeyFiles: acceleration.nugetCacheKeyFiles.map(f => `'${f}'`).join(', '),
+            npmCacheKeyFiles: acceleration.npmLockFiles.map(f => `'${f}'`).join(', '),
+            lockedMode: acceleration.lockedMode,
+            testProjects: config.tests.projects.map(p => ({ path: p.path, name: p.name, noBuild: this.isBuilt(config, p) })),
+            testFilter: config.tests.filter,
+            testNoBuild: config.tests.projects.every(p => this.isBuilt(config, p)),
+            coverageThreshold: config.tests.coverageThreshold,
+            // 兼容按旧变量编写的自定义模板
+            nugetApiKeySecret: config.nugetFeeds[0]?.secret ?? '',
+            nugetSource: config.nugetFeeds[0]?.url ?? NUGET_ORG_URL,
+            // 按运行时并行发布时，程序文件在 publish-zip 作业中签名
+            runner: signBinaries && !acceleration.runtimeMatrix ? 'windows-latest' : 'ubuntu-latest',
+            zipRunner: signBinaries ? 'windows-latest' : 'ubuntu-latest',
+            signMethod: config.signing.method,
+            signBinaries,
+            signPackages,
+            signCertificateFile: (signBinaries || signPackages) && config.signing.method !== 'azure',
+            timestampUrl: config.signing.timestampUrl
+        });
+        if (!context) return false;
+
+        const ymlContent = this.templateManager.render(template, context);
+
+        const filePath = await this.workflowWriter.write(rootPath, template.output, ymlContent);
+        if (!filePath) return false;
         
         vscode.window.showInformationMessage(`已生成 ${filePath}`);
         const doc = await vscode.workspace.openTextDocument(filePath);
         await vscode.window.showTextDocument(doc);
+        return true;
+    }
+
+    /**
+     * 测试项目列在构建的解决方案中时已一并构建，dotnet test 可以加 --no-build
+     */
+    private isBuilt(config: ReleaseConfig, project: DotnetProject): boolean {
+        return config.buildTargets.some(t => project.solutions.includes(t));
+    }
+
+    private getZipTargets(config: ReleaseConfig): { project: DotnetProject; runtime: string }[] {
+        return config.zipProjects.flatMap(project => config.runtimes.map(runtime => ({ project, runtime })));
     }
+
+    /**
+     * 构建 GitLab CI / Gitea Actions 使用的流水线：build 作业构建、测试并打包，publish-nuget 作业推送，release 作业创建 Release；
+     * 按运行时并行发布时 ZIP 由 publish-zip matrix 作业生成
+     */
+    private buildPipeline(config: ReleaseConfig): Pipeline {
+        const dotnet: PipelineTool = { kind: 'dotnet', versions: config.dotnetVersions, globalJsonFile: config.globalJsonFile };
+        const publishNuget = config.nugetProjects.length > 0;
+        const publishZip = config.zipProjects.length > 0;
+
+        const privateFeeds = config.nugetFeeds.filter(f => f.authenticated);
+        const configureFeeds: PipelineStep[] = privateFeeds.length === 0 ? [] : [{
+            kind: 'script',
+            name: 'Configure NuGet feeds',
+            run: privateFeeds.map(f => f.inNuGetConfig
+                ? `dotnet nuget update source ${f.name} --username ci --password "$${f.secret}" --store-password-in-clear-text`
+                : `dotnet nuget add source ${f.url} --name ${f.name} --username ci --password "$${f.secret}" --store-password-in-clear-text`
+            ).join('\n'),
+            secrets: [...new Set(privateFeeds.map(f => f.secret))]
+        }];
+
+        const { acceleration } = config;
+        const restore: PipelineStep = {
+            kind: 'script',
+            name: 'Restore',
+            run: config.buildTargets.map(t => `dotnet restore ${t}${acceleration.lockedMode ? ' --locked-mode' : ''}`).join('\n')
+        };
+        const { tests } = config;
+        const filterArg = tests.filter ? ` --filter "${tests.filter}"` : '';
+        const testSteps: PipelineStep[] = tests.projects.length === 0 ? [] : [{
+            kind: 'script',
+            name: 'Test',
+            run: tests.projects.map(p =>
+                `dotnet test ${p.path} -c Release${this.isBuilt(config, p) ? ' --no-build' : ''}${filterArg} --logger "trx;LogFilePrefix=${p.name}" --collect:"XPlat Code Coverage" --results-directory ./TestResults`
+            ).join('\n')
+        }];
+        if (tests.projects.length > 0 && tests.coverageThreshold > 0) {
+            testSteps.push({
+                kind: 'script',
+                name: 'Check coverage threshold',
+                run: [
+                    'dotnet tool install --global dotnet-reportgenerator-globaltool',
+                    'export PATH="$PATH:$HOME/.dotnet/tools"',
+                    `reportgenerator '-reports:TestResults/**/coverage.cobertura.xml' -targetdir:coverage '-reporttypes:TextSummary;Cobertura'`,
+                    'cat coverage/Summary.txt',
+                    `rate=$(grep -o 'line-rate="[0-9.]*"' coverage/Cobertura.xml | head -n 1 | cut -d '"' -f 2)`,
+                    `awk -v rate="$rate" -v min=${tests.coverageThreshold} 'BEGIN { if (rate * 100 < min) { printf "行覆盖率 %.2f%% 低于阈值 %s%%\\n", rate * 100, min; exit 1 } }'`
+                ].join('\n')
+            });
+        }
+
+        const packArgs = config.symbolPackages ? ' -p:IncludeSymbols=true -p:SymbolPackageFormat=snupkg' : '';
+        const zipTargets = acceleration.runtimeMatrix ? [] : this.getZipTargets(config).map(t => ({ ...t, dir: `${t.project.name}-${t.runtime}` }));
+        const build: PipelineJob = {
+            id: 'build',
+            name: 'Build',
+            stage: 'build',
+            when: 'always',
+            needs: [],
+            tools: [dotnet],
+            steps: [
+                ...configureFeeds,
+                restore,
+                { kind: 'script', name: 'Build', run: config.buildTargets.map(t => `dotnet build ${t} -c Release --no-restore`).join('\n') },
+                ...testSteps,
+                ...config.nugetProjects.map((p): PipelineStep => ({
+                    kind: 'script',
+                    name: `Pack ${p.name}`,
+                    run: `dotnet pack ${p.path} -c Release -o ./nupkgs${packArgs}`
+                })),
+                ...zipTargets.map(({ project, runtime, dir }): PipelineStep => ({
+                    kind: 'script',
+                    name: `Publish ${project.name} (${runtime})`,
+                    run: `dotnet publish ${project.path} -c Release -r ${runtime} --self-contained -p:PublishSingleFile=true${withArgs(getPublishArgs(project, acceleration))} -o ./publish/${dir}`
+                })),
+                ...(zipTargets.length > 0 ? [{
+                    kind: 'script',
+                    name: 'Zip',
+                    shell: 'pwsh',
+                    run: zipTargets.map(({ dir }) => `Compress-Archive -Path ./publish/${dir}/* -DestinationPath ./publish/${dir}.zip`).join('\n')
+                } as PipelineStep] : [])
+            ],
+            artifacts: [...(publishNuget ? ['nupkgs/'] : []), ...(zipTargets.length > 0 ? ['publish/*.zip'] : [])],
+            outputs: []
+        };
+
+        // 每个 ZIP 目标一个 matrix 作业，项目和运行时以环境变量提供
+        const hasPublishArgs = config.zipProjects.some(p => getPublishArgs(p, acceleration));
+        const publishZipJob: PipelineJob = {
+            id: 'publish-zip',
+            name: 'Publish ZIP',
+            stage: 'build',
+            when: 'always',
+            needs: [],
+            tools: [dotnet],
+            matrix: this.getZipTargets(config).map(({ project, runtime }) => ({
+                PROJECT_NAME: project.name,
+                PROJECT: project.path,
+                RUNTIME: runtime,
+                ...(hasPublishArgs ? { PUBLISH_ARGS: getPublishArgs(project, acceleration) } : {})
+            })),
+            steps: [
+                ...configureFeeds,
+                {
+                    kind: 'script',
+                    name: 'Publish',
+                    run: 'dotnet publish "$PROJECT" -c Release -r "$RUNTIME" --self-contained -p:PublishSingleFile=true $PUBLISH_ARGS -o "./publish/$PROJECT_NAME-$RUNTIME"'
+                },
+                {
+                    kind: 'script',
+                    name: 'Zip',
+                    shell: 'pwsh',
+                    run: 'Compress-Archive -Path "./publish/$env:PROJECT_NAME-$env:RUNTIME/*" -DestinationPath "./publish/$env:PROJECT_NAME-$env:RUNTIME.zip"'
+                }
+            ],
+            artifacts: ['publish/*.zip'],
+            outputs: []
+        };
+        const zipJobs = acceleration.runtimeMatrix && publishZip ? [publishZipJob] : [];
+
+        const publish: PipelineJob = {
+            id: 'publish-nuget',
+            name: 'Publish NuGet packages',
+            stage: 'publish',
+            when: 'publish',
+            needs: ['build'],
+            tools: [dotnet],
+            steps: [
+                ...configureFeeds,
+                ...config.nugetFeeds.map((f): PipelineStep => ({
+                    kind: 'script',
+                    name: `Push to ${f.name}`,
+                    // 已注册凭据的源按名称推送，Azure Artifacts 使用源凭据，API Key 可为任意值
+                    run: config.nugetProjects.map(p =>
+                        `dotnet nuget push ./nupkgs/${p.packageId}.*.nupkg --source ${f.authenticated ? f.name : f.url} --api-key ${f.kind === 'azure' ? 'az' : `"$${f.secret}"`} --skip-duplicate${config.symbolPackages && !f.symbols ? ' --no-symbols' : ''}`
+                    ).join('\n'),
+                    secrets: f.kind === 'azure' ? [] : [f.secret]
+                }))
+            ],
+            artifacts: [],
+            outputs: []
+        };
+
+        return {
+            name: 'Release',
+            tagPrefix: 'v',
+            inputs: [{ name: 'DRY_RUN', description: '测试模式（只构建不发布）', default: false }],
+            jobs: [build, ...zipJobs, ...(publishNuget ? [publish] : [])],
+            release: {
+                needs: ['build', ...zipJobs.map(job => job.id)],
+                assets: [
+                    ...(publishNuget ? ['nupkgs/*.nupkg'] : []),
+                    ...(config.symbolPackages ? ['nupkgs/*.snupkg'] : []),
+                    ...(publishZip ? ['publish/*.zip'] : [])
+                ]
+            }
+        };
+    }
+}
+
+/**
+ * 在 nuget.config 的 packageSources 中添加源，content 为 undefined 时新建文件内容
+ */
+function addNuGetSource(content: string | undefined, feed: NuGetFeed): string {
+    const entry = `<add key="${escapeXml(feed.name)}" value="${escapeXml(feed.url)}" />`;
+
+    if (content === undefined) {
+        return [
+            '<?xml version="1.0" encoding="utf-8"?>',
+            '<configuration>',
+            '  <packageSources>',
+            `    <add key="nuget.org" value="${NUGET_ORG_URL}" protocolVersion="3" />`,
+            `    ${entry}`,
+            '  </packageSources>',
+            '</configuration>',
+            ''
+        ].join('\n');
+    }
+
+    const closing = content.match(/^([ \t]*)<\/packageSources>/m);
+    if (closing) {
+        return content.replace(closing[0], () => `${closing[1]}  ${entry}\n${closing[0]}`);
+    }
+    return content.replace('</configuration>', () => `  <packageSources>\n    ${entry}\n  </packageSources>\n</configuration>`);
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function withArgs(args: string): string {
+    return args ? ` ${args}` : '';
 }
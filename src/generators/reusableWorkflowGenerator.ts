@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { parse as parseYaml } from 'yaml';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { GitHubHelper } from '../git/githubHelper';
+import { WorkflowWriter } from './workflowWriter';
+import {
+    readWorkflowInterface, toReusableWorkflow, toCompositeAction, buildReusableCaller, buildCompositeCaller,
+    WorkflowInterface, CompositeAction
+} from '../workflow/reusableWorkflow';
+
+const execAsync = promisify(exec);
+
+type OutputMode = 'reusable' | 'composite';
+
+interface CallerOutput {
+    /** 调用方 uses 中的路径（不含 owner/repo 和 @ref） */
+    usesPath: string;
+    mode: OutputMode;
+    action?: CompositeAction;
+    jobId?: string;
+}
+
+/**
+ * 把公共仓库中的工作流转换为可复用工作流 / 组合操作，并为各使用方仓库生成只剩一个 uses 的调用方工作流
+ */
+export class ReusableWorkflowGenerator {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+    private githubHelper = new GitHubHelper();
+
+    async generate(): Promise<void> {
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: true,
+            placeHolder: '选择存放公共构建定义的仓库'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const workflowsDir = path.join(rootPath, '.github', 'workflows');
+        const files = fs.existsSync(workflowsDir) ? fs.readdirSync(workflowsDir).filter(f => /\.ya?ml$/.test(f)).sort() : [];
+        if (files.length === 0) {
+            vscode.window.showWarningMessage('该仓库的 .github/workflows 下没有工作流，请先生成构建或发布工作流');
+            return;
+        }
+
+        const sources = files.map(file => {
+            const text = fs.readFileSync(path.join(workflowsDir, file), 'utf-8');
+            try {
+                const iface = readWorkflowInterface(text, path.basename(file, path.extname(file)));
+                return { label: file, description: iface.isReusable ? `${iface.name} · 可复用工作流` : iface.name, file, text, iface };
+            } catch (error: unknown) {
+                return { label: file, description: (error as Error).message, file, text, iface: undefined };
+            }
+        });
+        const source = await vscode.window.showQuickPick(sources, { placeHolder: '选择要共享的工作流（已是可复用工作流时只生成调用方）' });
+        if (!source) return;
+        if (!source.iface) {
+            vscode.window.showErrorMessage(`无法读取 ${source.file}: ${source.description}`);
+            return;
+        }
+
+        const iface = source.iface;
+        const baseName = path.basename(source.file, path.extname(source.file));
+
+        let mode: OutputMode = 'reusable';
+        if (!iface.isReusable) {
+            const choice = await vscode.window.showQuickPick([
+                {
+                    label: '$(references) 可复用工作流 (workflow_call)',
+                    description: '.github/workflows',
+                    detail: '调用方在 jobs.<id>.uses 中引用，输入带类型，Secret 由调用方传入',
+                    value: 'reusable' as OutputMode
+                },
+                {
+                    label: '$(symbol-method) 组合操作 (composite action)',
+                    description: '.github/actions',
+                    detail: '把一个作业的步骤打包为操作，调用方保留 runs-on / strategy，Secret 和 matrix 变量改为输入',
+                    value: 'composite' as OutputMode
+                }
+            ], { placeHolder: `将 ${source.file} 转换为` });
+            if (!choice) return;
+            mode = choice.value;
+        }
+
+        const output = mode === 'reusable'
+            ? await this.createReusableWorkflow(rootPath, source.file, source.text, iface)
+            : await this.createCompositeAction(rootPath, baseName, source.text, iface);
+        if (!output) return;
+
+        await this.createCallers(workspaceFolder, iface, baseName, output);
+    }
+
+    private async createReusableWorkflow(rootPath: string, file: string, text: string, iface: WorkflowInterface): Promise<CallerOutput | undefined> {
+        if (iface.isReusable) {
+            return { usesPath: `.github/workflows/${file}`, mode: 'reusable' };
+        }
+
+        const fileName = await vscode.window.showInputBox({
+            prompt: '可复用工作流的文件名（原工作流保持不变）',
+            value: `reusable-${file}`,
+            validateInput: (v) => /^[\w.-]+\.ya?ml$/.test(v.trim()) ? null : '文件名必须以 .yml 或 .yaml 结尾'
+        });
+        if (!fileName) return undefined;
+
+        let content: string;
+        try {
+            content = toReusableWorkflow(text, iface);
+        } catch (error: unknown) {
+            vscode.window.showErrorMessage(`转换失败: ${(error as Error).message}`);
+            return undefined;
+        }
+
+        const filePath = await this.workflowWriter.write(rootPath, fileName.trim(), content);
+        if (!filePath) return undefined;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(filePath));
+        return { usesPath: `.github/workflows/${path.basename(filePath)}`, mode: 'reusable' };
+    }
+
+    private async createCompositeAction(rootPath: string, baseName: string, text: string, iface: WorkflowInterface): Promise<CallerOutput | undefined> {
+        const workflow = parseYaml(text);
+        const jobIds = Object.entries(workflow?.jobs ?? {})
+            .filter(([, job]) => Array.isArray((job as { steps?: unknown }).steps))
+            .map(([id]) => id);
+        if (jobIds.length === 0) {
+            vscode.window.showWarningMessage('工作流中没有包含 steps 的作业');
+            return undefined;
+        }
+
+        const jobId = jobIds.length === 1 ? jobIds[0] : await vscode.window.showQuickPick(jobIds, {
+            placeHolder: '选择要转换的作业（调用方只保留这个作业）'
+        });
+        if (!jobId) return undefined;
+
+        const actionName = await vscode.window.showInputBox({
+            prompt: '操作名称（写入 .github/actions/<名称>/action.yml）',
+            value: baseName,
+            validateInput: (v) => /^[\w.-]+$/.test(v.trim()) ? null : '只能包含字母、数字、点、下划线和连字符'
+        });
+        if (!actionName) return undefined;
+
+        let action: CompositeAction;
+        try {
+            action = toCompositeAction(text, jobId, iface, `由 ${baseName} 工作流的 ${jobId} 作业转换`);
+        } catch (error: unknown) {
+            vscode.window.showErrorMessage(`转换失败: ${(error as Error).message}`);
+            return undefined;
+        }
+
+        const filePath = await this.workflowWriter.writeAction(rootPath, actionName.trim(), action.content);
+        if (!filePath) return undefined;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(filePath));
+        if (action.warnings.length > 0) {
+            vscode.window.showWarningMessage(`转换时有 ${action.warnings.length} 处需要注意:\n${action.warnings.join('\n')}`, { modal: true });
+        }
+        return { usesPath: `.github/actions/${actionName.trim()}`, mode: 'composite', action, jobId };
+    }
+
+    private async createCallers(sourceFolder: vscode.WorkspaceFolder, iface: WorkflowInterface, baseName: string, output: CallerOutput): Promise<void> {
+        const repo = await this.getRepoSlug(sourceFolder);
+        if (!repo) return;
+
+        const ref = await vscode.window.showInputBox({
+            prompt: '调用方引用的版本（Tag、分支或提交 SHA）',
+            value: await this.getLatestTag(sourceFolder.uri.fsPath) ?? 'main'
+        });
+        if (!ref) return;
+
+        const uses = `${repo}/${output.usesPath}@${ref.trim()}`;
+        const jobId = output.jobId ?? baseName.replace(/[^\w-]/g, '-');
+        const content = output.mode === 'composite'
+            ? buildCompositeCaller(iface, jobId, uses, output.action!)
+            : buildReusableCaller(iface, jobId, uses);
+
+        const otherFolders = this.workspaceManager.getWorkspaceFolders().filter(f => f.uri.fsPath !== sourceFolder.uri.fsPath);
+        const targets = await vscode.window.showQuickPick([
+            ...otherFolders.map(folder => ({ label: `$(repo) ${folder.name}`, description: `.github/workflows/${baseName}.yml`, folder })),
+            { label: '$(clippy) 复制到剪贴板', description: '在其他仓库中手动粘贴', folder: undefined }
+        ], { canPickMany: true, placeHolder: `生成调用 ${uses} 的工作流` });
+        if (!targets || targets.length === 0) return;
+
+        for (const target of targets) {
+            if (!target.folder) {
+                await vscode.env.clipboard.writeText(content);
+                vscode.window.showInformationMessage('调用方工作流已复制到剪贴板');
+                continue;
+            }
+
+            const filePath = await this.workflowWriter.write(target.folder.uri.fsPath, `${baseName}.yml`, content);
+            if (filePath) {
+                vscode.window.showInformationMessage(`已生成 ${filePath}`);
+            }
+        }
+
+        const secretHint = iface.secrets.length > 0 ? `，并在使用方仓库配置 Secret: ${iface.secrets.join(', ')}` : '';
+        vscode.window.showInformationMessage(`私有仓库中的${output.mode === 'composite' ? '操作' : '可复用工作流'}需要在 ${repo} 的 Settings → Actions → Access 中允许其他仓库访问${secretHint}`);
+    }
+
+    private async getRepoSlug(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+        // 没有远程仓库时手动输入
+        const remoteUrl = await this.githubHelper.getRepoUrl(folder.uri.fsPath);
+        const parsed = remoteUrl ? this.githubHelper.parseGitHubUrl(remoteUrl) : null;
+        const value = parsed ? `${parsed.owner}/${parsed.repo}` : '';
+
+        const slug = await vscode.window.showInputBox({
+            prompt: '公共仓库（owner/repo）',
+            value,
+            validateInput: (v) => /^[\w.-]+\/[\w.-]+$/.test(v.trim()) ? null : '格式为 owner/repo'
+        });
+        return slug?.trim();
+    }
+
+    private async getLatestTag(rootPath: string): Promise<string | undefined> {
+        try {
+            const { stdout } = await execAsync('git describe --tags --abbrev=0', { cwd: rootPath });
+            return stdout.trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
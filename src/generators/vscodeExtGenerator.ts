@@ -2,9 +2,63 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { WorkspaceManager } from '../git/workspaceManager';
+import { GitHubHelper } from '../git/githubHelper';
+import { WorkflowWriter } from './workflowWriter';
+import { PipelineWriter } from './pipelineWriter';
+import { TemplateManager } from '../templates/templateManager';
+import { ExtensionManifestAudit } from './extensionManifestAudit';
+import { Pipeline, PipelineJob, PipelineStep } from '../pipeline/pipelineModel';
+
+/**
+ * 预发布通道判断方式
+ * - none：始终发布正式版
+ * - suffix：Tag 带预发布后缀（v1.2.0-beta.1）
+ * - oddMinor：次版本号为奇数（1.3.x 预发布，1.4.x 正式版），VS Code 官方推荐的做法
+ */
+type PrereleasePolicy = 'none' | 'suffix' | 'oddMinor';
+
+interface VsixTarget {
+    /** vsce package --target 的值 */
+    target: string;
+    os: string;
+    /** 原生依赖的目标架构（npm_config_arch） */
+    arch: string;
+}
+
+interface ExtensionReleaseConfig {
+    publishToMarketplace: boolean;
+    publishToOpenVsx: boolean;
+    createVsix: boolean;
+    prereleasePolicy: PrereleasePolicy;
+    targets: VsixTarget[];
+}
+
+/** 原生依赖需要在对应系统上安装，macOS x64 使用 Intel Runner */
+const VSIX_TARGETS: VsixTarget[] = [
+    { target: 'win32-x64', os: 'windows-latest', arch: 'x64' },
+    { target: 'win32-arm64', os: 'windows-latest', arch: 'arm64' },
+    { target: 'linux-x64', os: 'ubuntu-latest', arch: 'x64' },
+    { target: 'linux-arm64', os: 'ubuntu-latest', arch: 'arm64' },
+    { target: 'linux-armhf', os: 'ubuntu-latest', arch: 'arm' },
+    { target: 'alpine-x64', os: 'ubuntu-latest', arch: 'x64' },
+    { target: 'alpine-arm64', os: 'ubuntu-latest', arch: 'arm64' },
+    { target: 'darwin-x64', os: 'macos-15-intel', arch: 'x64' },
+    { target: 'darwin-arm64', os: 'macos-latest', arch: 'arm64' },
+    { target: 'web', os: 'ubuntu-latest', arch: 'x64' }
+];
+
+const TOKEN_DOCS: Record<string, string> = {
+    VSCE_PAT: 'https://code.visualstudio.com/api/working-with-extensions/publishing-extension#get-a-personal-access-token',
+    OVSX_PAT: 'https://github.com/eclipse/openvsx/wiki/Publishing-Extensions'
+};
 
 export class VSCodeExtGenerator {
     private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+    private pipelineWriter = new PipelineWriter();
+    private templateManager = new TemplateManager();
+    private githubHelper = new GitHubHelper();
+    private manifestAudit = new ExtensionManifestAudit();
 
     async generate(): Promise<void> {
         // 选择工作区
@@ -27,128 +81,221 @@ export class VSCodeExtGenerator {
             return;
         }
 
-        // 选择发布方式
-        const publishChoice = await vscode.window.showQuickPick([
-            { label: '发布到 VS Code Marketplace', description: '需要 Personal Access Token', value: 'marketplace' },
-            { label: '仅打包 .vsix 文件', description: '生成安装包但不发布', value: 'package' },
-            { label: '两者都要', description: '打包并发布', value: 'both' }
-        ], { placeHolder: '选择发布方式' });
+        // 检查 publisher、main、.vscodeignore 等，避免在 CI 中才发现打包失败
+        if (!await this.manifestAudit.run(workspaceFolder.uri.fsPath)) return;
 
-        if (!publishChoice) return;
+        const platform = await this.pipelineWriter.selectPlatform(workspaceFolder.uri.fsPath);
+        if (!platform) return;
 
-        const publishToMarketplace = publishChoice.value === 'marketplace' || publishChoice.value === 'both';
-        const createVsix = publishChoice.value === 'package' || publishChoice.value === 'both';
+        // 选择发布目标
+        const targets = await vscode.window.showQuickPick([
+            { label: 'VS Code Marketplace', description: '需要 VSCE_PAT Secret', picked: true, value: 'marketplace' },
+            { label: 'Open VSX', description: 'VSCodium、Gitpod 等使用，需要 OVSX_PAT Secret', value: 'openvsx' },
+            { label: '上传 .vsix 文件', description: '作为 Release 附件', picked: true, value: 'vsix' }
+        ], { canPickMany: true, placeHolder: '选择发布目标（Tag 说明中写 [skip marketplace] / [skip openvsx] 可让单个 Tag 跳过对应市场）' });
 
-        await this.createWorkflow(workspaceFolder.uri.fsPath, {
-            publishToMarketplace,
-            createVsix
-        });
-    }
+        if (!targets || targets.length === 0) return;
 
-    private async createWorkflow(rootPath: string, config: {
-        publishToMarketplace: boolean;
-        createVsix: boolean;
-    }): Promise<void> {
-        const githubDir = path.join(rootPath, '.github', 'workflows');
-        if (!fs.existsSync(githubDir)) {
-            fs.mkdirSync(githubDir, { recursive: true });
-        }
+        // 含原生依赖的扩展需要按平台分别打包
+        const targetChoices = await vscode.window.showQuickPick(
+            VSIX_TARGETS.map(t => ({ label: t.target, description: t.os, target: t })),
+            { canPickMany: true, placeHolder: '选择平台专用包的目标平台（vsce package --target），不选则打包通用 .vsix' }
+        );
+        if (!targetChoices) return;
 
-        let publishSteps = '';
+        const prerelease = await vscode.window.showQuickPick([
+            { label: '不使用预发布通道', value: 'none' as PrereleasePolicy },
+            { label: '按 Tag 后缀', description: 'v1.2.0-beta.1 等带后缀的 Tag 发布为预发布版本', value: 'suffix' as PrereleasePolicy },
+            { label: '按次版本号奇偶', description: '奇数次版本（1.3.x）为预发布，偶数（1.4.x）为正式版', value: 'oddMinor' as PrereleasePolicy }
+        ], { placeHolder: '预发布通道（vsce package --pre-release）' });
 
-        if (config.createVsix) {
-            publishSteps += `
-      - name: Package Extension
-        run: npx vsce package
+        if (!prerelease) return;
 
-      - name: Upload VSIX artifact
-        uses: actions/upload-artifact@v4
-        with:
-          name: vsix-package
-          path: "*.vsix"
-`;
-        }
+        const config: ExtensionReleaseConfig = {
+            publishToMarketplace: targets.some(t => t.value === 'marketplace'),
+            publishToOpenVsx: targets.some(t => t.value === 'openvsx'),
+            createVsix: targets.some(t => t.value === 'vsix'),
+            prereleasePolicy: prerelease.value,
+            targets: targetChoices.map(t => t.target)
+        };
 
-        if (config.publishToMarketplace) {
-            publishSteps += `
-      - name: Publish to VS Code Marketplace
-        if: startsWith(github.ref, 'refs/tags/')
-        run: npx vsce publish -p \${{ secrets.VSCE_PAT }}
-`;
+        if (platform === 'github') {
+            if (!await this.createWorkflow(workspaceFolder.uri.fsPath, config)) return;
+        } else {
+            // GitLab / Gitea 流水线只使用 Linux Runner
+            const nonLinux = config.targets.filter(t => !t.os.startsWith('ubuntu')).map(t => t.target);
+            if (nonLinux.length > 0) {
+                vscode.window.showWarningMessage(`${nonLinux.join('、')} 将在 Linux Runner 上打包，含原生依赖时需要为对应系统配置 Runner`);
+            }
+            if (!await this.pipelineWriter.write(workspaceFolder.uri.fsPath, platform, this.buildPipeline(config))) return;
         }
 
-        // 只有发布到 Marketplace 时才需要 dry-run 选项
-        const workflowDispatch = config.publishToMarketplace 
-            ? `  workflow_dispatch:
-    inputs:
-      dry_run:
-        description: '测试模式（只构建不发布）'
-        type: boolean
-        default: false`
-            : `  workflow_dispatch:`;
-
-        const releaseCondition = config.publishToMarketplace
-            ? `if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run`
-            : `if: startsWith(github.ref, 'refs/tags/')`;
-
-        const ymlContent = `name: Release VS Code Extension
-
-on:
-  push:
-    tags:
-      - 'v*'
-${workflowDispatch}
-
-permissions:
-  contents: write
-
-jobs:
-  build-and-publish:
-    runs-on: ubuntu-latest
-    
-    steps:
-      - name: Checkout
-        uses: actions/checkout@v4
-
-      - name: Setup Node.js
-        uses: actions/setup-node@v4
-        with:
-          node-version: '20'
-          cache: 'npm'
-
-      - name: Install dependencies
-        run: npm ci
-
-      - name: Compile
-        run: npm run compile
-${publishSteps}
-      - name: Create GitHub Release
-        uses: softprops/action-gh-release@v1
-        ${releaseCondition}
-        with:
-          files: "*.vsix"
-          generate_release_notes: true
-`;
-
-        const filePath = path.join(githubDir, 'release.yml');
-        fs.writeFileSync(filePath, ymlContent);
-
-        vscode.window.showInformationMessage(`✅ 已生成 VS Code 扩展发布工作流`);
-
-        // 提示配置 VSCE_PAT
-        if (config.publishToMarketplace) {
+        // 配置发布 Token
+        const secrets = [
+            ...(config.publishToMarketplace ? ['VSCE_PAT'] : []),
+            ...(config.publishToOpenVsx ? ['OVSX_PAT'] : [])
+        ];
+        if (secrets.length > 0) {
             const action = await vscode.window.showInformationMessage(
-                '发布到 Marketplace 需要配置 VSCE_PAT Secret',
+                `发布到扩展市场需要配置 ${secrets.join('、')} Secret`,
                 '查看如何获取 Token',
-                '稍后配置'
+                '继续'
             );
-
             if (action === '查看如何获取 Token') {
-                vscode.env.openExternal(vscode.Uri.parse('https://code.visualstudio.com/api/working-with-extensions/publishing-extension#get-a-personal-access-token'));
+                secrets.forEach(name => vscode.env.openExternal(vscode.Uri.parse(TOKEN_DOCS[name])));
+            }
+            if (platform === 'github') {
+                await this.githubHelper.setupWorkflowSecrets(workspaceFolder, secrets);
             }
         }
+    }
+
+    private async createWorkflow(rootPath: string, config: ExtensionReleaseConfig): Promise<boolean> {
+        const template = this.templateManager.getTemplate(rootPath, 'vscode-extension');
+        const context = await this.templateManager.promptVariables(template, rootPath, { ...config });
+        if (!context) return false;
+
+        const ymlContent = this.templateManager.render(template, context);
+
+        const filePath = await this.workflowWriter.write(rootPath, template.output, ymlContent);
+        if (!filePath) return false;
+
+        vscode.window.showInformationMessage(`✅ 已生成 VS Code 扩展发布工作流`);
 
         const doc = await vscode.workspace.openTextDocument(filePath);
         await vscode.window.showTextDocument(doc);
+        return true;
+    }
+
+    /**
+     * 构建 GitLab CI / Gitea Actions 使用的流水线，作业划分与 GitHub 工作流相同：channel → package → publish / release
+     */
+    private buildPipeline(config: ExtensionReleaseConfig): Pipeline {
+        const publishToMarket = config.publishToMarketplace || config.publishToOpenVsx;
+        const hasTargets = config.targets.length > 0;
+
+        // 渲染后可能运行在 alpine 镜像的 sh 中，只使用 POSIX 语法
+        const channelScript = ['version="${RELEASE_TAG#v}"', 'prerelease=false'];
+        if (config.prereleasePolicy === 'suffix') {
+            channelScript.push(
+                '# Tag 带预发布后缀（如 v1.2.0-beta.1）时发布到预发布通道',
+                'case "$version" in *-*) prerelease=true ;; esac'
+            );
+        }
+        if (config.prereleasePolicy === 'oddMinor') {
+            channelScript.push(
+                '# 次版本号为奇数（如 1.3.x）时发布到预发布通道',
+                'minor=$(echo "$version" | cut -d. -f2)',
+                'case "$minor" in',
+                "  ''|*[!0-9]*) ;;",
+                '  *) if [ $((minor % 2)) -eq 1 ]; then prerelease=true; fi ;;',
+                'esac'
+            );
+        }
+        channelScript.push('echo "PRERELEASE=$prerelease" >> "$PIPELINE_OUTPUT"');
+        if (publishToMarket) {
+            channelScript.push('', '# 发布目标：手动运行时由输入决定，Tag 说明中写 [skip marketplace] / [skip openvsx] 可跳过对应市场');
+            for (const [enabled, input, marker] of [
+                [config.publishToMarketplace, 'MARKETPLACE', 'marketplace'],
+                [config.publishToOpenVsx, 'OPENVSX', 'openvsx']
+            ] as const) {
+                if (!enabled) continue;
+                channelScript.push(
+                    `${marker}="$${input}"`,
+                    `if grep -qi '\\[skip ${marker}\\]' RELEASE_NOTES.md; then ${marker}=false; fi`,
+                    `echo "PUBLISH_${input}=$${marker}" >> "$PIPELINE_OUTPUT"`
+                );
+            }
+        }
+
+        const channel: PipelineJob = {
+            id: 'channel',
+            name: 'Release channel',
+            stage: 'build',
+            when: 'always',
+            needs: [],
+            tools: [],
+            steps: [
+                { kind: 'release-notes' },
+                { kind: 'script', name: 'Determine release channel', run: channelScript.join('\n'), writesOutputs: true }
+            ],
+            artifacts: [],
+            outputs: [
+                'PRERELEASE',
+                ...(config.publishToMarketplace ? ['PUBLISH_MARKETPLACE'] : []),
+                ...(config.publishToOpenVsx ? ['PUBLISH_OPENVSX'] : [])
+            ]
+        };
+
+        const node = { kind: 'node' as const, version: '20' };
+        const packageJob: PipelineJob = {
+            id: 'package',
+            name: 'Package',
+            stage: 'build',
+            when: 'always',
+            needs: ['channel'],
+            tools: [node],
+            matrix: hasTargets ? config.targets.map(t => ({ TARGET: t.target, ARCH: t.arch })) : undefined,
+            steps: [
+                // 原生依赖按目标架构下载预编译文件
+                { kind: 'script', name: 'Install dependencies', run: hasTargets ? 'npm_config_arch="$ARCH" npm ci' : 'npm ci' },
+                { kind: 'script', name: 'Compile', run: 'npm run compile' },
+                {
+                    kind: 'script',
+                    name: 'Package Extension',
+                    run: `npx @vscode/vsce package${hasTargets ? ' --target "$TARGET"' : ''} $([ "$PRERELEASE" = "true" ] && echo --pre-release)`
+                }
+            ],
+            artifacts: ['*.vsix'],
+            outputs: []
+        };
+
+        const publishSteps: PipelineStep[] = [];
+        if (config.publishToMarketplace) {
+            publishSteps.push({
+                kind: 'script',
+                name: 'Publish to VS Code Marketplace',
+                run: 'if [ "$PUBLISH_MARKETPLACE" = "true" ]; then\n  npx @vscode/vsce publish --packagePath *.vsix -p "$VSCE_PAT"\nfi',
+                secrets: ['VSCE_PAT']
+            });
+        }
+        if (config.publishToOpenVsx) {
+            publishSteps.push({
+                kind: 'script',
+                name: 'Publish to Open VSX',
+                run: 'if [ "$PUBLISH_OPENVSX" = "true" ]; then\n  for vsix in *.vsix; do\n    npx ovsx publish "$vsix" -p "$OVSX_PAT"\n  done\nfi',
+                secrets: ['OVSX_PAT']
+            });
+        }
+
+        const publish: PipelineJob = {
+            id: 'publish',
+            name: 'Publish',
+            stage: 'publish',
+            when: 'release',
+            needs: ['channel', 'package'],
+            tools: [node],
+            steps: publishSteps,
+            artifacts: [],
+            outputs: []
+        };
+
+        return {
+            name: 'Release VS Code Extension',
+            tagPrefix: 'v',
+            inputs: publishToMarket
+                ? [
+                    { name: 'DRY_RUN', description: '测试模式（只构建不发布）', default: false },
+                    ...(config.publishToMarketplace ? [{ name: 'MARKETPLACE', description: '发布到 VS Code Marketplace', default: true }] : []),
+                    ...(config.publishToOpenVsx ? [{ name: 'OPENVSX', description: '发布到 Open VSX', default: true }] : [])
+                ]
+                : [],
+            jobs: publishToMarket ? [channel, packageJob, publish] : [channel, packageJob],
+            release: {
+                needs: ['channel', 'package'],
+                assets: config.createVsix ? ['*.vsix'] : [],
+                prereleaseOutput: 'PRERELEASE'
+            }
+        };
     }
 }
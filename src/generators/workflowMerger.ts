@@ -0,0 +1,270 @@
+import { parseDocument, isMap, isScalar, isSeq, Pair, YAMLMap, YAMLSeq } from 'yaml';
+
+export interface MergeResult {
+    /** 合并后的文件内容 */
+    content: string;
+    /** 被保留下来的手动添加内容 */
+    preserved: string[];
+    /** 上次生成、本次不再生成而被移除的内容 */
+    removed: string[];
+    /** 无法自动合并的冲突，不为空时 content 不可用 */
+    conflicts: string[];
+}
+
+/** 顶层按键合并的字段，其余生成器字段直接覆盖 */
+const MERGED_TOP_LEVEL_KEYS = ['on', 'permissions', 'env'];
+
+/** job 内按键合并的字段 */
+const MERGED_JOB_KEYS = ['permissions', 'env', 'outputs'];
+
+/** 判断步骤重叠时忽略的通用步骤 */
+const COMMON_STEP_NAMES = ['Checkout'];
+
+/** 文件末尾记录生成器拥有内容的注释行 */
+const MANIFEST_PREFIX = '# lyugitex-generated: ';
+const MANIFEST_LINE = /\n*^# lyugitex-generated: .*$\n?/m;
+
+/**
+ * 上次生成的 job 及其字段和步骤名，重新生成时据此区分已不再生成的内容与手动添加的内容
+ */
+type GeneratedManifest = Record<string, { keys: string[]; steps: string[] }>;
+
+/**
+ * 在文件末尾记录生成器拥有的 job、job 字段和步骤，已有记录时替换
+ * @param generatedText 生成的内容，默认与 text 相同；合并后的文件只记录生成的部分
+ */
+export function markGenerated(text: string, generatedText = text): string {
+    const content = text.replace(MANIFEST_LINE, '');
+    const doc = parseDocument(generatedText.replace(MANIFEST_LINE, ''));
+    const jobs = isMap(doc.contents) ? doc.contents.get('jobs') : undefined;
+    if (!isMap(jobs)) return content;
+
+    const manifest: GeneratedManifest = {};
+    for (const pair of jobs.items as Pair[]) {
+        if (!isMap(pair.value)) continue;
+        const steps = pair.value.get('steps');
+        manifest[String(pair.key)] = {
+            keys: (pair.value.items as Pair[]).map(item => String(item.key)),
+            steps: isSeq(steps) ? steps.items.map(getStepName).filter((n): n is string => n !== undefined) : []
+        };
+    }
+    return `${content.replace(/\s*$/, '')}\n\n${MANIFEST_PREFIX}${JSON.stringify(manifest)}\n`;
+}
+
+function readManifest(text: string): GeneratedManifest | undefined {
+    const line = text.match(MANIFEST_LINE)?.[0].trim();
+    if (!line) return undefined;
+    try {
+        return JSON.parse(line.slice(MANIFEST_PREFIX.length).trim()) as GeneratedManifest;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * 将重新生成的工作流合并到现有工作流中
+ * - 生成器拥有的部分：生成内容中出现的顶层字段、jobs 以及按 name 匹配的 steps
+ * - 上次生成（见文件末尾的记录）而本次不再生成的 jobs、job 字段和 steps 被移除
+ * - 其余内容（手动添加的 jobs、steps、env、permissions 等）原样保留
+ */
+export function mergeWorkflow(existingText: string, generatedText: string): MergeResult {
+    const preserved: string[] = [];
+    const removed: string[] = [];
+    const conflicts: string[] = [];
+    const context: MergeContext = { previous: readManifest(existingText), preserved, removed, conflicts };
+
+    const existing = parseDocument(existingText.replace(MANIFEST_LINE, ''));
+    const generated = parseDocument(generatedText.replace(MANIFEST_LINE, ''));
+
+    if (existing.errors.length > 0) {
+        conflicts.push(`现有文件 YAML 解析失败: ${existing.errors[0].message.split('\n')[0]}`);
+        return { content: generatedText, preserved, removed, conflicts };
+    }
+
+    const existingRoot = existing.contents;
+    const generatedRoot = generated.contents;
+    if (!isMap(existingRoot) || !isMap(generatedRoot)) {
+        conflicts.push('现有文件不是有效的工作流（顶层不是映射）');
+        return { content: generatedText, preserved, removed, conflicts };
+    }
+
+    for (const pair of generatedRoot.items as Pair[]) {
+        const key = String(pair.key);
+        const existingValue = existingRoot.get(key, true);
+
+        if (key === 'jobs') {
+            if (existingValue !== undefined && !isMap(existingValue)) {
+                conflicts.push('现有文件的 jobs 格式无法识别');
+                continue;
+            }
+            if (isMap(existingValue) && isMap(pair.value)) {
+                mergeJobs(existingValue, pair.value, context);
+                continue;
+            }
+        } else if (MERGED_TOP_LEVEL_KEYS.includes(key) && existingValue !== undefined) {
+            if (!isMap(existingValue) || !isMap(pair.value)) {
+                conflicts.push(`顶层 ${key} 的格式与生成内容不同，无法合并`);
+                continue;
+            }
+            mergeMap(existingValue, pair.value, key, preserved);
+            continue;
+        }
+
+        (existingRoot as YAMLMap).set(key, pair.value);
+    }
+
+    (existingRoot.items as Pair[]).forEach((pair, index) => {
+        const key = String(pair.key);
+        if (!generatedRoot.has(key)) {
+            preserved.push(`顶层字段 ${key}`);
+        }
+        // 顶层字段之间保持空行
+        if (index > 0 && isScalar(pair.key)) {
+            pair.key.spaceBefore = true;
+        }
+    });
+
+    return {
+        content: markGenerated(existing.toString({ lineWidth: 0 }), generatedText),
+        preserved,
+        removed,
+        conflicts
+    };
+}
+
+interface MergeContext {
+    previous: GeneratedManifest | undefined;
+    preserved: string[];
+    removed: string[];
+    conflicts: string[];
+}
+
+/**
+ * 按键递归合并映射：生成的键覆盖同名键，现有的其他键保留
+ */
+function mergeMap(target: YAMLMap, source: YAMLMap, label: string, preserved: string[]): void {
+    for (const pair of source.items as Pair[]) {
+        const existingValue = target.get(pair.key, true);
+        if (isMap(existingValue) && isMap(pair.value)) {
+            mergeMap(existingValue, pair.value, `${label}.${String(pair.key)}`, preserved);
+            continue;
+        }
+        target.set(pair.key, pair.value);
+    }
+    for (const pair of target.items as Pair[]) {
+        if (!source.has(pair.key)) {
+            preserved.push(`${label}.${String(pair.key)}`);
+        }
+    }
+}
+
+function mergeJobs(existingJobs: YAMLMap, generatedJobs: YAMLMap, context: MergeContext): void {
+    for (const pair of generatedJobs.items as Pair[]) {
+        const jobId = String(pair.key);
+        const existingJob = existingJobs.get(jobId, true);
+        if (existingJob === undefined) {
+            existingJobs.set(jobId, pair.value);
+            continue;
+        }
+        if (!isMap(existingJob) || !isMap(pair.value)) {
+            context.conflicts.push(`job "${jobId}" 格式无法识别`);
+            continue;
+        }
+        mergeJob(jobId, existingJob, pair.value, context);
+    }
+
+    existingJobs.items = (existingJobs.items as Pair[]).filter(pair => {
+        const jobId = String(pair.key);
+        if (generatedJobs.has(pair.key)) return true;
+        if (context.previous?.[jobId]) {
+            context.removed.push(`job "${jobId}"`);
+            return false;
+        }
+        context.preserved.push(`job "${jobId}"`);
+        return true;
+    });
+}
+
+function mergeJob(jobId: string, existingJob: YAMLMap, generatedJob: YAMLMap, context: MergeContext): void {
+    for (const pair of generatedJob.items as Pair[]) {
+        const key = String(pair.key);
+        const existingValue = existingJob.get(key, true);
+
+        if (key === 'steps' && isSeq(existingValue) && isSeq(pair.value)) {
+            mergeSteps(jobId, existingValue, pair.value, context);
+            continue;
+        }
+        if (MERGED_JOB_KEYS.includes(key) && isMap(existingValue) && isMap(pair.value)) {
+            mergeMap(existingValue, pair.value, `job "${jobId}" 的 ${key}`, context.preserved);
+            continue;
+        }
+        existingJob.set(key, pair.value);
+    }
+
+    const previousKeys = context.previous?.[jobId]?.keys ?? [];
+    existingJob.items = (existingJob.items as Pair[]).filter(pair => {
+        const key = String(pair.key);
+        if (generatedJob.has(pair.key)) return true;
+        if (previousKeys.includes(key)) {
+            context.removed.push(`job "${jobId}" 的 ${key}`);
+            return false;
+        }
+        context.preserved.push(`job "${jobId}" 的 ${key}`);
+        return true;
+    });
+}
+
+function getStepName(step: unknown): string | undefined {
+    if (!isMap(step)) return undefined;
+    const name = step.get('name');
+    return typeof name === 'string' ? name : undefined;
+}
+
+/**
+ * 合并步骤：按 name 匹配生成器拥有的步骤，上次生成而本次不再生成的步骤被移除，
+ * 手动添加的步骤保持在其前一个生成步骤之后
+ */
+function mergeSteps(jobId: string, existingSteps: YAMLSeq, generatedSteps: YAMLSeq, context: MergeContext): void {
+    const ownedNames = new Set(
+        generatedSteps.items.map(getStepName).filter((n): n is string => n !== undefined)
+    );
+    const previousNames = new Set(context.previous?.[jobId]?.steps ?? []);
+
+    const overlap = existingSteps.items
+        .map(getStepName)
+        .filter(n => n !== undefined && ownedNames.has(n) && !COMMON_STEP_NAMES.includes(n));
+    if (existingSteps.items.length > 0 && overlap.length === 0 && !context.previous?.[jobId]) {
+        context.conflicts.push(`job "${jobId}" 的步骤与生成内容完全不同，可能由其他生成器或手动创建`);
+        return;
+    }
+
+    // 以前一个生成步骤的 name 为锚点记录手动添加的步骤
+    const userSteps = new Map<string | undefined, unknown[]>();
+    let anchor: string | undefined;
+    for (const step of existingSteps.items) {
+        const name = getStepName(step);
+        if (name !== undefined && ownedNames.has(name)) {
+            anchor = name;
+            continue;
+        }
+        if (name !== undefined && previousNames.has(name)) {
+            context.removed.push(`job "${jobId}" 的步骤 "${name}"`);
+            continue;
+        }
+        if (!userSteps.has(anchor)) userSteps.set(anchor, []);
+        userSteps.get(anchor)!.push(step);
+        context.preserved.push(`job "${jobId}" 的步骤 "${name ?? '(未命名)'}"`);
+    }
+
+    const merged: unknown[] = [...(userSteps.get(undefined) ?? [])];
+    for (const step of generatedSteps.items) {
+        merged.push(step);
+        const name = getStepName(step);
+        if (name !== undefined) {
+            merged.push(...(userSteps.get(name) ?? []));
+            userSteps.delete(name);
+        }
+    }
+
+    existingSteps.items = merged;
+}
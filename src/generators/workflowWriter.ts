@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { mergeWorkflow, markGenerated } from './workflowMerger';
+import { DiffPreview } from '../views/diffPreview';
+import { hardenWorkflow, findUnpinnedActions } from '../workflow/workflowHardening';
+import { ActionPinResolver } from '../git/actionPinResolver';
+
+/**
+ * 工作流文件写入：已存在时合并而不是直接覆盖，保留手动修改；写入前预览差异
+ * 文件末尾记录本次生成的 job 和步骤，下次生成时移除已不再生成的部分
+ */
+export class WorkflowWriter {
+    private preview = DiffPreview.getInstance();
+    private pinResolver = new ActionPinResolver();
+
+    /**
+     * 写入 .github/workflows 下的工作流文件
+     * @returns 实际写入的文件路径，用户取消时返回 undefined
+     */
+    async write(rootPath: string, fileName: string, content: string): Promise<string | undefined> {
+        const githubDir = path.join(rootPath, '.github', 'workflows');
+        const filePath = path.join(githubDir, fileName);
+        content = markGenerated(await this.hardenGenerated(content));
+
+        if (!fs.existsSync(filePath)) {
+            return this.previewAndWrite(filePath, content);
+        }
+
+        const existingContent = fs.readFileSync(filePath, 'utf-8');
+        if (existingContent === content) {
+            return filePath;
+        }
+
+        const result = mergeWorkflow(existingContent, content);
+
+        if (result.conflicts.length > 0) {
+            const action = await vscode.window.showWarningMessage(
+                `${fileName} 已存在且无法自动合并:\n\n${result.conflicts.join('\n')}`,
+                { modal: true },
+                '写入新文件',
+                '覆盖现有文件'
+            );
+            if (action === '写入新文件') {
+                return this.writeToNewFile(filePath, content);
+            }
+            if (action === '覆盖现有文件') {
+                return this.previewAndWrite(filePath, content);
+            }
+            return undefined;
+        }
+
+        const preservedHint = result.preserved.length > 0
+            ? `保留 ${result.preserved.length} 处手动修改`
+            : '没有检测到手动修改';
+        const removedHint = result.removed.length > 0 ? `，移除 ${result.removed.length} 处不再生成的内容` : '';
+        const detail = [
+            ...result.preserved.slice(0, 5).map(item => `保留 ${item}`),
+            ...result.removed.slice(0, 5).map(item => `移除 ${item}`)
+        ].join('、');
+
+        const action = await vscode.window.showQuickPick([
+            { label: '$(merge) 合并到现有文件', description: preservedHint + removedHint, detail: detail || undefined, value: 'merge' },
+            { label: '$(new-file) 写入新文件', description: '现有文件保持不变', value: 'new' },
+            { label: '$(warning) 覆盖现有文件', description: '丢弃所有手动修改', value: 'overwrite' }
+        ], { placeHolder: `${fileName} 已存在，选择写入方式` });
+
+        if (!action) return undefined;
+
+        switch (action.value) {
+            case 'merge':
+                return this.previewAndWrite(filePath, result.content);
+            case 'new':
+                return this.writeToNewFile(filePath, content);
+            default:
+                return this.previewAndWrite(filePath, content);
+        }
+    }
+
+    /**
+     * 写入 .github/actions/<name>/action.yml，组合操作不做合并，已存在时预览差异后覆盖
+     */
+    async writeAction(rootPath: string, actionName: string, content: string): Promise<string | undefined> {
+        const filePath = path.join(rootPath, '.github', 'actions', actionName, 'action.yml');
+        if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) {
+            return filePath;
+        }
+        return this.previewAndWrite(filePath, content);
+    }
+
+    /**
+     * 写入 .gitlab-ci.yml、.gitea/workflows 等其他平台的流水线文件，不做合并，已存在时预览差异后覆盖
+     */
+    async writePipeline(rootPath: string, relativePath: string, content: string): Promise<string | undefined> {
+        const filePath = path.join(rootPath, ...relativePath.split('/'));
+        if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) {
+            return filePath;
+        }
+        return this.previewAndWrite(filePath, content);
+    }
+
+    /**
+     * 开启 lyugitex.harden.onGenerate 时加固生成的工作流，无法解析的 Action 保持原版本
+     */
+    private async hardenGenerated(content: string): Promise<string> {
+        const config = vscode.workspace.getConfiguration('lyugitex.harden');
+        if (!config.get('onGenerate', false)) return content;
+
+        const options = { sbom: config.get('sbom', false), provenance: config.get('provenance', false) };
+        const resolution = await this.pinResolver.resolve(findUnpinnedActions(content, options));
+        if (resolution && resolution.failed.length > 0) {
+            vscode.window.showWarningMessage(`${resolution.failed.length} 个 Action 无法解析，保持原版本:\n${resolution.failed.join('\n')}`);
+        }
+        return hardenWorkflow(content, { ...options, pins: resolution?.pins, permissions: true, checksums: true }).content;
+    }
+
+    /**
+     * 预览差异，确认后写入（可改为写入新文件）
+     */
+    private async previewAndWrite(filePath: string, content: string): Promise<string | undefined> {
+        const action = await this.preview.confirm(filePath, content);
+        if (action === 'newFile') {
+            return this.writeToNewFile(filePath, content);
+        }
+        if (action !== 'apply') return undefined;
+
+        this.writeFile(filePath, content);
+        return filePath;
+    }
+
+    private async writeToNewFile(filePath: string, content: string): Promise<string | undefined> {
+        const newPath = await this.preview.pickNewFilePath(filePath, (v) => /\.ya?ml$/.test(v) ? null : '文件名必须以 .yml 或 .yaml 结尾');
+        if (!newPath) return undefined;
+
+        this.writeFile(newPath, content);
+        return newPath;
+    }
+
+    private writeFile(filePath: string, content: string): void {
+        const dir = path.dirname(filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(filePath, content);
+    }
+}
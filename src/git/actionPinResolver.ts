@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { GitHubApi } from './githubApi';
+
+/** owner/repo@ref → 提交 SHA，会话内共享，避免重复请求 */
+const resolvedPins = new Map<string, string>();
+
+export interface PinResolution {
+    pins: Map<string, string>;
+    /** 无法解析的 owner/repo@ref 及原因 */
+    failed: string[];
+}
+
+/**
+ * 通过 GitHub API 把 Action 的 Tag / 分支解析为提交 SHA
+ */
+export class ActionPinResolver extends GitHubApi {
+    /**
+     * @returns 用户取消或未授权时返回 undefined
+     */
+    async resolve(refs: string[]): Promise<PinResolution | undefined> {
+        const pending = refs.filter(ref => !resolvedPins.has(ref));
+        const failed: string[] = [];
+
+        if (pending.length > 0) {
+            const token = await this.getGitHubToken();
+            if (!token) return undefined;
+
+            const completed = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: '解析 Action 提交 SHA', cancellable: true },
+                async (progress, cancelToken) => {
+                    for (const [index, ref] of pending.entries()) {
+                        if (cancelToken.isCancellationRequested) return false;
+                        progress.report({ message: `${ref} (${index + 1}/${pending.length})`, increment: 100 / pending.length });
+
+                        const error = await this.resolveOne(ref, token);
+                        if (error) failed.push(`${ref}: ${error}`);
+                    }
+                    return true;
+                }
+            );
+            if (!completed) return undefined;
+        }
+
+        const pins = new Map(refs.filter(ref => resolvedPins.has(ref)).map(ref => [ref, resolvedPins.get(ref)!]));
+        return { pins, failed };
+    }
+
+    /**
+     * @returns 失败原因，成功时返回 undefined
+     */
+    private async resolveOne(ref: string, token: string): Promise<string | undefined> {
+        const [repo, version] = ref.split('@');
+        const config = this.getNetworkConfig();
+
+        for (let i = 0; i < config.retryCount; i++) {
+            try {
+                const result = await this.githubRequest('GET', `/repos/${repo}/commits/${encodeURIComponent(version)}`, token);
+                if (result.status === 200) {
+                    resolvedPins.set(ref, (result.data as { sha: string }).sha);
+                    return undefined;
+                }
+                if (result.status === 404 || result.status === 422) return '仓库或版本不存在';
+                if (result.status === 403) return 'API 请求受限';
+                return `HTTP ${result.status}`;
+            } catch (error: unknown) {
+                if (i === config.retryCount - 1) return (error as Error).message;
+                await new Promise(resolve => setTimeout(resolve, config.retryDelay));
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * 基于 Conventional Commits（https://www.conventionalcommits.org）生成变更日志
+ */
+
+export interface ConventionalCommit {
+    hash: string;
+    /** 提交类型（feat / fix ...），不符合规范的提交为 undefined */
+    type?: string;
+    scope?: string;
+    description: string;
+    breaking: boolean;
+    /** BREAKING CHANGE 脚注中的说明 */
+    breakingNote?: string;
+}
+
+export interface ReleaseNotesOptions {
+    /** 提交链接前缀，如 https://github.com/owner/repo/commit/ */
+    commitUrl?: string;
+}
+
+export interface ChangelogSectionOptions extends ReleaseNotesOptions {
+    version: string;
+    date: string;
+    /** 与上一版本的比较链接 */
+    compareUrl?: string;
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE:\s*([\s\S]*?)(?:\n\s*\n|(?![\s\S]))/m;
+
+/** 写入变更日志的分组，其他类型（docs / chore / ci ...）不列出 */
+const GROUPS: { type: string; title: string }[] = [
+    { type: 'feat', title: '✨ 新功能' },
+    { type: 'fix', title: '🐛 问题修复' },
+    { type: 'perf', title: '⚡ 性能优化' }
+];
+
+const CHANGELOG_TITLE = '# 变更日志';
+
+export function parseConventionalCommit(hash: string, subject: string, body = ''): ConventionalCommit {
+    const match = subject.trim().match(HEADER_PATTERN);
+    const footer = body.match(BREAKING_FOOTER_PATTERN);
+    const breakingNote = footer ? footer[1].trim().replace(/\s*\n\s*/g, ' ') : undefined;
+
+    if (!match) {
+        return { hash, description: subject.trim(), breaking: !!footer, breakingNote };
+    }
+    return {
+        hash,
+        type: match[1].toLowerCase(),
+        scope: match[2] || undefined,
+        description: match[4].trim(),
+        breaking: !!match[3] || !!footer,
+        breakingNote
+    };
+}
+
+function formatCommit(commit: ConventionalCommit, options: ReleaseNotesOptions, text = commit.description): string {
+    const scope = commit.scope ? `**${commit.scope}:** ` : '';
+    const shortHash = commit.hash.slice(0, 7);
+    const link = options.commitUrl ? `[${shortHash}](${options.commitUrl}${commit.hash})` : shortHash;
+    return `- ${scope}${text} (${link})`;
+}
+
+/**
+ * 生成发布说明正文（不含版本标题），可直接作为附注 Tag 说明或 GitHub Release 正文
+ */
+export function renderReleaseNotes(commits: ConventionalCommit[], options: ReleaseNotesOptions = {}): string {
+    const sections: string[] = [];
+
+    const breaking = commits.filter(c => c.breaking);
+    if (breaking.length > 0) {
+        sections.push(`### ⚠️ 破坏性变更\n\n${breaking.map(c => formatCommit(c, options, c.breakingNote || c.description)).join('\n')}`);
+    }
+
+    for (const group of GROUPS) {
+        const items = commits.filter(c => c.type === group.type);
+        if (items.length > 0) {
+            sections.push(`### ${group.title}\n\n${items.map(c => formatCommit(c, options)).join('\n')}`);
+        }
+    }
+
+    return sections.length > 0 ? sections.join('\n\n') : '无功能变更。';
+}
+
+/**
+ * 生成 CHANGELOG.md 中的一个版本段落
+ */
+export function renderChangelogSection(commits: ConventionalCommit[], options: ChangelogSectionOptions): string {
+    const title = options.compareUrl ? `[${options.version}](${options.compareUrl})` : options.version;
+    return `## ${title} (${options.date})\n\n${renderReleaseNotes(commits, options)}\n`;
+}
+
+/**
+ * 将版本段落插入变更日志顶部；同一版本已存在时替换原段落
+ */
+export function prependChangelog(existing: string | undefined, section: string, version: string): string {
+    if (!existing || !existing.trim()) {
+        return `${CHANGELOG_TITLE}\n\n${section}`;
+    }
+
+    const content = existing.replace(/\r\n/g, '\n');
+    const headings = [...content.matchAll(/^## .*$/gm)];
+    const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const sameVersion = new RegExp(`^## \\[?${escaped}\\]?[ (]`);
+
+    // 发布版本时替换之前生成的 Unreleased 段落
+    let existingIndex = headings.findIndex(h => sameVersion.test(h[0]));
+    if (existingIndex < 0) {
+        existingIndex = headings.findIndex(h => /^## \[?Unreleased\]?[ (]/.test(h[0]));
+    }
+    if (existingIndex >= 0) {
+        const start = headings[existingIndex].index!;
+        const end = headings[existingIndex + 1]?.index ?? content.length;
+        return content.slice(0, start) + section + (end < content.length ? '\n' : '') + content.slice(end);
+    }
+
+    // 插入到第一个版本段落之前，保留文件开头的标题和说明
+    if (headings.length > 0) {
+        const start = headings[0].index!;
+        return content.slice(0, start) + section + '\n' + content.slice(start);
+    }
+    return `${content.trimEnd()}\n\n${section}`;
+}
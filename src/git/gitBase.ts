@@ -1,4 +1,7 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { WorkspaceManager } from './workspaceManager';
@@ -110,6 +113,20 @@ export class GitBase {
         throw lastError;
     }
 
+    /**
+     * 创建附注 Tag。说明通过临时文件传入以支持多行内容，
+     * 并保留以 # 开头的行（Markdown 标题）
+     */
+    protected async createAnnotatedTag(tagName: string, message: string): Promise<void> {
+        const messageFile = path.join(os.tmpdir(), `lyugitex-tag-${Date.now()}.txt`);
+        fs.writeFileSync(messageFile, message);
+        try {
+            await this.runGitCommand(`git tag -a "${tagName}" --cleanup=whitespace -F "${messageFile}"`);
+        } finally {
+            fs.unlinkSync(messageFile);
+        }
+    }
+
     async isGitRepo(folder?: vscode.WorkspaceFolder): Promise<boolean> {
         try {
             if (folder) {
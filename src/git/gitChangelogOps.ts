@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitBase } from './gitBase';
+import { DiffPreview } from '../views/diffPreview';
+import { parseConventionalCommit, renderReleaseNotes, renderChangelogSection, prependChangelog, ConventionalCommit } from './changelog';
+
+export interface ReleaseNotes {
+    /** 上一个 Tag，首次发布时为 undefined */
+    previousTag?: string;
+    commits: ConventionalCommit[];
+    /** 发布说明正文，用作 Tag 说明或 Release 正文 */
+    body: string;
+    /** CHANGELOG.md 中的版本段落 */
+    section: string;
+}
+
+const CHANGELOG_FILE = 'CHANGELOG.md';
+
+/**
+ * 变更日志与发布说明
+ */
+export class GitChangelogOps extends GitBase {
+    private preview = DiffPreview.getInstance();
+
+    async generateChangelog(): Promise<void> {
+        try {
+            const folder = await this.selectWorkspace();
+            if (!folder) return;
+
+            const tags = (await this.runGitCommand('git tag -l --sort=-creatordate')).split('\n').filter(t => t);
+            const target = await vscode.window.showQuickPick(
+                [
+                    { label: 'HEAD', description: '上一个 Tag 之后尚未发布的提交', ref: 'HEAD' },
+                    ...tags.map(tag => ({ label: tag, description: '', ref: tag }))
+                ],
+                { placeHolder: '选择要生成变更日志的版本' }
+            );
+            if (!target) return;
+
+            let version = target.ref;
+            if (target.ref === 'HEAD') {
+                const input = await vscode.window.showInputBox({
+                    prompt: '版本名称（即将创建的 Tag）',
+                    value: 'Unreleased'
+                });
+                if (!input) return;
+                version = input;
+            }
+
+            const notes = await this.buildReleaseNotes(folder, target.ref, version);
+            if (notes.commits.length === 0) {
+                vscode.window.showWarningMessage(`${notes.previousTag ?? '仓库创建'} 之后没有新的提交`);
+                return;
+            }
+
+            const action = await vscode.window.showQuickPick(
+                [
+                    { label: `写入 ${CHANGELOG_FILE}`, value: 'write' },
+                    { label: '复制发布说明到剪贴板', value: 'copy' }
+                ],
+                { placeHolder: `${notes.previousTag ?? '首个提交'} → ${version}：${notes.commits.length} 个提交` }
+            );
+            if (!action) return;
+
+            if (action.value === 'copy') {
+                await vscode.env.clipboard.writeText(notes.body);
+                vscode.window.showInformationMessage('已复制发布说明');
+                return;
+            }
+
+            const filePath = await this.writeChangelog(folder, notes.section, version);
+            if (!filePath) return;
+            const doc = await vscode.workspace.openTextDocument(filePath);
+            await vscode.window.showTextDocument(doc);
+        } catch (error: unknown) {
+            vscode.window.showErrorMessage(`生成变更日志失败: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * 收集上一个 Tag 到 ref 之间的提交并生成发布说明
+     * @param ref 已有的 Tag，或即将打 Tag 的 HEAD
+     * @param version 版本段落标题中显示的版本
+     */
+    async buildReleaseNotes(folder: vscode.WorkspaceFolder, ref: string, version: string): Promise<ReleaseNotes> {
+        const previousTag = await this.getPreviousTag(folder, ref);
+        const commits = await this.collectCommits(folder, previousTag, ref);
+        const repoUrl = await this.getGitHubRepoUrl(folder);
+
+        const date = ref === 'HEAD'
+            ? new Date().toISOString().slice(0, 10)
+            : await this.runGitCommandInFolder(`git log -1 --format=%cs "${ref}"`, folder);
+        const isTag = ref !== 'HEAD' || version !== 'Unreleased';
+        const options = {
+            commitUrl: repoUrl ? `${repoUrl}/commit/` : undefined,
+            compareUrl: repoUrl && previousTag ? `${repoUrl}/compare/${previousTag}...${isTag ? version : 'HEAD'}` : undefined
+        };
+
+        return {
+            previousTag,
+            commits,
+            body: renderReleaseNotes(commits, options),
+            section: renderChangelogSection(commits, { ...options, version, date })
+        };
+    }
+
+    /**
+     * 预览差异后将版本段落写入 CHANGELOG.md，返回文件路径，用户取消时返回 undefined
+     */
+    async writeChangelog(folder: vscode.WorkspaceFolder, section: string, version: string): Promise<string | undefined> {
+        const filePath = path.join(folder.uri.fsPath, CHANGELOG_FILE);
+        const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+        if (!await this.preview.confirmAndWrite(filePath, prependChangelog(existing, section, version))) return undefined;
+        return filePath;
+    }
+
+    /**
+     * 读取本地附注 Tag 的说明，轻量 Tag 或本地不存在时返回 undefined
+     */
+    async getTagMessage(folder: vscode.WorkspaceFolder, tag: string): Promise<string | undefined> {
+        try {
+            if (await this.runGitCommandInFolder(`git cat-file -t "${tag}"`, folder) !== 'tag') return undefined;
+            return await this.runGitCommandInFolder(`git tag -l --format="%(contents)" "${tag}"`, folder) || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async getPreviousTag(folder: vscode.WorkspaceFolder, ref: string): Promise<string | undefined> {
+        // 对已有 Tag 从其父提交开始查找，避免找到自身
+        const start = ref === 'HEAD' ? 'HEAD' : `"${ref}^"`;
+        try {
+            return await this.runGitCommandInFolder(`git describe --tags --abbrev=0 ${start}`, folder) || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async collectCommits(folder: vscode.WorkspaceFolder, from: string | undefined, to: string): Promise<ConventionalCommit[]> {
+        const range = from ? `"${from}..${to}"` : `"${to}"`;
+        const output = await this.runGitCommandInFolder(`git log --no-merges --format=%H%x1f%s%x1f%b%x1e ${range}`, folder);
+
+        return output.split('\x1e')
+            .map(entry => entry.trim())
+            .filter(entry => entry)
+            .map(entry => {
+                const [hash, subject, body] = entry.split('\x1f');
+                return parseConventionalCommit(hash, subject, body);
+            })
+            // 版本递增自身的提交不写入变更日志
+            .filter(commit => !(commit.type === 'chore' && commit.scope === 'release'));
+    }
+
+    private async getGitHubRepoUrl(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+        try {
+            const remoteUrl = await this.runGitCommandInFolder('git remote get-url origin', folder);
+            const match = remoteUrl.match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?$/);
+            return match ? `https://github.com/${match[1]}/${match[2]}` : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -3,6 +3,8 @@ import { GitBase } from './gitBase';
 import { GitTagOps } from './gitTagOps';
 import { GitCommitOps } from './gitCommitOps';
 import { GitignoreOps } from './gitignoreOps';
+import { GitVersionOps } from './gitVersionOps';
+import { GitChangelogOps } from './gitChangelogOps';
 
 /**
  * Git 操作主类，整合所有 Git 相关操作
@@ -11,6 +13,8 @@ export class GitOperations extends GitBase {
     private tagOps = new GitTagOps();
     private commitOps = new GitCommitOps();
     private gitignoreOps = new GitignoreOps();
+    private versionOps = new GitVersionOps();
+    private changelogOps = new GitChangelogOps();
 
     // ========== 仓库初始化 ==========
 
@@ -222,6 +226,12 @@ export class GitOperations extends GitBase {
     deleteLocalTag = () => this.tagOps.deleteLocalTag();
     deleteRemoteTag = () => this.tagOps.deleteRemoteTag();
 
+    // 版本递增
+    bumpVersion = () => this.versionOps.bumpVersion();
+
+    // 变更日志
+    generateChangelog = () => this.changelogOps.generateChangelog();
+
     // Commit 操作
     resetLocalCommits = () => this.commitOps.resetLocalCommits();
     resetRemoteCommits = () => this.commitOps.resetRemoteCommits();
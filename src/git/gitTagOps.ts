@@ -1,10 +1,13 @@
 import * as vscode from 'vscode';
 import { GitBase } from './gitBase';
+import { GitChangelogOps } from './gitChangelogOps';
 
 /**
  * Git Tag 相关操作
  */
 export class GitTagOps extends GitBase {
+    private changelogOps = new GitChangelogOps();
+
     async createTag(): Promise<void> {
         try {
             if (!await this.selectWorkspace()) return;
@@ -29,15 +32,31 @@ export class GitTagOps extends GitBase {
 
             if (!tagName) return;
 
-            const message = await vscode.window.showInputBox({
-                prompt: '输入 Tag 说明（可选，留空创建轻量 Tag）',
-                placeHolder: '例如: Release version 1.0.0'
-            });
-
-            if (message === undefined) return;
+            const tagType = await vscode.window.showQuickPick(
+                [
+                    { label: '附注 Tag（手动输入说明）', value: 'manual' },
+                    { label: '附注 Tag（根据提交生成发布说明）', description: '按 feat / fix / perf 分组', value: 'notes' },
+                    { label: '轻量 Tag', value: 'lightweight' }
+                ],
+                { placeHolder: '选择 Tag 类型' }
+            );
+            if (!tagType) return;
+
+            let message = '';
+            if (tagType.value === 'manual') {
+                const input = await vscode.window.showInputBox({
+                    prompt: '输入 Tag 说明（可选，留空创建轻量 Tag）',
+                    placeHolder: '例如: Release version 1.0.0'
+                });
+                if (input === undefined) return;
+                message = input;
+            } else if (tagType.value === 'notes') {
+                const notes = await this.changelogOps.buildReleaseNotes(this.getWorkspaceFolder(), 'HEAD', tagName);
+                message = notes.body;
+            }
 
             if (message) {
-                await this.runGitCommand(`git tag -a "${tagName}" -m "${message}"`);
+                await this.createAnnotatedTag(tagName, message);
             } else {
                 await this.runGitCommand(`git tag "${tagName}"`);
             }
@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitBase } from './gitBase';
+import { parseSemVer, formatSemVer, compareSemVer, bumpSemVer, SemVer, PrereleaseLabel } from './semver';
+import { GitChangelogOps } from './gitChangelogOps';
+import { loadDotnetWorkspace } from '../generators/dotnetProjectModel';
+
+interface VersionFile {
+    /** 相对于仓库根目录的路径 */
+    path: string;
+    type: 'msbuild' | 'npm';
+    currentVersion: string;
+}
+
+const PRERELEASE_LABELS: PrereleaseLabel[] = ['alpha', 'beta', 'rc'];
+
+/** MSBuild 中表示版本的属性 */
+const MSBUILD_VERSION_PATTERN = /<(Version|VersionPrefix)>\s*([^<]*?)\s*<\/\1>/;
+
+/**
+ * 版本号递增：更新项目文件、提交并创建附注 Tag
+ */
+export class GitVersionOps extends GitBase {
+    private changelogOps = new GitChangelogOps();
+
+    async bumpVersion(): Promise<void> {
+        try {
+            if (!await this.selectWorkspace()) return;
+
+            try {
+                await this.runGitCommand('git rev-parse HEAD');
+            } catch {
+                vscode.window.showErrorMessage('没有提交记录，无法创建 Tag');
+                return;
+            }
+
+            const rootPath = this.getWorkspaceFolder().uri.fsPath;
+            const versionFiles = this.findVersionFiles(rootPath);
+
+            // 当前版本：最新的语义化版本 Tag，没有 Tag 时使用项目文件中的版本
+            const latestTag = await this.getLatestSemVerTag();
+            const tagPrefix = latestTag ? (latestTag.name.startsWith('v') ? 'v' : '') : 'v';
+            const current = latestTag?.version
+                ?? versionFiles.map(f => parseSemVer(f.currentVersion)).find((v): v is SemVer => v !== undefined)
+                ?? { major: 0, minor: 0, patch: 0, prerelease: [] };
+            const currentText = latestTag ? latestTag.name : `${formatSemVer(current)}（项目文件，尚无 Tag）`;
+
+            const next = await this.pickNextVersion(current, currentText);
+            if (!next) return;
+
+            const tagName = `${tagPrefix}${next}`;
+            const existing = await this.runGitCommand(`git tag -l "${tagName}"`);
+            if (existing) {
+                vscode.window.showErrorMessage(`Tag ${tagName} 已存在`);
+                return;
+            }
+
+            // 选择要更新的版本文件
+            let filesToUpdate: VersionFile[] = [];
+            if (versionFiles.length > 0) {
+                const selected = await vscode.window.showQuickPick(
+                    versionFiles.map(f => ({ label: f.path, description: `${f.currentVersion} → ${next}`, picked: true, file: f })),
+                    { canPickMany: true, placeHolder: '选择要更新版本号的文件（不选则只创建 Tag）' }
+                );
+                if (!selected) return;
+                filesToUpdate = selected.map(s => s.file);
+            }
+
+            const folder = this.getWorkspaceFolder();
+            const messageChoice = await vscode.window.showQuickPick(
+                [
+                    { label: '根据提交生成发布说明，并更新 CHANGELOG.md', value: 'changelog' },
+                    { label: '根据提交生成发布说明', value: 'notes' },
+                    { label: '手动输入 Tag 说明', value: 'custom' }
+                ],
+                { placeHolder: 'Tag 说明（也会作为 GitHub Release 正文）' }
+            );
+            if (!messageChoice) return;
+
+            let message = `Release ${tagName}`;
+            let changelogSection: string | undefined;
+            if (messageChoice.value === 'custom') {
+                const input = await vscode.window.showInputBox({ prompt: 'Tag 说明', value: message });
+                if (input === undefined) return;
+                message = input || message;
+            } else {
+                const notes = await this.changelogOps.buildReleaseNotes(folder, 'HEAD', tagName);
+                message = notes.body;
+                if (messageChoice.value === 'changelog') changelogSection = notes.section;
+            }
+
+            // 更新文件并提交；先写 CHANGELOG.md，用户在预览中取消时不修改版本号、不提交也不创建 Tag
+            const changedPaths: string[] = [];
+            if (changelogSection) {
+                if (!await this.changelogOps.writeChangelog(folder, changelogSection, tagName)) return;
+                changedPaths.push('CHANGELOG.md');
+            }
+            for (const file of filesToUpdate) {
+                changedPaths.push(...this.updateVersionFile(rootPath, file, next));
+            }
+            // 被 .gitignore 忽略的文件（如未提交的 package-lock.json）不参与提交，否则 git add 失败
+            const stagedPaths = changedPaths.length > 0
+                ? (await this.runGitCommand(`git ls-files --cached --others --exclude-standard -- ${changedPaths.map(p => `"${p}"`).join(' ')}`))
+                    .split('\n').map(p => p.trim()).filter(Boolean)
+                : [];
+            if (stagedPaths.length > 0) {
+                const pathArgs = stagedPaths.map(p => `"${p}"`).join(' ');
+                await this.runGitCommand(`git add -- ${pathArgs}`);
+                await this.runGitCommand(`git commit -m "chore(release): ${tagName}" -- ${pathArgs}`);
+            }
+
+            await this.createAnnotatedTag(tagName, message);
+
+            const pushChoice = await vscode.window.showQuickPick(
+                [
+                    { label: '是，推送提交和 Tag', value: true },
+                    { label: '否，仅在本地', value: false }
+                ],
+                { placeHolder: '是否推送到远程仓库？' }
+            );
+
+            if (pushChoice?.value) {
+                try {
+                    await vscode.window.withProgress(
+                        { location: vscode.ProgressLocation.Notification, title: `推送 ${tagName}...` },
+                        () => this.runGitCommandWithRetry(`git push --atomic origin HEAD "refs/tags/${tagName}"`)
+                    );
+                    vscode.window.showInformationMessage(`✅ 已发布 ${tagName} 并推送到远程`);
+                } catch (error: unknown) {
+                    vscode.window.showWarningMessage(`${tagName} 已在本地创建，但推送失败: ${(error as Error).message}`);
+                }
+            } else {
+                vscode.window.showInformationMessage(`✅ 已在本地创建 ${tagName}`);
+            }
+        } catch (error: unknown) {
+            vscode.window.showErrorMessage(`版本递增失败: ${(error as Error).message}`);
+        }
+    }
+
+    private async getLatestSemVerTag(): Promise<{ name: string; version: SemVer } | undefined> {
+        const tags = await this.runGitCommand('git tag -l');
+        return tags.split('\n')
+            .map(name => ({ name: name.trim(), version: parseSemVer(name) }))
+            .filter((t): t is { name: string; version: SemVer } => t.version !== undefined)
+            .sort((a, b) => compareSemVer(b.version, a.version))[0];
+    }
+
+    private async pickNextVersion(current: SemVer, currentText: string): Promise<string | undefined> {
+        type Item = vscode.QuickPickItem & { version?: string; semver?: SemVer; custom?: boolean };
+        const item = (label: string, next: SemVer): Item => {
+            const version = formatSemVer(next);
+            return { label: version, description: label, version, semver: next };
+        };
+
+        const releaseItems = [
+            item('补丁版本 (patch)', bumpSemVer(current, 'patch')),
+            item('次版本 (minor)', bumpSemVer(current, 'minor')),
+            item('主版本 (major)', bumpSemVer(current, 'major'))
+        ];
+        const prereleaseItems: Item[] = [];
+
+        const currentLabel = current.prerelease[0] as PrereleaseLabel | undefined;
+        if (currentLabel && PRERELEASE_LABELS.includes(currentLabel)) {
+            // 已是预发布版本：只能继续当前标签或进入更靠后的阶段
+            for (const label of PRERELEASE_LABELS.slice(PRERELEASE_LABELS.indexOf(currentLabel))) {
+                prereleaseItems.push(item(`预发布 ${label}`, bumpSemVer(current, 'prerelease', label)));
+            }
+        } else {
+            // 正式版或其他标签的预发布版本（如 preview.1）：以对应的正式版为基础递增
+            const release: SemVer = { ...current, prerelease: [] };
+            for (const label of PRERELEASE_LABELS) {
+                if (currentLabel) {
+                    prereleaseItems.push(item(`预发布 ${label}`, { ...release, prerelease: [label, '1'] }));
+                }
+                prereleaseItems.push(item(`${label}（下一个补丁版本）`, bumpSemVer(release, 'prerelease', label, 'patch')));
+                prereleaseItems.push(item(`${label}（下一个次版本）`, bumpSemVer(release, 'prerelease', label, 'minor')));
+            }
+        }
+
+        // 只提供高于当前版本的选项，避免写入并标记更低的版本；预发布转正式版时各级别结果相同，只保留一项
+        const isNewer = (i: Item, index: number, all: Item[]) =>
+            i.semver !== undefined && compareSemVer(i.semver, current) > 0 && all.findIndex(o => o.version === i.version) === index;
+        const items: Item[] = [
+            ...releaseItems.filter(isNewer),
+            { label: '预发布', kind: vscode.QuickPickItemKind.Separator },
+            ...prereleaseItems.filter(isNewer)
+        ];
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+        items.push({ label: '$(edit) 自定义版本号...', custom: true });
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: `当前版本 ${currentText}，选择新版本` });
+        if (!selected) return undefined;
+        if (!selected.custom) return selected.version;
+
+        return vscode.window.showInputBox({
+            prompt: '输入新版本号（语义化版本）',
+            value: formatSemVer(bumpSemVer(current, 'patch')),
+            validateInput: (v) => {
+                const parsed = parseSemVer(v);
+                if (!parsed || v.startsWith('v')) return '格式如 1.2.3 或 1.2.3-beta.1';
+                if (compareSemVer(parsed, current) <= 0) return `新版本需高于当前版本 ${formatSemVer(current)}`;
+                return null;
+            }
+        });
+    }
+
+    /**
+     * 查找声明了版本号的文件：根目录 package.json、Directory.Build.props 和项目文件
+     */
+    private findVersionFiles(rootPath: string): VersionFile[] {
+        const files: VersionFile[] = [];
+
+        const packageJsonPath = path.join(rootPath, 'package.json');
+        if (fs.existsSync(packageJsonPath)) {
+            try {
+                const version = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')).version;
+                if (typeof version === 'string') {
+                    files.push({ path: 'package.json', type: 'npm', currentVersion: version });
+                }
+            } catch {
+                // package.json 格式错误时跳过
+            }
+        }
+
+        const candidates = ['Directory.Build.props'];
+        try {
+            candidates.push(...loadDotnetWorkspace(rootPath).projects.map(p => p.path));
+        } catch {
+            // 没有 .NET 项目
+        }
+
+        for (const candidate of candidates) {
+            const fullPath = path.join(rootPath, candidate);
+            if (!fs.existsSync(fullPath)) continue;
+            const content = fs.readFileSync(fullPath, 'utf-8');
+            const match = content.match(MSBUILD_VERSION_PATTERN);
+            // 版本号引用其他属性时不处理
+            if (match && !match[2].includes('$(')) {
+                const suffix = match[1] === 'VersionPrefix' ? content.match(/<VersionSuffix>\s*([^<$]+?)\s*<\/VersionSuffix>/)?.[1] : undefined;
+                files.push({ path: candidate, type: 'msbuild', currentVersion: suffix ? `${match[2]}-${suffix}` : match[2] });
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * 写入新版本号，返回实际修改的文件
+     */
+    private updateVersionFile(rootPath: string, file: VersionFile, version: string): string[] {
+        const fullPath = path.join(rootPath, file.path);
+        let content = fs.readFileSync(fullPath, 'utf-8');
+
+        if (file.type === 'npm') {
+            const range = findRootVersionRange(content);
+            if (!range) return [];
+            content = content.slice(0, range[0]) + version + content.slice(range[1]);
+            fs.writeFileSync(fullPath, content);
+
+            // 同步 package-lock.json 中根包的版本
+            const lockPath = path.join(rootPath, 'package-lock.json');
+            if (!fs.existsSync(lockPath)) return [file.path];
+            const lock = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+            lock.version = version;
+            if (lock.packages?.['']) lock.packages[''].version = version;
+            fs.writeFileSync(lockPath, JSON.stringify(lock, null, 2) + '\n');
+            return [file.path, 'package-lock.json'];
+        }
+
+        const parsed = parseSemVer(version)!;
+        const numeric = `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+        const suffix = parsed.prerelease.join('.');
+
+        const hasSuffix = /<VersionSuffix>[^<]*<\/VersionSuffix>/.test(content);
+        content = content.replace(MSBUILD_VERSION_PATTERN, (_, tag: string) => {
+            if (tag === 'Version') return `<Version>${version}</Version>`;
+            // VersionPrefix 不含预发布部分，预发布写入 VersionSuffix
+            return hasSuffix || !suffix
+                ? `<VersionPrefix>${numeric}</VersionPrefix>`
+                : `<VersionPrefix>${numeric}</VersionPrefix><VersionSuffix>${suffix}</VersionSuffix>`;
+        });
+        content = content.replace(/<VersionSuffix>[^<]*<\/VersionSuffix>/, `<VersionSuffix>${suffix}</VersionSuffix>`);
+        content = content.replace(/<(AssemblyVersion|FileVersion)>\s*\d+(\.\d+){1,3}\s*<\/\1>/g, `<$1>${numeric}.0</$1>`);
+
+        fs.writeFileSync(fullPath, content);
+        return [file.path];
+    }
+}
+
+/**
+ * 查找 package.json 根对象中 version 字段值（不含引号）的位置，嵌套对象中的同名字段不算
+ */
+function findRootVersionRange(content: string): [number, number] | undefined {
+    let depth = 0;
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+        if (ch === '{' || ch === '[') depth++;
+        else if (ch === '}' || ch === ']') depth--;
+        if (ch !== '"') continue;
+
+        const end = findStringEnd(content, i);
+        const colon = /\s*:\s*/y;
+        colon.lastIndex = end + 1;
+        if (colon.test(content) && depth === 1 && content.slice(i + 1, end) === 'version') {
+            const start = colon.lastIndex;
+            return content[start] === '"' ? [start + 1, findStringEnd(content, start)] : undefined;
+        }
+        i = end;
+    }
+    return undefined;
+}
+
+/** 返回从 start 处引号开始的 JSON 字符串的结束引号位置 */
+function findStringEnd(content: string, start: number): number {
+    let i = start + 1;
+    while (i < content.length && content[i] !== '"') {
+        i += content[i] === '\\' ? 2 : 1;
+    }
+    return i;
+}
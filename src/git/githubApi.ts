@@ -39,13 +39,14 @@ export class GitHubApi {
         return this.currentFolder;
     }
 
-    async getRepoUrl(): Promise<string | null> {
-        if (!this.currentFolder) return null;
+    /**
+     * origin 的地址，默认取当前选择的仓库
+     */
+    async getRepoUrl(cwd = this.currentFolder?.uri.fsPath): Promise<string | null> {
+        if (!cwd) return null;
 
         try {
-            const { stdout } = await execAsync('git remote get-url origin', { 
-                cwd: this.currentFolder.uri.fsPath 
-            });
+            const { stdout } = await execAsync('git remote get-url origin', { cwd });
             return stdout.trim();
         } catch {
             return null;
@@ -116,6 +117,54 @@ export class GitHubApi {
         });
     }
 
+    /**
+     * 上传二进制内容（Release 附件使用 uploads.github.com）
+     */
+    async githubUpload(path: string, token: string, content: Buffer, contentType: string, timeout?: number): Promise<{ status: number; data: unknown }> {
+        // 大文件上传时间较长，超时按文件大小放宽（至少 1 MB/10 秒）
+        const actualTimeout = timeout ?? Math.max(this.getNetworkConfig().timeout, Math.ceil(content.length / (1024 * 1024)) * 10000);
+        return new Promise((resolve, reject) => {
+            const options = {
+                hostname: 'uploads.github.com',
+                path,
+                method: 'POST',
+                timeout: actualTimeout,
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Accept': 'application/vnd.github+json',
+                    'User-Agent': 'VSCode-LyuGitEx',
+                    'X-GitHub-Api-Version': '2022-11-28',
+                    'Content-Type': contentType,
+                    'Content-Length': content.length
+                }
+            };
+
+            const req = https.request(options, (res) => {
+                let data = '';
+                res.on('data', chunk => data += chunk);
+                res.on('end', () => {
+                    try {
+                        resolve({ status: res.statusCode || 0, data: data ? JSON.parse(data) : null });
+                    } catch {
+                        resolve({ status: res.statusCode || 0, data: null });
+                    }
+                });
+            });
+
+            req.setTimeout(actualTimeout, () => {
+                req.destroy();
+                reject(new Error('上传超时，请检查网络连接'));
+            });
+
+            req.on('error', (err) => {
+                reject(new Error(`网络错误: ${err.message}`));
+            });
+
+            req.write(content);
+            req.end();
+        });
+    }
+
     async githubRequestWithProgress<T>(
         title: string,
         method: string,
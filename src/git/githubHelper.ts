@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { GitHubApi } from './githubApi';
 import { GitHubSecrets } from './githubSecrets';
 import { GitHubActions } from './githubActions';
+import { GitHubReleases } from './githubReleases';
 
 /**
  * GitHub 操作主类
@@ -9,6 +10,7 @@ import { GitHubActions } from './githubActions';
 export class GitHubHelper extends GitHubApi {
     private secretsOps = new GitHubSecrets();
     private actionsOps = new GitHubActions();
+    private releasesOps = new GitHubReleases();
 
     async openSecretsPage(): Promise<void> {
         if (!await this.selectWorkspace()) return;
@@ -85,6 +87,7 @@ export class GitHubHelper extends GitHubApi {
             { label: '查看 Secrets 列表', value: 'list' },
             { label: '创建/更新 Secret', value: 'create' },
             { label: '删除 Secret', value: 'delete' },
+            { label: '检查工作流引用的 Secrets', value: 'check' },
             { label: '在浏览器中打开', value: 'open' }
         ], { placeHolder: '选择操作' });
 
@@ -102,12 +105,37 @@ export class GitHubHelper extends GitHubApi {
             case 'delete':
                 await this.secretsOps.deleteSecret(token, owner, repo);
                 break;
+            case 'check':
+                await this.secretsOps.checkWorkflowSecrets(token, owner, repo, this.currentFolder!.uri.fsPath);
+                break;
             case 'open':
                 await this.openSecretsPageInternal();
                 break;
         }
     }
 
+    async checkWorkflowSecrets(): Promise<void> {
+        const folder = await this.selectWorkspace();
+        if (!folder) return;
+
+        const token = await this.getGitHubToken();
+        if (!token) return;
+
+        const remoteUrl = await this.getRepoUrl();
+        if (!remoteUrl) {
+            vscode.window.showErrorMessage('未找到 Git 远程仓库');
+            return;
+        }
+
+        const parsed = this.parseGitHubUrl(remoteUrl);
+        if (!parsed) {
+            vscode.window.showErrorMessage('不是 GitHub 仓库');
+            return;
+        }
+
+        await this.secretsOps.checkWorkflowSecrets(token, parsed.owner, parsed.repo, folder.uri.fsPath);
+    }
+
     async deleteWorkflowRuns(): Promise<void> {
         if (!await this.selectWorkspace()) return;
 
@@ -128,4 +156,61 @@ export class GitHubHelper extends GitHubApi {
 
         await this.actionsOps.deleteWorkflowRuns(token, parsed.owner, parsed.repo);
     }
+
+    async manageReleases(): Promise<void> {
+        const folder = await this.selectWorkspace();
+        if (!folder) return;
+
+        const token = await this.getGitHubToken();
+        if (!token) return;
+
+        const remoteUrl = await this.getRepoUrl();
+        if (!remoteUrl) {
+            vscode.window.showErrorMessage('未找到 Git 远程仓库');
+            return;
+        }
+
+        const parsed = this.parseGitHubUrl(remoteUrl);
+        if (!parsed) {
+            vscode.window.showErrorMessage('不是 GitHub 仓库');
+            return;
+        }
+
+        await this.releasesOps.manageReleases(token, parsed.owner, parsed.repo, folder);
+    }
+
+    /**
+     * 为生成的工作流配置所需的 Secrets（逐个走创建流程）
+     */
+    async setupWorkflowSecrets(folder: vscode.WorkspaceFolder, secretNames: string[]): Promise<void> {
+        if (secretNames.length === 0) return;
+
+        const action = await vscode.window.showInformationMessage(
+            `工作流需要配置 Secret: ${secretNames.join(', ')}`,
+            '立即创建',
+            '稍后配置'
+        );
+        if (action !== '立即创建') return;
+
+        this.currentFolder = folder;
+
+        const remoteUrl = await this.getRepoUrl();
+        if (!remoteUrl) {
+            vscode.window.showErrorMessage('未找到 Git 远程仓库');
+            return;
+        }
+
+        const parsed = this.parseGitHubUrl(remoteUrl);
+        if (!parsed) {
+            vscode.window.showErrorMessage('不是 GitHub 仓库');
+            return;
+        }
+
+        const token = await this.getGitHubToken();
+        if (!token) return;
+
+        for (const name of secretNames) {
+            await this.secretsOps.createSecret(token, parsed.owner, parsed.repo, name);
+        }
+    }
 }
@@ -0,0 +1,437 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitHubApi } from './githubApi';
+import { GitChangelogOps } from './gitChangelogOps';
+import { parseSemVer } from './semver';
+
+interface ReleaseAsset {
+    id: number;
+    name: string;
+    size: number;
+    download_count: number;
+    browser_download_url: string;
+}
+
+interface Release {
+    id: number;
+    tag_name: string;
+    name: string | null;
+    body: string | null;
+    draft: boolean;
+    prerelease: boolean;
+    created_at: string;
+    published_at: string | null;
+    html_url: string;
+    assets: ReleaseAsset[];
+}
+
+type ReleaseAction = 'edit' | 'upload' | 'deleteAssets' | 'copyLink' | 'open' | 'delete';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.tgz': 'application/gzip',
+    '.json': 'application/json',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.sha256': 'text/plain',
+    '.vsix': 'application/zip',
+    '.nupkg': 'application/zip',
+    '.snupkg': 'application/zip'
+};
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function totalDownloads(release: Release): number {
+    return release.assets.reduce((sum, asset) => sum + asset.download_count, 0);
+}
+
+/**
+ * GitHub Releases 管理
+ */
+export class GitHubReleases extends GitHubApi {
+    private changelogOps = new GitChangelogOps();
+
+    async fetchReleases(token: string, owner: string, repo: string): Promise<Release[] | undefined> {
+        const result = await this.githubRequestWithProgress<Release[]>(
+            '正在获取 Releases...',
+            'GET', `/repos/${owner}/${repo}/releases?per_page=100`, token
+        );
+
+        if (!result || result.status !== 200) {
+            if (result) vscode.window.showErrorMessage('获取 Releases 失败');
+            return undefined;
+        }
+
+        return result.data;
+    }
+
+    async manageReleases(token: string, owner: string, repo: string, folder: vscode.WorkspaceFolder): Promise<void> {
+        for (;;) {
+            const releases = await this.fetchReleases(token, owner, repo);
+            if (!releases) return;
+
+            type ReleaseItem = vscode.QuickPickItem & { release?: Release; create?: boolean };
+            const items: ReleaseItem[] = [
+                { label: '$(add) 新建 Release', create: true },
+                { label: `Releases (${releases.length})`, kind: vscode.QuickPickItemKind.Separator },
+                ...releases.map(release => {
+                    const state = release.draft ? '📝 草稿' : release.prerelease ? '🧪 预发布' : '✅ 正式版';
+                    const date = new Date(release.published_at ?? release.created_at).toLocaleDateString();
+                    return {
+                        label: `${release.name || release.tag_name}`,
+                        description: `${release.tag_name} · ${state} · ${date}`,
+                        detail: `附件 ${release.assets.length} 个 · 下载 ${totalDownloads(release)} 次`,
+                        release
+                    };
+                })
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, { placeHolder: `${owner}/${repo} 的 Releases` });
+            if (!selected) return;
+
+            if (selected.create) {
+                await this.createRelease(token, owner, repo, folder, releases);
+            } else if (selected.release) {
+                await this.showReleaseActions(token, owner, repo, folder, selected.release);
+            }
+        }
+    }
+
+    private async showReleaseActions(token: string, owner: string, repo: string, folder: vscode.WorkspaceFolder, release: Release): Promise<void> {
+        const assetItems = release.assets.map(asset => ({
+            label: `$(file-zip) ${asset.name}`,
+            description: `${formatSize(asset.size)} · 下载 ${asset.download_count} 次`,
+            action: 'copyLink' as ReleaseAction,
+            url: asset.browser_download_url
+        }));
+
+        const items: (vscode.QuickPickItem & { action?: ReleaseAction; url?: string })[] = [
+            { label: '$(edit) 编辑 Release', description: '标题、说明、草稿、预发布', action: 'edit' },
+            { label: '$(cloud-upload) 上传附件', action: 'upload' },
+            ...(release.assets.length > 0 ? [{ label: '$(trash) 删除附件', action: 'deleteAssets' as ReleaseAction }] : []),
+            { label: '$(link-external) 在浏览器中打开', action: 'open' },
+            { label: '$(warning) 删除 Release 和 Tag', action: 'delete' },
+            ...(assetItems.length > 0 ? [{ label: '附件（点击复制下载链接）', kind: vscode.QuickPickItemKind.Separator }] : []),
+            ...assetItems
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `${release.name || release.tag_name}（${release.tag_name}）`
+        });
+        if (!selected?.action) return;
+
+        switch (selected.action) {
+            case 'edit':
+                await this.editRelease(token, owner, repo, folder, release);
+                break;
+            case 'upload':
+                await this.uploadAssets(token, owner, repo, release);
+                break;
+            case 'deleteAssets':
+                await this.deleteAssets(token, owner, repo, release);
+                break;
+            case 'copyLink':
+                await vscode.env.clipboard.writeText(selected.url!);
+                vscode.window.showInformationMessage('已复制下载链接');
+                break;
+            case 'open':
+                vscode.env.openExternal(vscode.Uri.parse(release.html_url));
+                break;
+            case 'delete':
+                await this.deleteRelease(token, owner, repo, release);
+                break;
+        }
+    }
+
+    private async createRelease(token: string, owner: string, repo: string, folder: vscode.WorkspaceFolder, releases: Release[]): Promise<void> {
+        const tagsResult = await this.githubRequestWithProgress<{ name: string }[]>(
+            '正在获取远程 Tags...',
+            'GET', `/repos/${owner}/${repo}/tags?per_page=100`, token
+        );
+        if (!tagsResult || tagsResult.status !== 200) {
+            if (tagsResult) vscode.window.showErrorMessage('获取远程 Tags 失败');
+            return;
+        }
+
+        const released = new Set(releases.map(r => r.tag_name));
+        const tags = tagsResult.data.map(t => t.name).filter(name => !released.has(name));
+        if (tags.length === 0) {
+            vscode.window.showWarningMessage('没有尚未创建 Release 的远程 Tag，请先创建并推送 Tag');
+            return;
+        }
+
+        const tag = await vscode.window.showQuickPick(tags, { placeHolder: '选择要创建 Release 的 Tag' });
+        if (!tag) return;
+
+        const name = await vscode.window.showInputBox({ prompt: 'Release 标题', value: tag });
+        if (name === undefined) return;
+
+        const body = await this.pickReleaseNotes(token, owner, repo, folder, tag);
+        if (body === undefined) return;
+
+        // 语义化版本带预发布标识时默认勾选预发布
+        const version = parseSemVer(tag);
+        const flags = await this.pickFlags(false, !!version && version.prerelease.length > 0);
+        if (!flags) return;
+
+        const result = await this.githubRequestWithProgress<Release>(
+            '正在创建 Release...',
+            'POST', `/repos/${owner}/${repo}/releases`, token,
+            { tag_name: tag, name: name || tag, body, ...flags }
+        );
+        if (!result) return;
+        if (result.status !== 201) {
+            vscode.window.showErrorMessage(`创建 Release 失败 (${result.status})`);
+            return;
+        }
+
+        const upload = await vscode.window.showInformationMessage(
+            `✅ 已创建 Release ${name || tag}`,
+            '上传附件'
+        );
+        if (upload === '上传附件') {
+            await this.uploadAssets(token, owner, repo, result.data);
+        }
+    }
+
+    private async editRelease(token: string, owner: string, repo: string, folder: vscode.WorkspaceFolder, release: Release): Promise<void> {
+        const name = await vscode.window.showInputBox({ prompt: 'Release 标题', value: release.name || release.tag_name });
+        if (name === undefined) return;
+
+        const body = await this.pickReleaseNotes(token, owner, repo, folder, release.tag_name, release.body ?? '');
+        if (body === undefined) return;
+
+        const flags = await this.pickFlags(release.draft, release.prerelease);
+        if (!flags) return;
+
+        const result = await this.githubRequestWithProgress<Release>(
+            '正在更新 Release...',
+            'PATCH', `/repos/${owner}/${repo}/releases/${release.id}`, token,
+            { name: name || release.tag_name, body, ...flags }
+        );
+        if (!result) return;
+
+        if (result.status === 200) {
+            vscode.window.showInformationMessage(`✅ 已更新 Release ${name || release.tag_name}`);
+        } else {
+            vscode.window.showErrorMessage(`更新 Release 失败 (${result.status})`);
+        }
+    }
+
+    /**
+     * 选择 Release 说明来源，取消时返回 undefined
+     * @param current 编辑时的现有说明
+     */
+    private async pickReleaseNotes(token: string, owner: string, repo: string, folder: vscode.WorkspaceFolder, tag: string, current?: string): Promise<string | undefined> {
+        type Source = 'keep' | 'tag' | 'commits' | 'github' | 'file' | 'input' | 'empty';
+        const tagMessage = await this.changelogOps.getTagMessage(folder, tag);
+
+        const items: (vscode.QuickPickItem & { value: Source })[] = [
+            ...(current !== undefined ? [{ label: '保留现有说明', value: 'keep' as Source }] : []),
+            ...(tagMessage ? [{ label: '使用附注 Tag 说明', description: tagMessage.split('\n')[0], value: 'tag' as Source }] : []),
+            { label: '根据提交生成', description: '按 Conventional Commits 分组', value: 'commits' },
+            { label: 'GitHub 自动生成', description: '合并的 Pull Request 和贡献者', value: 'github' },
+            { label: '从文件读取...', description: '如 CHANGELOG.md', value: 'file' },
+            { label: '输入一行说明', value: 'input' },
+            { label: '不填写', value: 'empty' }
+        ];
+
+        const source = await vscode.window.showQuickPick(items, { placeHolder: 'Release 说明' });
+        if (!source) return undefined;
+
+        switch (source.value) {
+            case 'keep':
+                return current;
+            case 'tag':
+                return tagMessage;
+            case 'commits':
+                try {
+                    return (await this.changelogOps.buildReleaseNotes(folder, tag, tag)).body;
+                } catch {
+                    vscode.window.showErrorMessage(`本地没有 Tag ${tag}，请先拉取 Tags`);
+                    return undefined;
+                }
+            case 'github': {
+                const result = await this.githubRequestWithProgress<{ body: string }>(
+                    '正在生成发布说明...',
+                    'POST', `/repos/${owner}/${repo}/releases/generate-notes`, token,
+                    { tag_name: tag }
+                );
+                if (!result) return undefined;
+                if (result.status !== 200) {
+                    vscode.window.showErrorMessage(`生成发布说明失败 (${result.status})`);
+                    return undefined;
+                }
+                return result.data.body;
+            }
+            case 'file': {
+                const files = await vscode.window.showOpenDialog({
+                    defaultUri: folder.uri,
+                    canSelectMany: false,
+                    filters: { 'Markdown': ['md', 'markdown', 'txt'] }
+                });
+                if (!files || files.length === 0) return undefined;
+                return fs.readFileSync(files[0].fsPath, 'utf-8');
+            }
+            case 'input':
+                return vscode.window.showInputBox({ prompt: 'Release 说明' });
+            case 'empty':
+                return '';
+        }
+    }
+
+    private async pickFlags(draft: boolean, prerelease: boolean): Promise<{ draft: boolean; prerelease: boolean } | undefined> {
+        const selected = await vscode.window.showQuickPick(
+            [
+                { label: '草稿', description: '不公开，可稍后发布', picked: draft, value: 'draft' },
+                { label: '预发布', description: '标记为非正式版本', picked: prerelease, value: 'prerelease' }
+            ],
+            { canPickMany: true, placeHolder: '选择 Release 状态（都不选为正式版）' }
+        );
+        if (!selected) return undefined;
+
+        return {
+            draft: selected.some(s => s.value === 'draft'),
+            prerelease: selected.some(s => s.value === 'prerelease')
+        };
+    }
+
+    private async uploadAssets(token: string, owner: string, repo: string, release: Release): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: '上传到 Release'
+        });
+        if (!files || files.length === 0) return;
+
+        // 同名附件需要先删除才能重新上传
+        const existing = release.assets.filter(asset => files.some(f => path.basename(f.fsPath) === asset.name));
+        if (existing.length > 0) {
+            const confirm = await vscode.window.showWarningMessage(
+                `以下附件已存在，是否替换？\n${existing.map(a => a.name).join('\n')}`,
+                { modal: true },
+                '替换'
+            );
+            if (confirm !== '替换') return;
+        }
+
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: '正在上传附件...' },
+            async (progress) => {
+                let uploaded = 0;
+                const failed: string[] = [];
+                for (const file of files) {
+                    const name = path.basename(file.fsPath);
+                    progress.report({ message: name });
+                    try {
+                        const old = existing.find(a => a.name === name);
+                        if (old) {
+                            await this.githubRequest('DELETE', `/repos/${owner}/${repo}/releases/assets/${old.id}`, token);
+                        }
+
+                        const contentType = CONTENT_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+                        const { status } = await this.githubUpload(
+                            `/repos/${owner}/${repo}/releases/${release.id}/assets?name=${encodeURIComponent(name)}`,
+                            token, fs.readFileSync(file.fsPath), contentType
+                        );
+                        if (status === 201) {
+                            uploaded++;
+                        } else {
+                            failed.push(`${name} (${status})`);
+                        }
+                    } catch (error: unknown) {
+                        failed.push(`${name} (${(error as Error).message})`);
+                    }
+                    progress.report({ increment: 100 / files.length });
+                }
+
+                if (failed.length > 0) {
+                    vscode.window.showWarningMessage(`已上传 ${uploaded} 个附件，失败: ${failed.join(', ')}`);
+                } else {
+                    vscode.window.showInformationMessage(`✅ 已上传 ${uploaded} 个附件`);
+                }
+            }
+        );
+    }
+
+    private async deleteAssets(token: string, owner: string, repo: string, release: Release): Promise<void> {
+        const selected = await vscode.window.showQuickPick(
+            release.assets.map(asset => ({
+                label: asset.name,
+                description: `${formatSize(asset.size)} · 下载 ${asset.download_count} 次`,
+                asset
+            })),
+            { canPickMany: true, placeHolder: '选择要删除的附件（可多选）' }
+        );
+        if (!selected || selected.length === 0) return;
+
+        const confirm = await vscode.window.showWarningMessage(
+            `确定删除 ${selected.length} 个附件？`,
+            { modal: true },
+            '确定删除'
+        );
+        if (confirm !== '确定删除') return;
+
+        let deleted = 0;
+        const failed: string[] = [];
+        for (const { asset } of selected) {
+            try {
+                const { status } = await this.githubRequest('DELETE', `/repos/${owner}/${repo}/releases/assets/${asset.id}`, token);
+                if (status === 204) {
+                    deleted++;
+                } else {
+                    failed.push(`${asset.name} (${status})`);
+                }
+            } catch (error: unknown) {
+                failed.push(`${asset.name} (${(error as Error).message})`);
+            }
+        }
+
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`已删除 ${deleted} 个附件，失败: ${failed.join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(`✅ 已删除 ${deleted} 个附件`);
+        }
+    }
+
+    private async deleteRelease(token: string, owner: string, repo: string, release: Release): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            `确定删除 Release "${release.name || release.tag_name}" 及远程 Tag ${release.tag_name}？\n附件和下载统计将一并删除，不可恢复。`,
+            { modal: true },
+            '删除 Release 和 Tag',
+            '仅删除 Release'
+        );
+        if (!confirm) return;
+
+        const result = await this.githubRequestWithProgress(
+            '正在删除 Release...',
+            'DELETE', `/repos/${owner}/${repo}/releases/${release.id}`, token
+        );
+        if (!result) return;
+        if (result.status !== 204) {
+            vscode.window.showErrorMessage(`删除 Release 失败 (${result.status})`);
+            return;
+        }
+
+        if (confirm === '仅删除 Release') {
+            vscode.window.showInformationMessage(`✅ 已删除 Release ${release.tag_name}`);
+            return;
+        }
+
+        // 草稿 Release 的 Tag 可能尚未创建；release/v1 这类 Tag 按路径段编码，保留 /
+        const tagPath = release.tag_name.split('/').map(encodeURIComponent).join('/');
+        const { status } = await this.githubRequest(
+            'DELETE', `/repos/${owner}/${repo}/git/refs/tags/${tagPath}`, token
+        );
+        if (status === 204 || status === 422) {
+            vscode.window.showInformationMessage(`✅ 已删除 Release 和远程 Tag ${release.tag_name}（本地 Tag 保留）`);
+        } else {
+            vscode.window.showWarningMessage(`Release 已删除，但删除远程 Tag 失败 (${status})`);
+        }
+    }
+}
@@ -1,25 +1,52 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { GitHubApi } from './githubApi';
 import { SecretStorage } from './secretStorage';
 import sodium from 'libsodium-wrappers-sumo';
+import { findSecretReferences, getCallerProvidedSecrets, inheritsSecrets, SecretReference } from '../workflow/secretReferences';
+
+interface RepoSecret {
+    name: string;
+    updated_at: string;
+}
+
+/** Secrets 列表接口每页最多 100 条 */
+const SECRETS_PAGE_SIZE = 100;
 
 /**
  * GitHub Secrets 管理
  */
 export class GitHubSecrets extends GitHubApi {
     private secretStorage = SecretStorage.getInstance();
-    async listSecrets(token: string, owner: string, repo: string): Promise<void> {
-        const result = await this.githubRequestWithProgress<{ secrets: { name: string; updated_at: string }[] }>(
-            '正在获取 Secrets...',
-            'GET', `/repos/${owner}/${repo}/actions/secrets`, token
-        );
-        
-        if (!result || result.status !== 200) {
-            if (result) vscode.window.showErrorMessage('获取 Secrets 失败，请确认有仓库管理权限');
-            return;
+
+    /**
+     * 获取仓库的全部 Secrets（逐页获取），失败时返回 undefined
+     */
+    async fetchSecrets(token: string, owner: string, repo: string): Promise<RepoSecret[] | undefined> {
+        const secrets: RepoSecret[] = [];
+        for (let page = 1; ; page++) {
+            const result = await this.githubRequestWithProgress<{ total_count: number; secrets: RepoSecret[] }>(
+                page > 1 ? `正在获取 Secrets（第 ${page} 页）...` : '正在获取 Secrets...',
+                'GET', `/repos/${owner}/${repo}/actions/secrets?per_page=${SECRETS_PAGE_SIZE}&page=${page}`, token
+            );
+
+            if (!result || result.status !== 200) {
+                if (result) vscode.window.showErrorMessage('获取 Secrets 失败，请确认有仓库管理权限');
+                return undefined;
+            }
+
+            secrets.push(...result.data.secrets);
+            if (result.data.secrets.length < SECRETS_PAGE_SIZE || secrets.length >= result.data.total_count) {
+                return secrets;
+            }
         }
+    }
+
+    async listSecrets(token: string, owner: string, repo: string): Promise<void> {
+        const secrets = await this.fetchSecrets(token, owner, repo);
+        if (!secrets) return;
 
-        const secrets = result.data.secrets;
         if (secrets.length === 0) {
             vscode.window.showInformationMessage('暂无 Secrets');
             return;
@@ -29,10 +56,10 @@ export class GitHubSecrets extends GitHubApi {
         vscode.window.showQuickPick(items, { placeHolder: '当前仓库的 Secrets（只读）' });
     }
 
-    async createSecret(token: string, owner: string, repo: string): Promise<void> {
+    async createSecret(token: string, owner: string, repo: string, defaultName = 'NUGET_API_KEY'): Promise<void> {
         const name = await vscode.window.showInputBox({
             prompt: 'Secret 名称',
-            value: 'NUGET_API_KEY',
+            value: defaultName,
             validateInput: (v) => /^[A-Z_][A-Z0-9_]*$/.test(v) ? null : '只能使用大写字母、数字和下划线'
         });
         if (!name) return;
@@ -102,17 +129,9 @@ export class GitHubSecrets extends GitHubApi {
     }
 
     async deleteSecret(token: string, owner: string, repo: string): Promise<void> {
-        const result = await this.githubRequestWithProgress<{ secrets: { name: string }[] }>(
-            '正在获取 Secrets...',
-            'GET', `/repos/${owner}/${repo}/actions/secrets`, token
-        );
-        
-        if (!result || result.status !== 200) {
-            if (result) vscode.window.showErrorMessage('获取 Secrets 失败');
-            return;
-        }
+        const secrets = await this.fetchSecrets(token, owner, repo);
+        if (!secrets) return;
 
-        const secrets = result.data.secrets;
         if (secrets.length === 0) {
             vscode.window.showInformationMessage('暂无 Secrets');
             return;
@@ -131,17 +150,129 @@ export class GitHubSecrets extends GitHubApi {
         );
         if (confirm !== '确定删除') return;
 
+        await this.removeSecret(token, owner, repo, selected);
+    }
+
+    private async removeSecret(token: string, owner: string, repo: string, name: string): Promise<boolean> {
         const delResult = await this.githubRequestWithProgress<unknown>(
             '正在删除...',
-            'DELETE', `/repos/${owner}/${repo}/actions/secrets/${selected}`, token
+            'DELETE', `/repos/${owner}/${repo}/actions/secrets/${name}`, token
         );
 
-        if (!delResult) return;
+        if (!delResult) return false;
 
         if (delResult.status === 204) {
-            vscode.window.showInformationMessage(`Secret "${selected}" 已删除`);
-        } else {
-            vscode.window.showErrorMessage('删除失败');
+            vscode.window.showInformationMessage(`Secret "${name}" 已删除`);
+            return true;
+        }
+        vscode.window.showErrorMessage('删除失败');
+        return false;
+    }
+
+    /**
+     * 对比工作流中引用的 secrets.* 与仓库已配置的 Secrets，报告缺少和未使用的 Secret
+     */
+    async checkWorkflowSecrets(token: string, owner: string, repo: string, rootPath: string): Promise<void> {
+        const workflowDir = path.join(rootPath, '.github', 'workflows');
+        const files = fs.existsSync(workflowDir)
+            ? fs.readdirSync(workflowDir).filter(f => /\.ya?ml$/.test(f))
+            : [];
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('未找到 .github/workflows 下的工作流文件');
+            return;
+        }
+
+        // Secret 名称 → 引用位置
+        const references = new Map<string, string[]>();
+        const callerProvided = new Set<string>();
+        // 以 secrets: inherit 调用可复用工作流时无法知道被调用方用到哪些 Secret，不报告未使用的 Secret
+        const inheritingFiles: string[] = [];
+        for (const file of files) {
+            const text = fs.readFileSync(path.join(workflowDir, file), 'utf-8');
+            getCallerProvidedSecrets(text).forEach(name => callerProvided.add(name));
+            if (inheritsSecrets(text)) inheritingFiles.push(file);
+            findSecretReferences(text).forEach((ref: SecretReference) => {
+                if (!references.has(ref.name)) references.set(ref.name, []);
+                references.get(ref.name)!.push(`${file}:${ref.line}`);
+            });
+        }
+
+        for (;;) {
+            const secrets = await this.fetchSecrets(token, owner, repo);
+            if (!secrets) return;
+
+            const existing = new Set(secrets.map(s => s.name));
+            const missing = [...references.keys()].filter(name => !existing.has(name) && !callerProvided.has(name)).sort();
+            const unused = inheritingFiles.length > 0
+                ? []
+                : secrets.filter(s => !references.has(s.name)).map(s => s.name).sort();
+            const inheritHint = inheritingFiles.length > 0
+                ? `（${inheritingFiles.join('、')} 使用 secrets: inherit，不检查未使用的 Secret）`
+                : '';
+
+            if (missing.length === 0 && unused.length === 0) {
+                vscode.window.showInformationMessage(inheritHint
+                    ? `✅ 工作流引用的 ${references.size} 个 Secret 均已配置${inheritHint}`
+                    : `✅ 工作流引用的 ${references.size} 个 Secret 均已配置，没有未使用的 Secret`);
+                return;
+            }
+
+            type ReportItem = vscode.QuickPickItem & { action?: 'create' | 'createAll' | 'delete'; name?: string };
+            const items: ReportItem[] = [];
+
+            if (missing.length > 0) {
+                items.push({ label: `缺少的 Secrets (${missing.length})`, kind: vscode.QuickPickItemKind.Separator });
+                if (missing.length > 1) {
+                    items.push({ label: '$(add) 逐个创建全部缺少的 Secrets', action: 'createAll' });
+                }
+                for (const name of missing) {
+                    const locations = references.get(name)!;
+                    items.push({
+                        label: `$(error) ${name}`,
+                        description: '点击创建',
+                        detail: `引用于 ${locations.slice(0, 3).join('、')}${locations.length > 3 ? ` 等 ${locations.length} 处` : ''}`,
+                        action: 'create',
+                        name
+                    });
+                }
+            }
+
+            if (unused.length > 0) {
+                items.push({ label: `未使用的 Secrets (${unused.length})`, kind: vscode.QuickPickItemKind.Separator });
+                for (const name of unused) {
+                    items.push({
+                        label: `$(circle-slash) ${name}`,
+                        description: '没有工作流引用，点击删除',
+                        action: 'delete',
+                        name
+                    });
+                }
+            }
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: inheritHint
+                    ? `${owner}/${repo}: 缺少 ${missing.length} 个${inheritHint}`
+                    : `${owner}/${repo}: 缺少 ${missing.length} 个，未使用 ${unused.length} 个`,
+                matchOnDetail: true
+            });
+            if (!selected?.action) return;
+
+            if (selected.action === 'createAll') {
+                for (const name of missing) {
+                    await this.createSecret(token, owner, repo, name);
+                }
+            } else if (selected.action === 'create') {
+                await this.createSecret(token, owner, repo, selected.name);
+            } else {
+                const confirm = await vscode.window.showWarningMessage(
+                    `确定删除 Secret "${selected.name}"？\n\n没有工作流引用它，但它可能仍被其他地方使用（如 Dependabot 或外部工具）`,
+                    { modal: true },
+                    '确定删除'
+                );
+                if (confirm === '确定删除') {
+                    await this.removeSecret(token, owner, repo, selected.name!);
+                }
+            }
         }
     }
 
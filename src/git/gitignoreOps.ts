@@ -1,10 +1,13 @@
 import * as vscode from 'vscode';
 import { GitBase } from './gitBase';
+import { DiffPreview } from '../views/diffPreview';
 
 /**
  * .gitignore 相关操作
  */
 export class GitignoreOps extends GitBase {
+    private preview = DiffPreview.getInstance();
+
     private getGitignoreTemplates(): Record<string, string> {
         return {
             'Visual Studio / C#': `# Visual Studio
@@ -119,11 +122,27 @@ $RECYCLE.BIN/
                 content = existingContent + '\n' + content;
             }
 
-            fs.writeFileSync(gitignorePath, content);
+            // 预览差异，确认后写入
+            let targetPath = gitignorePath;
+            const previewAction = await this.preview.confirm(gitignorePath, content);
+            if (!previewAction) return;
+            if (previewAction === 'newFile') {
+                const newPath = await this.preview.pickNewFilePath(gitignorePath);
+                if (!newPath) return;
+                targetPath = newPath;
+            }
+
+            fs.writeFileSync(targetPath, content);
 
-            const doc = await vscode.workspace.openTextDocument(gitignorePath);
+            const doc = await vscode.workspace.openTextDocument(targetPath);
             await vscode.window.showTextDocument(doc);
 
+            // 写入到其他文件时不会生效，无需清理
+            if (targetPath !== gitignorePath) {
+                vscode.window.showInformationMessage(`✅ 已写入 ${path.basename(targetPath)}`);
+                return;
+            }
+
             const isRepo = await this.isGitRepo();
             if (isRepo) {
                 const cleanUp = await vscode.window.showQuickPick(
@@ -0,0 +1,97 @@
+/**
+ * 语义化版本（https://semver.org）解析与递增
+ */
+
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    /** 预发布标识，如 ['beta', '2'] */
+    prerelease: string[];
+}
+
+export type BumpType = 'major' | 'minor' | 'patch' | 'prerelease';
+export type PrereleaseLabel = 'alpha' | 'beta' | 'rc';
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseSemVer(text: string): SemVer | undefined {
+    const match = text.trim().match(SEMVER_PATTERN);
+    if (!match) return undefined;
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split('.') : []
+    };
+}
+
+export function formatSemVer(version: SemVer): string {
+    const core = `${version.major}.${version.minor}.${version.patch}`;
+    return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+/**
+ * 比较版本优先级，返回负数、0 或正数
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+    const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (core !== 0) return core;
+
+    // 没有预发布标识的版本优先级更高
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        const x = a.prerelease[i];
+        const y = b.prerelease[i];
+        if (x === undefined) return -1;
+        if (y === undefined) return 1;
+        if (x === y) continue;
+
+        const xNum = /^\d+$/.test(x);
+        const yNum = /^\d+$/.test(y);
+        if (xNum && yNum) return Number(x) - Number(y);
+        if (xNum) return -1;
+        if (yNum) return 1;
+        return x < y ? -1 : 1;
+    }
+    return 0;
+}
+
+/**
+ * 递增版本
+ * - major / minor / patch：当前是对应级别的预发布版本时直接转为正式版（1.2.0-rc.1 → 1.2.0）
+ * - prerelease：同一标签递增序号（beta.1 → beta.2），切换标签时序号从 1 开始；
+ *   当前是正式版时先按 base 递增再进入预发布（1.2.3 → 1.3.0-alpha.1）
+ */
+export function bumpSemVer(version: SemVer, type: BumpType, label: PrereleaseLabel = 'alpha', base: Exclude<BumpType, 'prerelease'> = 'patch'): SemVer {
+    const isPrerelease = version.prerelease.length > 0;
+    const { major, minor, patch } = version;
+
+    switch (type) {
+        case 'major':
+            return isPrerelease && minor === 0 && patch === 0
+                ? { major, minor, patch, prerelease: [] }
+                : { major: major + 1, minor: 0, patch: 0, prerelease: [] };
+        case 'minor':
+            return isPrerelease && patch === 0
+                ? { major, minor, patch, prerelease: [] }
+                : { major, minor: minor + 1, patch: 0, prerelease: [] };
+        case 'patch':
+            return isPrerelease
+                ? { major, minor, patch, prerelease: [] }
+                : { major, minor, patch: patch + 1, prerelease: [] };
+        case 'prerelease': {
+            if (!isPrerelease) {
+                return { ...bumpSemVer(version, base), prerelease: [label, '1'] };
+            }
+            if (version.prerelease[0] === label) {
+                const number = Number(version.prerelease[1] ?? '0');
+                return { major, minor, patch, prerelease: [label, String((Number.isNaN(number) ? 0 : number) + 1)] };
+            }
+            return { major, minor, patch, prerelease: [label, '1'] };
+        }
+    }
+}
@@ -0,0 +1,211 @@
+import { stringify } from 'yaml';
+import { Pipeline, PipelineJob, PipelineStep, PipelineTool, JobWhen, findOutputJob } from './pipelineModel';
+
+const RUNNER = 'ubuntu-latest';
+const TAG_NOTES_SCRIPT = [
+    'if [ -n "$RELEASE_TAG" ]; then',
+    '  # actions/checkout 会把附注 Tag 覆盖为轻量 Tag，需要重新获取 Tag 对象',
+    '  git fetch --force origin "+refs/tags/$RELEASE_TAG:refs/tags/$RELEASE_TAG"',
+    '  if [ "$(git cat-file -t "$RELEASE_TAG")" = "tag" ]; then',
+    `    git tag -l --format='%(contents)' "$RELEASE_TAG" > RELEASE_NOTES.md`,
+    '  else',
+    '    touch RELEASE_NOTES.md',
+    '  fi',
+    'else',
+    '  touch RELEASE_NOTES.md',
+    'fi'
+].join('\n');
+
+type Step = Record<string, unknown>;
+
+/**
+ * 渲染为 Gitea Actions 工作流（.gitea/workflows）
+ *
+ * 与 GitHub Actions 语法兼容，但 Gitea 只支持 upload/download-artifact@v3，
+ * Release 使用 gitea-release-action 创建
+ */
+export function renderGiteaActions(pipeline: Pipeline): string {
+    const on: Record<string, unknown> = {
+        push: { tags: [`${pipeline.tagPrefix}*`] },
+        workflow_dispatch: pipeline.inputs.length > 0
+            ? {
+                inputs: Object.fromEntries(pipeline.inputs.map(input => [input.name.toLowerCase(), {
+                    description: input.description,
+                    type: 'boolean',
+                    default: input.default
+                }]))
+            }
+            : null
+    };
+
+    // 手动运行的输入以环境变量提供，Tag 触发时取默认值
+    const env: Record<string, string> = {
+        RELEASE_TAG: "${{ startsWith(github.ref, 'refs/tags/') && github.ref_name || '' }}",
+        ...Object.fromEntries(pipeline.inputs.map(input =>
+            [input.name, `\${{ github.event.inputs.${input.name.toLowerCase()} || '${input.default}' }}`]))
+    };
+
+    const jobs: Record<string, unknown> = {};
+    for (const job of pipeline.jobs) {
+        jobs[job.id] = renderJob(pipeline, job);
+    }
+    if (pipeline.release) {
+        jobs.release = renderRelease(pipeline);
+    }
+
+    return stringify({ name: pipeline.name, on, env, jobs }, { lineWidth: 0, nullStr: '' });
+}
+
+function renderJob(pipeline: Pipeline, job: PipelineJob): Record<string, unknown> {
+    const matrixKeys = Object.keys(job.matrix?.[0] ?? {});
+    const rendered: Record<string, unknown> = { name: matrixKeys.length > 0 ? `${job.name} (\${{ matrix.${matrixKeys[0]} }})` : job.name };
+    if (job.needs.length > 0) rendered.needs = job.needs;
+
+    const condition = conditionFor(job.when);
+    if (condition) rendered.if = condition;
+    rendered['runs-on'] = RUNNER;
+
+    if (job.matrix && job.matrix.length > 0) {
+        rendered.strategy = { 'fail-fast': false, matrix: { include: job.matrix } };
+    }
+
+    const env = {
+        ...Object.fromEntries(matrixKeys.map(name => [name, `\${{ matrix.${name} }}`])),
+        ...neededOutputs(pipeline, job.needs)
+    };
+    if (Object.keys(env).length > 0) rendered.env = env;
+
+    const outputSteps: string[] = [];
+    const steps: Step[] = [
+        { name: 'Checkout', uses: 'actions/checkout@v4' },
+        ...job.tools.map(setupStep),
+        ...downloadSteps(pipeline, job.needs),
+        ...job.steps.map(step => {
+            if (step.kind !== 'script' || !step.writesOutputs) return renderStep(step);
+            const id = outputSteps.length === 0 ? 'output' : `output-${outputSteps.length + 1}`;
+            outputSteps.push(id);
+            return renderStep(step, id);
+        })
+    ];
+
+    if (job.outputs.length > 0) {
+        rendered.outputs = Object.fromEntries(job.outputs.map(name =>
+            [name, `\${{ ${outputSteps.map(id => `steps.${id}.outputs.${name}`).join(' || ')} }}`]));
+    }
+
+    if (job.artifacts.length > 0) {
+        // matrix 中的各作业上传到同名构件，下载时合并
+        steps.push({
+            name: 'Upload artifacts',
+            uses: 'actions/upload-artifact@v3',
+            with: { name: job.id, path: job.artifacts.join('\n') }
+        });
+    }
+
+    rendered.steps = steps;
+    return rendered;
+}
+
+function renderRelease(pipeline: Pipeline): Record<string, unknown> {
+    const release = pipeline.release!;
+    const rendered: Record<string, unknown> = {
+        needs: release.needs,
+        if: conditionFor('release'),
+        'runs-on': RUNNER
+    };
+
+    const withValues: Record<string, string> = {
+        body: '${{ steps.notes.outputs.notes }}'
+    };
+    if (release.assets.length > 0) withValues.files = release.assets.join('\n');
+    if (release.prereleaseOutput) {
+        const job = findOutputJob(pipeline, release.needs, release.prereleaseOutput);
+        if (job) withValues.prerelease = `\${{ needs.${job.id}.outputs.${release.prereleaseOutput} == 'true' }}`;
+    }
+
+    rendered.steps = [
+        { name: 'Checkout', uses: 'actions/checkout@v4' },
+        {
+            name: 'Read release notes from tag',
+            id: 'notes',
+            shell: 'bash',
+            run: `${TAG_NOTES_SCRIPT}\n{ echo 'notes<<EOF'; cat RELEASE_NOTES.md; echo; echo 'EOF'; } >> "$GITHUB_OUTPUT"`
+        },
+        ...downloadSteps(pipeline, release.needs),
+        { name: 'Create Gitea Release', uses: 'akkuman/gitea-release-action@v1', with: withValues }
+    ];
+    return rendered;
+}
+
+function renderStep(step: PipelineStep, id?: string): Step {
+    if (step.kind === 'release-notes') {
+        return { name: 'Read release notes from tag', shell: 'bash', run: TAG_NOTES_SCRIPT };
+    }
+
+    const rendered: Step = { name: step.name, ...(id ? { id } : {}), shell: step.shell ?? 'bash' };
+    rendered.run = step.writesOutputs ? `PIPELINE_OUTPUT="$GITHUB_OUTPUT"\n${step.run}` : step.run;
+    if (step.secrets && step.secrets.length > 0) {
+        rendered.env = Object.fromEntries(step.secrets.map(name => [name, `\${{ secrets.${name} }}`]));
+    }
+    return rendered;
+}
+
+function setupStep(tool: PipelineTool): Step {
+    if (tool.kind === 'node') {
+        return { name: 'Setup Node.js', uses: 'actions/setup-node@v4', with: { 'node-version': tool.version, cache: 'npm' } };
+    }
+
+    const withValues: Record<string, string> = {};
+    if (tool.globalJsonFile) withValues['global-json-file'] = tool.globalJsonFile;
+    if (tool.versions.length > 0) withValues['dotnet-version'] = tool.versions.join('\n');
+    return { name: 'Setup .NET', uses: 'actions/setup-dotnet@v4', with: withValues };
+}
+
+/**
+ * 下载上游作业的构件，还原到上传时的相对位置
+ */
+function downloadSteps(pipeline: Pipeline, needs: string[]): Step[] {
+    return pipeline.jobs
+        .filter(job => needs.includes(job.id) && job.artifacts.length > 0)
+        .map(job => ({
+            name: `Download ${job.name} artifacts`,
+            uses: 'actions/download-artifact@v3',
+            with: { name: job.id, path: artifactRoot(job.artifacts) }
+        }));
+}
+
+function neededOutputs(pipeline: Pipeline, needs: string[]): Record<string, string> {
+    return Object.fromEntries(pipeline.jobs
+        .filter(job => needs.includes(job.id))
+        .flatMap(job => job.outputs.map(name => [name, `\${{ needs.${job.id}.outputs.${name} }}`])));
+}
+
+function conditionFor(when: JobWhen): string | undefined {
+    switch (when) {
+        case 'always':
+            return undefined;
+        case 'publish':
+            return "${{ github.event.inputs.dry_run != 'true' }}";
+        case 'release':
+            return "${{ startsWith(github.ref, 'refs/tags/') && github.event.inputs.dry_run != 'true' }}";
+    }
+}
+
+/**
+ * upload-artifact 以所有路径的最近公共目录为根保存文件
+ */
+function artifactRoot(paths: string[]): string {
+    const dirs = paths.map(p => {
+        const segments = p.replace(/^\.\//, '').split('/');
+        const wildcard = segments.findIndex(s => /[*?[]/.test(s));
+        if (wildcard >= 0) return segments.slice(0, wildcard);
+        // 以 / 结尾的是目录，否则是单个文件
+        return p.endsWith('/') ? segments.filter(Boolean) : segments.slice(0, -1);
+    });
+
+    const common: string[] = [];
+    for (let i = 0; dirs.every(d => i < d.length && d[i] === dirs[0][i]); i++) {
+        common.push(dirs[0][i]);
+    }
+    return common.length > 0 ? common.join('/') : '.';
+}
@@ -0,0 +1,174 @@
+import { stringify } from 'yaml';
+import { Pipeline, PipelineJob, PipelineStep, PipelineTool, JobWhen } from './pipelineModel';
+
+const RELEASE_CLI_IMAGE = 'registry.gitlab.com/gitlab-org/release-cli:latest';
+const DOTNET_INSTALL = 'curl -sSL https://dot.net/v1/dotnet-install.sh | bash /dev/stdin --install-dir /usr/share/dotnet';
+const OUTPUT_FILE = 'pipeline.env';
+
+/**
+ * 渲染为 .gitlab-ci.yml
+ *
+ * - 手动运行的输入为带选项的 CI/CD 变量，在 Run pipeline 页面填写
+ * - Secret 为项目的 CI/CD 变量，直接作为环境变量使用
+ * - 作业输出通过 dotenv 报告传给 needs 中的下游作业
+ * - Release 附件先上传到通用软件包仓库，再由 release-cli 以链接形式添加
+ */
+export function renderGitLabCi(pipeline: Pipeline): string {
+    const stages: string[] = [...new Set(pipeline.jobs.map(job => job.stage))];
+    if (pipeline.release) stages.push('release');
+
+    const root: Record<string, unknown> = {
+        workflow: {
+            name: pipeline.name,
+            rules: [
+                { if: `$CI_COMMIT_TAG =~ /^${escapeRegex(pipeline.tagPrefix)}/` },
+                { if: '$CI_PIPELINE_SOURCE == "web"' }
+            ]
+        },
+        stages
+    };
+
+    if (pipeline.inputs.length > 0) {
+        root.variables = Object.fromEntries(pipeline.inputs.map(input => [input.name, {
+            value: String(input.default),
+            options: input.default ? ['true', 'false'] : ['false', 'true'],
+            description: input.description
+        }]));
+    }
+
+    for (const job of pipeline.jobs) {
+        root[job.id] = renderJob(job);
+    }
+
+    if (pipeline.release) {
+        root.release = {
+            stage: 'release',
+            image: RELEASE_CLI_IMAGE,
+            needs: pipeline.release.needs,
+            rules: rulesFor('release'),
+            script: [
+                ...(pipeline.release.assets.length > 0 ? ['apk add --no-cache curl'] : []),
+                releaseScript(pipeline.release.assets)
+            ]
+        };
+    }
+
+    return stringify(root, { lineWidth: 0, nullStr: '' });
+}
+
+function renderJob(job: PipelineJob): Record<string, unknown> {
+    const rendered: Record<string, unknown> = {
+        stage: job.stage,
+        image: imageFor(job.tools)
+    };
+
+    if (job.needs.length > 0) rendered.needs = job.needs;
+    if (job.matrix && job.matrix.length > 0) rendered.parallel = { matrix: job.matrix };
+
+    const rules = rulesFor(job.when);
+    if (rules) rendered.rules = rules;
+
+    const setup = job.tools.flatMap(setupCommands);
+    if (setup.length > 0) rendered.before_script = setup;
+
+    rendered.script = [
+        'export RELEASE_TAG="${CI_COMMIT_TAG:-}"',
+        ...(job.outputs.length > 0 ? [`export PIPELINE_OUTPUT=${OUTPUT_FILE}`] : []),
+        ...job.steps.flatMap(renderStep)
+    ];
+
+    if (job.artifacts.length > 0 || job.outputs.length > 0) {
+        rendered.artifacts = {
+            ...(job.artifacts.length > 0 ? { paths: job.artifacts } : {}),
+            ...(job.outputs.length > 0 ? { reports: { dotenv: OUTPUT_FILE } } : {}),
+            expire_in: '1 week'
+        };
+    }
+    return rendered;
+}
+
+function renderStep(step: PipelineStep): string[] {
+    if (step.kind === 'release-notes') {
+        return [`printf '%s\\n' "\${CI_COMMIT_TAG_MESSAGE:-}" > RELEASE_NOTES.md`];
+    }
+    if (step.shell === 'pwsh') {
+        // 每行单独交给 pwsh 执行，单引号避免 sh 展开 $
+        return step.run.split('\n').filter(line => line.trim()).map(line => `pwsh -NoProfile -Command '${line.replace(/'/g, `'\\''`)}'`);
+    }
+    return [step.run];
+}
+
+function rulesFor(when: JobWhen): Record<string, string>[] | undefined {
+    switch (when) {
+        case 'always':
+            return undefined;
+        case 'publish':
+            return [{ if: '$DRY_RUN != "true"' }];
+        case 'release':
+            return [{ if: '$CI_COMMIT_TAG && $DRY_RUN != "true"' }];
+    }
+}
+
+/**
+ * .NET 使用 SDK 镜像中的最高版本，其余版本和 global.json 指定的版本用 dotnet-install 安装
+ */
+function imageFor(tools: PipelineTool[]): string {
+    const node = tools.find(t => t.kind === 'node');
+    if (node?.kind === 'node') return `node:${node.version}`;
+
+    const dotnet = tools.find(t => t.kind === 'dotnet');
+    if (dotnet?.kind === 'dotnet') {
+        const channel = highestChannel(dotnet.versions);
+        return `mcr.microsoft.com/dotnet/sdk:${channel ?? 'latest'}`;
+    }
+    return 'alpine:latest';
+}
+
+function setupCommands(tool: PipelineTool): string[] {
+    if (tool.kind !== 'dotnet') return [];
+
+    const image = highestChannel(tool.versions);
+    const commands: string[] = [];
+    for (const version of tool.versions) {
+        if (/^\d+\.\d+\.\d+$/.test(version)) {
+            commands.push(`${DOTNET_INSTALL} --version ${version}`);
+        } else if (toChannel(version) !== image) {
+            commands.push(`${DOTNET_INSTALL} --channel ${toChannel(version)}`);
+        }
+    }
+    if (tool.globalJsonFile) {
+        commands.push(`${DOTNET_INSTALL} --jsonfile ${tool.globalJsonFile}`);
+    }
+    return commands;
+}
+
+function highestChannel(versions: string[]): string | undefined {
+    const channels = versions.map(toChannel).filter((c): c is string => !!c);
+    return channels.sort((a, b) => Number(b.split('.')[0]) - Number(a.split('.')[0]) || Number(b.split('.')[1]) - Number(a.split('.')[1]))[0];
+}
+
+function toChannel(version: string): string | undefined {
+    const match = version.match(/^(\d+)\.(\d+)/);
+    return match ? `${match[1]}.${match[2]}` : undefined;
+}
+
+function releaseScript(assets: string[]): string {
+    const lines = ['set --'];
+    if (assets.length > 0) {
+        lines.push(
+            `for file in ${assets.join(' ')}; do`,
+            '  [ -f "$file" ] || continue',
+            '  name="$(basename "$file")"',
+            '  url="${CI_API_V4_URL}/projects/${CI_PROJECT_ID}/packages/generic/${CI_PROJECT_NAME}/${CI_COMMIT_TAG}/${name}"',
+            '  curl --fail --silent --show-error --header "JOB-TOKEN: ${CI_JOB_TOKEN}" --upload-file "$file" "$url"',
+            '  set -- "$@" --assets-link "{\\"name\\":\\"${name}\\",\\"url\\":\\"${url}\\"}"',
+            'done'
+        );
+    }
+    lines.push('release-cli create --name "$CI_COMMIT_TAG" --tag-name "$CI_COMMIT_TAG" --description "${CI_COMMIT_TAG_MESSAGE:-$CI_COMMIT_TAG}" "$@"');
+    return lines.join('\n');
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
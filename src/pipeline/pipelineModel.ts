@@ -0,0 +1,99 @@
+/**
+ * 与平台无关的发布流水线模型，由生成器构建，再渲染为 GitLab CI 或 Gitea Actions
+ *
+ * 脚本中的约定（由各平台渲染器提供）：
+ * - $RELEASE_TAG：触发的 Tag 名称，不是 Tag 触发时为空
+ * - 手动运行的输入、matrix 变量、上游作业的输出都以同名环境变量提供
+ * - 写入输出：echo "NAME=value" >> "$PIPELINE_OUTPUT"
+ * - 引用的 Secret 以同名环境变量提供（GitLab 中为 CI/CD 变量）
+ * - 所有作业都在 Linux Runner 上运行
+ */
+
+export type PipelinePlatform = 'github' | 'gitlab' | 'gitea';
+
+/**
+ * 作业的运行条件
+ * - always：每次运行
+ * - publish：非测试模式（Tag 触发或手动运行）
+ * - release：Tag 触发且非测试模式
+ */
+export type JobWhen = 'always' | 'publish' | 'release';
+
+export interface Pipeline {
+    name: string;
+    /** 触发发布的 Tag 前缀，如 v */
+    tagPrefix: string;
+    /** 手动运行时的布尔输入 */
+    inputs: PipelineInput[];
+    jobs: PipelineJob[];
+    release?: PipelineRelease;
+}
+
+export interface PipelineInput {
+    /** 环境变量名，如 DRY_RUN；Gitea 中的输入名为其小写形式 */
+    name: string;
+    description: string;
+    default: boolean;
+}
+
+export interface PipelineJob {
+    id: string;
+    name: string;
+    stage: 'build' | 'publish';
+    when: JobWhen;
+    needs: string[];
+    tools: PipelineTool[];
+    /** 每项为一组 matrix 变量 */
+    matrix?: Record<string, string>[];
+    steps: PipelineStep[];
+    /** 传给下游作业和 Release 的文件（相对工作目录的路径或通配符） */
+    artifacts: string[];
+    /** 写入 $PIPELINE_OUTPUT 的变量名 */
+    outputs: string[];
+}
+
+export type PipelineTool =
+    | { kind: 'dotnet'; versions: string[]; globalJsonFile?: string }
+    | { kind: 'node'; version: string };
+
+export type PipelineStep =
+    | {
+        kind: 'script';
+        name: string;
+        /** 多行脚本，shell 为 pwsh 时每行单独执行 */
+        run: string;
+        shell?: 'bash' | 'pwsh';
+        secrets?: string[];
+        /** 是否写入 $PIPELINE_OUTPUT */
+        writesOutputs?: boolean;
+    }
+    /** 把 Tag 说明写入 RELEASE_NOTES.md */
+    | { kind: 'release-notes' };
+
+export interface PipelineRelease {
+    needs: string[];
+    /** 作为 Release 附件的文件 */
+    assets: string[];
+    /** 值为 true 时标记为预发布的上游输出变量 */
+    prereleaseOutput?: string;
+}
+
+export const PIPELINE_FILES: Record<Exclude<PipelinePlatform, 'github'>, string> = {
+    gitlab: '.gitlab-ci.yml',
+    gitea: '.gitea/workflows/release.yml'
+};
+
+/**
+ * 流水线中引用的所有 Secret
+ */
+export function collectPipelineSecrets(pipeline: Pipeline): string[] {
+    const secrets = pipeline.jobs.flatMap(job => job.steps.flatMap(step => step.kind === 'script' ? step.secrets ?? [] : []));
+    return [...new Set(secrets)];
+}
+
+/**
+ * 产出指定输出变量的上游作业
+ */
+export function findOutputJob(pipeline: Pipeline, needs: string[], output: string): PipelineJob | undefined {
+    return pipeline.jobs.find(job => needs.includes(job.id) && job.outputs.includes(output));
+}
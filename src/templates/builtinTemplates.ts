@@ -0,0 +1,655 @@
+/**
+ * 内置工作流模板
+ *
+ * 与用户模板格式相同：--- 之间是 YAML 头信息，之后是模板正文。
+ * 在 .lyugitex/templates 或 lyugitex.templates.directories 中放置同 id 的模板即可覆盖。
+ */
+
+/** 检出、安装 SDK、缓存和私有源凭据，.NET 发布模板的各作业共用 */
+const DOTNET_SETUP_STEPS = `      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Setup .NET
+        uses: actions/setup-dotnet@v4
+        with:
+{{#if globalJsonFile}}
+          global-json-file: {{ globalJsonFile }}
+{{/if}}
+{{#if dotnetVersions}}
+          dotnet-version: |
+{{#each dotnetVersions}}
+            {{ this }}
+{{/each}}
+{{/if}}
+{{#if nugetCache}}
+
+      - name: Cache NuGet packages
+        uses: actions/cache@v4
+        with:
+          path: ~/.nuget/packages
+          key: nuget-\${{ runner.os }}-\${{ hashFiles({{ nugetCacheKeyFiles }}) }}
+          restore-keys: |
+            nuget-\${{ runner.os }}-
+{{/if}}
+{{#if npmCacheKeyFiles}}
+
+      - name: Cache npm packages
+        uses: actions/cache@v4
+        with:
+          path: ~/.npm
+          key: npm-\${{ runner.os }}-\${{ hashFiles({{ npmCacheKeyFiles }}) }}
+          restore-keys: |
+            npm-\${{ runner.os }}-
+{{/if}}
+{{#if privateFeeds}}
+
+      - name: Configure NuGet feeds
+        shell: bash
+        run: |
+{{#each privateFeeds}}
+{{#if inNuGetConfig}}
+          dotnet nuget update source {{ name }} --username {{#if kind == 'github'}}\${{ github.actor }}{{else}}ci{{/if}} --password \${{ secrets.{{ secret }} }} --store-password-in-clear-text
+{{else}}
+          dotnet nuget add source {{ url }} --name {{ name }} --username {{#if kind == 'github'}}\${{ github.actor }}{{else}}ci{{/if}} --password \${{ secrets.{{ secret }} }} --store-password-in-clear-text
+{{/if}}
+{{/each}}
+{{/if}}`;
+
+const DECODE_CERTIFICATE_STEP = `
+      - name: Decode signing certificate
+        shell: pwsh
+        run: |
+          $path = Join-Path $env:RUNNER_TEMP 'signing.pfx'
+          [IO.File]::WriteAllBytes($path, [Convert]::FromBase64String($env:SIGNING_CERTIFICATE))
+          "SIGNING_CERTIFICATE_PATH=$path" >> $env:GITHUB_ENV
+        env:
+          SIGNING_CERTIFICATE: \${{ secrets.SIGNING_CERTIFICATE }}`;
+
+const SIGN_BINARIES_STEP = `
+      - name: Sign binaries
+        shell: pwsh
+        run: |
+          # 只签名尚未签名的文件（跳过已由 Microsoft 签名的运行时文件）
+          $files = Get-ChildItem ./publish -Recurse -Include *.exe, *.dll |
+            Where-Object { (Get-AuthenticodeSignature $_.FullName).Status -ne 'Valid' }
+          if (-not $files) { return }
+{{#if signMethod == 'azure'}}
+          azuresigntool sign -kvu $env:AZURE_KEY_VAULT_URL -kvc $env:AZURE_KEY_VAULT_CERTIFICATE \`
+            -kvi $env:AZURE_CLIENT_ID -kvs $env:AZURE_CLIENT_SECRET -kvt $env:AZURE_TENANT_ID \`
+            -tr {{ timestampUrl }} -td sha256 $files.FullName
+{{else}}
+          $signtool = Get-ChildItem "\${env:ProgramFiles(x86)}\\Windows Kits\\10\\bin\\*\\x64\\signtool.exe" |
+            Sort-Object FullName -Descending | Select-Object -First 1
+          & $signtool.FullName sign /f $env:SIGNING_CERTIFICATE_PATH /p $env:SIGNING_CERTIFICATE_PASSWORD \`
+            /fd SHA256 /tr {{ timestampUrl }} /td SHA256 $files.FullName
+{{/if}}
+          if ($LASTEXITCODE -ne 0) { exit $LASTEXITCODE }
+        env:
+{{#if signMethod == 'azure'}}
+          AZURE_KEY_VAULT_URL: \${{ secrets.AZURE_KEY_VAULT_URL }}
+          AZURE_KEY_VAULT_CERTIFICATE: \${{ secrets.AZURE_KEY_VAULT_CERTIFICATE }}
+          AZURE_CLIENT_ID: \${{ secrets.AZURE_CLIENT_ID }}
+          AZURE_CLIENT_SECRET: \${{ secrets.AZURE_CLIENT_SECRET }}
+          AZURE_TENANT_ID: \${{ secrets.AZURE_TENANT_ID }}
+{{else}}
+          SIGNING_CERTIFICATE_PASSWORD: \${{ secrets.SIGNING_CERTIFICATE_PASSWORD }}
+{{/if}}`;
+
+const REMOVE_CERTIFICATE_STEP = `
+      - name: Remove signing certificate
+        if: always()
+        shell: pwsh
+        run: Remove-Item -Force -ErrorAction SilentlyContinue (Join-Path $env:RUNNER_TEMP 'signing.pfx')`;
+
+const DOTNET_RELEASE = `---
+id: dotnet-release
+name: .NET Release
+description: NuGet 包 / ZIP 压缩包发布
+output: release.yml
+# 以下变量由生成器根据项目自动提供：
+#   dotnetVersions    .NET SDK 版本列表（global.json 固定版本时为空）
+#   globalJsonFile    global.json 路径，没有时为空
+#   buildTargets      还原/构建的解决方案或项目列表
+#   publishNuget      是否发布 NuGet 包
+#   publishZip        是否发布 ZIP 压缩包
+#   nugetProjects     NuGet 项目列表 [{ path, name, packageId }]
+#   zipProjects       ZIP 项目列表 [{ path, name, packageId, publishArgs }]
+#                     publishArgs 为 ReadyToRun / 裁剪等 dotnet publish 参数，可能为空
+#   runtimes          ZIP 目标平台列表
+#   zipTargets        ZIP 项目 × 目标平台 [{ name, path, runtime, publishArgs }]
+#   runtimeMatrix     是否每个 ZIP 目标单独一个 matrix 作业（publish-zip），由 release 作业汇总附件
+#   nugetFeeds        NuGet 发布源 [{ kind, name, url, secret, pushSource, inNuGetConfig, symbols }]
+#                     kind：nuget.org / github / azure / custom
+#   privateFeeds      需要注册凭据的私有源（同 nugetFeeds 的项）
+#   githubPackages    是否发布到 GitHub Packages（需要 packages: write）
+#   symbolPackages    是否生成 .snupkg 符号包
+#   nugetApiKeySecret / nugetSource  第一个源的 Secret 与地址（兼容旧版自定义模板）
+#   nugetCache        是否缓存 NuGet 包
+#   nugetCacheKeyFiles NuGet 缓存键的 hashFiles 参数，如 '**/packages.lock.json'
+#   npmCacheKeyFiles  npm 缓存键的 hashFiles 参数，不缓存 npm 时为空
+#   lockedMode        是否以 --locked-mode 还原（RestorePackagesWithLockFile）
+#   testProjects      发布前运行的测试项目 [{ path, name, noBuild }]，为空时不运行测试
+#                     noBuild：项目在构建的解决方案中，已随之构建，dotnet test 加 --no-build
+#   testFilter        dotnet test --filter 表达式，可能为空
+#   testNoBuild       所有测试项目都已随解决方案构建（兼容旧版自定义模板）
+#   coverageThreshold 行覆盖率阈值（%），为 0 时只输出覆盖率摘要
+#   runner            运行环境（签名程序文件时为 windows-latest）
+#   zipRunner         publish-zip 作业的运行环境
+#   signMethod        签名方式：none / pfx / nuget / azure
+#   signBinaries      是否签名发布的 .exe / .dll
+#   signPackages      是否签名 NuGet 包
+#   signCertificateFile 是否需要从 Secrets 解码 PFX 证书
+#   timestampUrl      时间戳服务器地址
+# 覆盖模板时可在 variables 中声明额外变量，生成时会提示输入
+variables: []
+---
+name: Release
+
+on:
+  push:
+    tags:
+      - 'v*'
+  workflow_dispatch:
+    inputs:
+      dry_run:
+        description: '测试模式（只构建不发布）'
+        type: boolean
+        default: false
+
+permissions:
+  contents: write
+{{#if githubPackages}}
+  packages: write
+{{/if}}
+
+jobs:
+  build-and-publish:
+    runs-on: {{ runner }}
+
+    steps:
+${DOTNET_SETUP_STEPS}
+
+      - name: Restore
+        shell: bash
+        run: |
+{{#each buildTargets}}
+          dotnet restore {{ this }}{{#if lockedMode}} --locked-mode{{/if}}
+{{/each}}
+
+      - name: Build
+        shell: bash
+        run: |
+{{#each buildTargets}}
+          dotnet build {{ this }} -c Release --no-restore
+{{/each}}
+{{! 测试失败或覆盖率低于阈值时作业失败，不会推送包或创建 Release }}
+{{#each testProjects}}
+
+      - name: Test {{ name }}
+        run: dotnet test {{ path }} -c Release{{#if noBuild}} --no-build{{/if}}{{#if testFilter}} --filter "{{ testFilter }}"{{/if}} --logger "trx;LogFilePrefix={{ name }}" --collect:"XPlat Code Coverage" --results-directory ./TestResults
+{{/each}}
+{{#if testProjects}}
+
+      - name: Test summary
+        if: always()
+        shell: pwsh
+        run: |
+          $summary = @('## 测试结果', '', '| 测试结果文件 | 总数 | 通过 | 失败 | 未执行 |', '| --- | --- | --- | --- | --- |')
+          $failed = @()
+          foreach ($file in Get-ChildItem ./TestResults -Filter *.trx -Recurse -ErrorAction SilentlyContinue) {
+            [xml]$trx = Get-Content $file.FullName
+            $counters = $trx.TestRun.ResultSummary.Counters
+            $summary += "| $($file.BaseName) | $($counters.total) | $($counters.passed) | $($counters.failed) | $($counters.notExecuted) |"
+            $failed += $trx.TestRun.Results.UnitTestResult | Where-Object { $_.outcome -eq 'Failed' } | ForEach-Object { "- \`\`$($_.testName)\`\`" }
+          }
+          if ($failed) { $summary += @('', '### 失败的测试', '') + $failed }
+
+          $reports = Get-ChildItem ./TestResults -Filter coverage.cobertura.xml -Recurse -ErrorAction SilentlyContinue
+          if ($reports) {
+            dotnet tool install --global dotnet-reportgenerator-globaltool
+            reportgenerator "-reports:$($reports.FullName -join ';')" -targetdir:./coverage '-reporttypes:MarkdownSummaryGithub;Cobertura'
+            $summary += @('') + (Get-Content ./coverage/SummaryGithub.md)
+          } else {
+            $summary += @('', '未找到覆盖率文件，测试项目需要引用 coverlet.collector')
+          }
+          $summary | Add-Content $env:GITHUB_STEP_SUMMARY
+
+      - name: Upload test results
+        if: always()
+        uses: actions/upload-artifact@v4
+        with:
+          name: test-results
+          path: |
+            ./TestResults/**/*.trx
+            ./coverage
+          if-no-files-found: ignore
+{{/if}}
+{{#if testProjects && coverageThreshold}}
+
+      - name: Check coverage threshold
+        shell: pwsh
+        run: |
+          if (-not (Test-Path ./coverage/Cobertura.xml)) {
+            '::error::未生成覆盖率报告，无法检查覆盖率阈值'
+            exit 1
+          }
+          [xml]$coverage = Get-Content ./coverage/Cobertura.xml
+          $rate = [math]::Round([double]$coverage.coverage.'line-rate' * 100, 2)
+          if ($rate -lt {{ coverageThreshold }}) {
+            "::error::行覆盖率 $rate% 低于阈值 {{ coverageThreshold }}%"
+            exit 1
+          }
+          "行覆盖率 $rate%（阈值 {{ coverageThreshold }}%）"
+{{/if}}
+{{#each nugetProjects}}
+
+      - name: Pack {{ name }}
+        run: dotnet pack {{ path }} -c Release -o ./nupkgs{{#if symbolPackages}} -p:IncludeSymbols=true -p:SymbolPackageFormat=snupkg{{/if}}
+{{/each}}
+{{! 按运行时并行发布时，ZIP 的发布、签名和压缩都在 publish-zip 作业中进行 }}
+{{#if !runtimeMatrix}}
+{{#each zipProjects}}
+{{#each runtimes}}
+
+      - name: Publish {{ name }} ({{ this }})
+        run: dotnet publish {{ path }} -c Release -r {{ this }} --self-contained -p:PublishSingleFile=true{{#if publishArgs}} {{ publishArgs }}{{/if}} -o ./publish/{{ name }}-{{ this }}
+{{/each}}
+{{/each}}
+{{/if}}
+{{#if signCertificateFile && signPackages || signCertificateFile && !runtimeMatrix}}
+${DECODE_CERTIFICATE_STEP}
+{{/if}}
+{{#if signMethod == 'azure' && signPackages || signMethod == 'azure' && signBinaries && !runtimeMatrix}}
+
+      - name: Install signing tools
+        shell: bash
+        run: |
+{{#if signBinaries && !runtimeMatrix}}
+          dotnet tool install --global AzureSignTool
+{{/if}}
+{{#if signPackages}}
+          dotnet tool install --global NuGetKeyVaultSignTool
+{{/if}}
+{{/if}}
+{{#if signBinaries && !runtimeMatrix}}
+${SIGN_BINARIES_STEP}
+{{/if}}
+{{#if signPackages}}
+
+      - name: Sign NuGet packages
+        shell: pwsh
+        run: |
+          foreach ($package in Get-ChildItem ./nupkgs/*.nupkg) {
+{{#if signMethod == 'azure'}}
+            NuGetKeyVaultSignTool sign $package.FullName --file-digest sha256 \`
+              --timestamp-rfc3161 {{ timestampUrl }} --timestamp-digest sha256 \`
+              --azure-key-vault-url $env:AZURE_KEY_VAULT_URL --azure-key-vault-certificate $env:AZURE_KEY_VAULT_CERTIFICATE \`
+              --azure-key-vault-client-id $env:AZURE_CLIENT_ID --azure-key-vault-client-secret $env:AZURE_CLIENT_SECRET \`
+              --azure-key-vault-tenant-id $env:AZURE_TENANT_ID
+{{else}}
+            dotnet nuget sign $package.FullName --certificate-path $env:SIGNING_CERTIFICATE_PATH \`
+              --certificate-password $env:SIGNING_CERTIFICATE_PASSWORD --timestamper {{ timestampUrl }} --overwrite
+{{/if}}
+            if ($LASTEXITCODE -ne 0) { exit $LASTEXITCODE }
+          }
+        env:
+{{#if signMethod == 'azure'}}
+          AZURE_KEY_VAULT_URL: \${{ secrets.AZURE_KEY_VAULT_URL }}
+          AZURE_KEY_VAULT_CERTIFICATE: \${{ secrets.AZURE_KEY_VAULT_CERTIFICATE }}
+          AZURE_CLIENT_ID: \${{ secrets.AZURE_CLIENT_ID }}
+          AZURE_CLIENT_SECRET: \${{ secrets.AZURE_CLIENT_SECRET }}
+          AZURE_TENANT_ID: \${{ secrets.AZURE_TENANT_ID }}
+{{else}}
+          SIGNING_CERTIFICATE_PASSWORD: \${{ secrets.SIGNING_CERTIFICATE_PASSWORD }}
+{{/if}}
+{{/if}}
+{{#if signCertificateFile && signPackages || signCertificateFile && !runtimeMatrix}}
+${REMOVE_CERTIFICATE_STEP}
+{{/if}}
+{{#each nugetFeeds}}
+
+      - name: Push to {{ name }}
+        if: \${{ !inputs.dry_run }}
+        shell: bash
+        run: |
+{{#each nugetProjects}}
+          dotnet nuget push ./nupkgs/{{ packageId }}.*.nupkg --source {{ pushSource }} --api-key {{#if kind == 'azure'}}az{{else}}\${{ secrets.{{ secret }} }}{{/if}} --skip-duplicate{{#if symbolPackages && !symbols}} --no-symbols{{/if}}
+{{/each}}
+{{/each}}
+{{#if runtimeMatrix}}
+{{#if publishNuget}}
+
+      - name: Upload NuGet packages
+        uses: actions/upload-artifact@v4
+        with:
+          name: nupkgs
+          path: ./nupkgs
+{{/if}}
+
+  publish-zip:
+    name: Publish \${{ matrix.name }} (\${{ matrix.runtime }})
+    runs-on: {{ zipRunner }}
+    strategy:
+      fail-fast: false
+      matrix:
+        include:
+{{#each zipTargets}}
+          - name: {{ name }}
+            project: {{ path }}
+            runtime: {{ runtime }}
+            args: '{{ publishArgs }}'
+{{/each}}
+
+    steps:
+${DOTNET_SETUP_STEPS}
+
+      - name: Publish
+        run: dotnet publish \${{ matrix.project }} -c Release -r \${{ matrix.runtime }} --self-contained -p:PublishSingleFile=true \${{ matrix.args }} -o ./publish/\${{ matrix.name }}-\${{ matrix.runtime }}
+{{#if signBinaries}}
+{{#if signCertificateFile}}
+${DECODE_CERTIFICATE_STEP}
+{{/if}}
+{{#if signMethod == 'azure'}}
+
+      - name: Install signing tools
+        run: dotnet tool install --global AzureSignTool
+{{/if}}
+${SIGN_BINARIES_STEP}
+{{#if signCertificateFile}}
+${REMOVE_CERTIFICATE_STEP}
+{{/if}}
+{{/if}}
+
+      - name: Zip
+        shell: pwsh
+        run: Compress-Archive -Path ./publish/\${{ matrix.name }}-\${{ matrix.runtime }}/* -DestinationPath ./publish/\${{ matrix.name }}-\${{ matrix.runtime }}.zip
+
+      - name: Upload ZIP
+        uses: actions/upload-artifact@v4
+        with:
+          name: zip-\${{ matrix.name }}-\${{ matrix.runtime }}
+          path: ./publish/\${{ matrix.name }}-\${{ matrix.runtime }}.zip
+
+  release:
+    needs: [build-and-publish, publish-zip]
+    if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+{{#if publishNuget}}
+
+      - name: Download NuGet packages
+        uses: actions/download-artifact@v4
+        with:
+          name: nupkgs
+          path: ./nupkgs
+{{/if}}
+
+      - name: Download ZIP archives
+        uses: actions/download-artifact@v4
+        with:
+          pattern: zip-*
+          path: ./publish
+          merge-multiple: true
+{{else}}
+{{#each zipProjects}}
+{{#each runtimes}}
+
+      - name: Zip {{ name }} ({{ this }})
+        shell: pwsh
+        run: Compress-Archive -Path ./publish/{{ name }}-{{ this }}/* -DestinationPath ./publish/{{ name }}-{{ this }}.zip
+{{/each}}
+{{/each}}
+{{/if}}
+
+      - name: Read release notes from tag
+        if: startsWith(github.ref, 'refs/tags/')
+        shell: bash
+        run: |
+          # actions/checkout 会把附注 Tag 覆盖为轻量 Tag，需要重新获取 Tag 对象
+          git fetch --force origin "+$GITHUB_REF:$GITHUB_REF"
+          if [ "$(git cat-file -t "$GITHUB_REF_NAME")" = "tag" ]; then
+            git tag -l --format='%(contents)' "$GITHUB_REF_NAME" > RELEASE_NOTES.md
+          else
+            touch RELEASE_NOTES.md
+          fi
+
+      - name: Create GitHub Release
+        uses: softprops/action-gh-release@v2
+        if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+        with:
+          files: |
+{{#if publishNuget}}
+            ./nupkgs/*.nupkg
+{{/if}}
+{{#if symbolPackages}}
+            ./nupkgs/*.snupkg
+{{/if}}
+{{#if publishZip}}
+            ./publish/*.zip
+{{/if}}
+          body_path: RELEASE_NOTES.md
+          generate_release_notes: true
+`;
+
+const VSCODE_EXTENSION = `---
+id: vscode-extension
+name: VS Code 扩展
+description: 打包 .vsix / 发布到 VS Code Marketplace 和 Open VSX
+output: release.yml
+# 以下变量由生成器提供：
+#   publishToMarketplace 是否发布到 VS Code Marketplace
+#   publishToOpenVsx     是否发布到 Open VSX
+#   createVsix           是否把 .vsix 作为 GitHub Release 附件
+#   prereleasePolicy     预发布判断方式：none / suffix（Tag 带 -beta 等后缀）/ oddMinor（次版本号为奇数）
+#   targets              平台专用包的目标列表 [{ target, os, arch }]，为空时打包通用 .vsix
+variables: []
+---
+name: Release VS Code Extension
+
+on:
+  push:
+    tags:
+      - 'v*'
+{{! 只有发布到扩展市场时才需要 dry-run 和发布目标选项 }}
+{{#if publishToMarketplace || publishToOpenVsx}}
+  workflow_dispatch:
+    inputs:
+      dry_run:
+        description: '测试模式（只构建不发布）'
+        type: boolean
+        default: false
+{{#if publishToMarketplace}}
+      marketplace:
+        description: '发布到 VS Code Marketplace'
+        type: boolean
+        default: true
+{{/if}}
+{{#if publishToOpenVsx}}
+      openvsx:
+        description: '发布到 Open VSX'
+        type: boolean
+        default: true
+{{/if}}
+{{else}}
+  workflow_dispatch:
+{{/if}}
+
+permissions:
+  contents: write
+
+jobs:
+  channel:
+    runs-on: ubuntu-latest
+    outputs:
+      prerelease: \${{ steps.channel.outputs.prerelease }}
+{{#if publishToMarketplace || publishToOpenVsx}}
+      marketplace: \${{ steps.channel.outputs.marketplace }}
+      openvsx: \${{ steps.channel.outputs.openvsx }}
+{{/if}}
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Read release notes from tag
+        if: startsWith(github.ref, 'refs/tags/')
+        run: |
+          # actions/checkout 会把附注 Tag 覆盖为轻量 Tag，需要重新获取 Tag 对象
+          git fetch --force origin "+$GITHUB_REF:$GITHUB_REF"
+          if [ "$(git cat-file -t "$GITHUB_REF_NAME")" = "tag" ]; then
+            git tag -l --format='%(contents)' "$GITHUB_REF_NAME" > RELEASE_NOTES.md
+          else
+            touch RELEASE_NOTES.md
+          fi
+
+      - name: Determine release channel
+        id: channel
+        run: |
+          version="\${GITHUB_REF_NAME#v}"
+          prerelease=false
+{{#if prereleasePolicy == 'suffix'}}
+          # Tag 带预发布后缀（如 v1.2.0-beta.1）时发布到预发布通道
+          if [[ "$version" == *-* ]]; then prerelease=true; fi
+{{/if}}
+{{#if prereleasePolicy == 'oddMinor'}}
+          # 次版本号为奇数（如 1.3.x）时发布到预发布通道
+          minor=$(echo "$version" | cut -d. -f2)
+          if [[ "$minor" =~ ^[0-9]+$ ]] && (( minor % 2 == 1 )); then prerelease=true; fi
+{{/if}}
+          echo "prerelease=$prerelease" >> "$GITHUB_OUTPUT"
+{{#if publishToMarketplace || publishToOpenVsx}}
+
+          # 发布目标：手动运行时由输入决定，Tag 说明中写 [skip marketplace] / [skip openvsx] 可跳过对应市场
+          marketplace={{ publishToMarketplace }}
+          openvsx={{ publishToOpenVsx }}
+          if [ "$GITHUB_EVENT_NAME" = "workflow_dispatch" ]; then
+{{#if publishToMarketplace}}
+            marketplace="\${{ inputs.marketplace }}"
+{{/if}}
+{{#if publishToOpenVsx}}
+            openvsx="\${{ inputs.openvsx }}"
+{{/if}}
+          elif [ -f RELEASE_NOTES.md ]; then
+            if grep -qi '\\[skip marketplace\\]' RELEASE_NOTES.md; then marketplace=false; fi
+            if grep -qi '\\[skip openvsx\\]' RELEASE_NOTES.md; then openvsx=false; fi
+          fi
+          echo "marketplace=$marketplace" >> "$GITHUB_OUTPUT"
+          echo "openvsx=$openvsx" >> "$GITHUB_OUTPUT"
+{{/if}}
+
+      - name: Upload release notes
+        if: startsWith(github.ref, 'refs/tags/')
+        uses: actions/upload-artifact@v4
+        with:
+          name: release-notes
+          path: RELEASE_NOTES.md
+
+  package:
+    needs: channel
+{{#if targets}}
+    name: Package (\${{ matrix.target }})
+    runs-on: \${{ matrix.os }}
+    strategy:
+      matrix:
+        include:
+{{#each targets}}
+          - target: {{ target }}
+            os: {{ os }}
+            arch: {{ arch }}
+{{/each}}
+{{else}}
+    runs-on: ubuntu-latest
+{{/if}}
+
+    steps:
+      - name: Checkout
+        uses: actions/checkout@v4
+
+      - name: Setup Node.js
+        uses: actions/setup-node@v4
+        with:
+          node-version: '20'
+          cache: 'npm'
+
+      - name: Install dependencies
+        run: npm ci
+{{#if targets}}
+        env:
+          # 原生依赖按目标架构下载预编译文件
+          npm_config_arch: \${{ matrix.arch }}
+{{/if}}
+
+      - name: Compile
+        run: npm run compile
+
+      - name: Package Extension
+{{#if targets}}
+        run: npx @vscode/vsce package --target \${{ matrix.target }} \${{ needs.channel.outputs.prerelease == 'true' && '--pre-release' || '' }}
+{{else}}
+        run: npx @vscode/vsce package \${{ needs.channel.outputs.prerelease == 'true' && '--pre-release' || '' }}
+{{/if}}
+
+      - name: Upload VSIX artifact
+        uses: actions/upload-artifact@v4
+        with:
+{{#if targets}}
+          name: vsix-\${{ matrix.target }}
+{{else}}
+          name: vsix-package
+{{/if}}
+          path: "*.vsix"
+
+  publish:
+    needs: [channel, package]
+{{#if publishToMarketplace || publishToOpenVsx}}
+    if: startsWith(github.ref, 'refs/tags/') && !inputs.dry_run
+{{else}}
+    if: startsWith(github.ref, 'refs/tags/')
+{{/if}}
+    runs-on: ubuntu-latest
+
+    steps:
+      - name: Download VSIX packages
+        uses: actions/download-artifact@v4
+        with:
+          pattern: vsix-*
+          path: dist
+          merge-multiple: true
+
+      - name: Download release notes
+        uses: actions/download-artifact@v4
+        with:
+          name: release-notes
+{{#if publishToMarketplace}}
+
+      - name: Publish to VS Code Marketplace
+        if: needs.channel.outputs.marketplace == 'true'
+        run: npx @vscode/vsce publish --packagePath dist/*.vsix -p \${{ secrets.VSCE_PAT }}
+{{/if}}
+{{#if publishToOpenVsx}}
+
+      - name: Publish to Open VSX
+        if: needs.channel.outputs.openvsx == 'true'
+        run: |
+          for vsix in dist/*.vsix; do
+            npx ovsx publish "$vsix" -p "$OVSX_PAT"
+          done
+        env:
+          OVSX_PAT: \${{ secrets.OVSX_PAT }}
+{{/if}}
+
+      - name: Create GitHub Release
+        uses: softprops/action-gh-release@v2
+        with:
+{{#if createVsix}}
+          files: dist/*.vsix
+{{/if}}
+          prerelease: \${{ needs.channel.outputs.prerelease == 'true' }}
+          body_path: RELEASE_NOTES.md
+          generate_release_notes: true
+`;
+
+export const BUILTIN_TEMPLATES: string[] = [DOTNET_RELEASE, VSCODE_EXTENSION];
@@ -0,0 +1,210 @@
+/**
+ * 工作流模板引擎
+ *
+ * 语法（与 GitHub Actions 的 ${{ }} 表达式互不冲突）：
+ * - {{ name }} / {{ item.path }}      变量替换，数组以逗号连接
+ * - {{#if cond}} ... {{else}} ... {{/if}}
+ *   cond 支持 a、!a、a == 'x'、a != 'x'，以及 && / || 组合
+ * - {{#each list}} ... {{/each}}       循环，内部可用 {{ this }}、{{ @index }}、{{ @first }}、{{ @last }}
+ * - {{! 注释 }}                        渲染时删除
+ * - \{{                                输出字面量 {{
+ *
+ * 独占一行的块标签（if/else/each/注释）渲染时整行删除，不会留下空行
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'var'; expr: string }
+    | { type: 'if'; cond: string; then: TemplateNode[]; else: TemplateNode[] }
+    | { type: 'each'; expr: string; body: TemplateNode[] };
+
+interface Scope {
+    value: unknown;
+    locals: Record<string, unknown>;
+}
+
+const TAG_PATTERN = /(?<![$\\])\{\{(.*?)\}\}/g;
+const STANDALONE_LINE = /^[ \t]*((?:\{\{\s*(?:[#/!][^\n]*?|else\s*)\}\}[ \t]*)+)$/;
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+    const nodes = parse(stripStandaloneLines(template));
+    return renderNodes(nodes, [{ value: context, locals: {} }]);
+}
+
+/**
+ * 检查模板语法，返回错误信息，没有错误返回 undefined
+ */
+export function validateTemplate(template: string): string | undefined {
+    try {
+        parse(stripStandaloneLines(template));
+        return undefined;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+function stripStandaloneLines(template: string): string {
+    const lines = template.split('\n');
+    let result = '';
+    lines.forEach((line, index) => {
+        const match = line.match(STANDALONE_LINE);
+        if (match) {
+            result += match[1].trim();
+        } else {
+            result += line + (index < lines.length - 1 ? '\n' : '');
+        }
+    });
+    return result;
+}
+
+function parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // 栈中记录当前正在填充的节点列表和所属块
+    const stack: { nodes: TemplateNode[]; block?: TemplateNode & { type: 'if' | 'each' }; inElse?: boolean }[] = [{ nodes: root }];
+    let lastIndex = 0;
+
+    const pushText = (text: string) => {
+        if (text) stack[stack.length - 1].nodes.push({ type: 'text', value: text.replace(/\\\{\{/g, '{{') });
+    };
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        pushText(template.slice(lastIndex, match.index));
+        lastIndex = match.index! + match[0].length;
+
+        const tag = match[1].trim();
+        const current = stack[stack.length - 1];
+
+        if (tag.startsWith('!')) {
+            continue;
+        } else if (tag.startsWith('#if ')) {
+            const node: TemplateNode = { type: 'if', cond: tag.slice(4).trim(), then: [], else: [] };
+            current.nodes.push(node);
+            stack.push({ nodes: node.then, block: node });
+        } else if (tag.startsWith('#each ')) {
+            const node: TemplateNode = { type: 'each', expr: tag.slice(6).trim(), body: [] };
+            current.nodes.push(node);
+            stack.push({ nodes: node.body, block: node });
+        } else if (tag === 'else') {
+            if (current.block?.type !== 'if' || current.inElse) {
+                throw new Error('模板语法错误: {{else}} 不在 {{#if}} 块内');
+            }
+            current.nodes = current.block.else;
+            current.inElse = true;
+        } else if (tag === '/if' || tag === '/each') {
+            if (current.block?.type !== tag.slice(1)) {
+                throw new Error(`模板语法错误: 多余的 {{${tag}}}`);
+            }
+            stack.pop();
+        } else if (tag.startsWith('#') || tag.startsWith('/')) {
+            throw new Error(`模板语法错误: 未知的块标签 {{${tag}}}`);
+        } else {
+            current.nodes.push({ type: 'var', expr: tag });
+        }
+    }
+    pushText(template.slice(lastIndex));
+
+    if (stack.length > 1) {
+        const block = stack[stack.length - 1].block!;
+        throw new Error(`模板语法错误: {{#${block.type}}} 缺少结束标签 {{/${block.type}}}`);
+    }
+    return root;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+    let output = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.value;
+                break;
+            case 'var': {
+                const value = resolve(node.expr, scopes);
+                if (value === undefined) {
+                    throw new Error(`模板变量未定义: ${node.expr}`);
+                }
+                output += formatValue(value);
+                break;
+            }
+            case 'if':
+                output += renderNodes(evaluateCondition(node.cond, scopes) ? node.then : node.else, scopes);
+                break;
+            case 'each': {
+                const list = resolve(node.expr, scopes);
+                if (list === undefined || list === null) break;
+                if (!Array.isArray(list)) {
+                    throw new Error(`模板变量不是列表: ${node.expr}`);
+                }
+                list.forEach((item, index) => {
+                    output += renderNodes(node.body, [...scopes, {
+                        value: item,
+                        locals: { '@index': index, '@first': index === 0, '@last': index === list.length - 1 }
+                    }]);
+                });
+                break;
+            }
+        }
+    }
+    return output;
+}
+
+function formatValue(value: unknown): string {
+    if (Array.isArray(value)) return value.map(formatValue).join(', ');
+    if (value === null) return '';
+    return String(value);
+}
+
+/**
+ * 按作用域由内向外查找变量
+ */
+function resolve(expr: string, scopes: Scope[]): unknown {
+    const [head, ...rest] = expr.split('.');
+    const current = scopes[scopes.length - 1];
+
+    let value: unknown;
+    if (head === 'this') {
+        value = current.value;
+    } else if (head.startsWith('@')) {
+        value = current.locals[head];
+    } else {
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            const scopeValue = scopes[i].value;
+            if (scopeValue !== null && typeof scopeValue === 'object' && head in scopeValue) {
+                value = (scopeValue as Record<string, unknown>)[head];
+                break;
+            }
+        }
+    }
+
+    for (const key of rest) {
+        if (value === null || typeof value !== 'object') return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return !!value;
+}
+
+function evaluateCondition(cond: string, scopes: Scope[]): boolean {
+    if (cond.includes('||')) {
+        return cond.split('||').some(part => evaluateCondition(part.trim(), scopes));
+    }
+    if (cond.includes('&&')) {
+        return cond.split('&&').every(part => evaluateCondition(part.trim(), scopes));
+    }
+
+    const comparison = cond.match(/^(\S+)\s*(==|!=)\s*['"](.*)['"]$/);
+    if (comparison) {
+        const value = formatValue(resolve(comparison[1], scopes) ?? '');
+        return comparison[2] === '==' ? value === comparison[3] : value !== comparison[3];
+    }
+
+    if (cond.startsWith('!')) {
+        return !isTruthy(resolve(cond.slice(1).trim(), scopes));
+    }
+    return isTruthy(resolve(cond, scopes));
+}
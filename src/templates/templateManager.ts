@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { WorkspaceManager } from '../git/workspaceManager';
+import { WorkflowWriter } from '../generators/workflowWriter';
+import { BUILTIN_TEMPLATES } from './builtinTemplates';
+import { renderTemplate, validateTemplate, TemplateContext } from './templateEngine';
+
+type VariableType = 'string' | 'boolean' | 'choice' | 'multiChoice' | 'files';
+
+export interface TemplateVariable {
+    name: string;
+    type: VariableType;
+    /** 提示文本，默认使用变量名 */
+    prompt?: string;
+    default?: unknown;
+    /** choice / multiChoice 的可选项 */
+    options?: string[];
+    /** files 类型的查找模式，如 "**\/*.csproj" */
+    glob?: string;
+}
+
+export interface WorkflowTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    /** 输出到 .github/workflows 下的文件名 */
+    output: string;
+    variables: TemplateVariable[];
+    body: string;
+    source: 'builtin' | 'user' | 'workspace';
+    filePath?: string;
+}
+
+/** 内置模板由对应的生成器负责检测项目并提供变量 */
+const BUILTIN_GENERATOR_COMMANDS: Record<string, string> = {
+    'dotnet-release': 'lyugitex.generateReleaseYml',
+    'vscode-extension': 'lyugitex.generateVscodeExtYml'
+};
+
+const WORKSPACE_TEMPLATE_DIR = path.join('.lyugitex', 'templates');
+
+/**
+ * 工作流模板管理：加载内置 / 用户 / 工作区模板，提示变量并渲染
+ */
+export class TemplateManager {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private workflowWriter = new WorkflowWriter();
+
+    /**
+     * 加载所有模板，优先级：工作区 > 用户目录 > 内置，同 id 的高优先级模板覆盖低优先级
+     */
+    loadTemplates(rootPath?: string): WorkflowTemplate[] {
+        const templates = new Map<string, WorkflowTemplate>();
+
+        for (const text of BUILTIN_TEMPLATES) {
+            const template = this.parseTemplate(text, 'builtin');
+            templates.set(template.id, template);
+        }
+
+        const userDirs = vscode.workspace.getConfiguration('lyugitex.templates').get<string[]>('directories', []);
+        for (const dir of userDirs) {
+            this.loadDirectory(dir.replace(/^~(?=$|[\\/])/, os.homedir()), 'user', templates);
+        }
+
+        if (rootPath) {
+            this.loadDirectory(path.join(rootPath, WORKSPACE_TEMPLATE_DIR), 'workspace', templates);
+        }
+
+        return [...templates.values()];
+    }
+
+    getTemplate(rootPath: string, id: string): WorkflowTemplate {
+        const template = this.loadTemplates(rootPath).find(t => t.id === id);
+        if (!template) {
+            throw new Error(`未找到模板: ${id}`);
+        }
+        return template;
+    }
+
+    /**
+     * 提示输入模板声明的变量，已在 context 中提供的变量跳过
+     * @returns 完整的渲染上下文，用户取消时返回 undefined
+     */
+    async promptVariables(template: WorkflowTemplate, rootPath: string, context: TemplateContext = {}): Promise<TemplateContext | undefined> {
+        const result: TemplateContext = { ...context };
+
+        for (const variable of template.variables) {
+            if (variable.name in result) continue;
+
+            const value = await this.promptVariable(variable, rootPath);
+            if (value === undefined) return undefined;
+            result[variable.name] = value;
+        }
+
+        return result;
+    }
+
+    render(template: WorkflowTemplate, context: TemplateContext): string {
+        try {
+            return renderTemplate(template.body, context);
+        } catch (error) {
+            const location = template.filePath ?? `内置模板 ${template.id}`;
+            throw new Error(`${location}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * 选择模板并生成工作流
+     */
+    async generateFromTemplate(): Promise<void> {
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要生成工作流的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const rootPath = workspaceFolder.uri.fsPath;
+        const templates = this.loadTemplates(rootPath);
+
+        const selected = await vscode.window.showQuickPick(
+            templates.map(t => ({
+                label: t.name,
+                description: `${t.id} · ${this.getSourceLabel(t)}`,
+                detail: t.description,
+                template: t
+            })),
+            { placeHolder: '选择工作流模板' }
+        );
+        if (!selected) return;
+
+        const template = selected.template;
+
+        // 内置模板（包括被覆盖的）交给生成器处理项目检测
+        const generatorCommand = BUILTIN_GENERATOR_COMMANDS[template.id];
+        if (generatorCommand) {
+            await vscode.commands.executeCommand(generatorCommand);
+            return;
+        }
+
+        const context = await this.promptVariables(template, rootPath);
+        if (!context) return;
+
+        const content = this.render(template, context);
+        const filePath = await this.workflowWriter.write(rootPath, template.output, content);
+        if (!filePath) return;
+
+        vscode.window.showInformationMessage(`已生成 ${filePath}`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+    }
+
+    /**
+     * 把内置模板导出到工作区，作为自定义模板的起点
+     */
+    async exportBuiltinTemplate(): Promise<void> {
+        const workspaceFolder = await this.workspaceManager.selectWorkspaceFolderSmart({
+            gitRepoOnly: false,
+            placeHolder: '选择要导出模板的项目'
+        });
+        if (!workspaceFolder) return;
+
+        const selected = await vscode.window.showQuickPick(
+            BUILTIN_TEMPLATES.map(text => {
+                const template = this.parseTemplate(text, 'builtin');
+                return { label: template.name, description: template.id, detail: template.description, text, template };
+            }),
+            { placeHolder: '选择要导出的内置模板' }
+        );
+        if (!selected) return;
+
+        const templateDir = path.join(workspaceFolder.uri.fsPath, WORKSPACE_TEMPLATE_DIR);
+        const filePath = path.join(templateDir, `${selected.template.id}.yml`);
+
+        if (fs.existsSync(filePath)) {
+            const confirm = await vscode.window.showWarningMessage(
+                `${path.relative(workspaceFolder.uri.fsPath, filePath)} 已存在，是否覆盖？`,
+                { modal: true },
+                '覆盖'
+            );
+            if (confirm !== '覆盖') return;
+        }
+
+        if (!fs.existsSync(templateDir)) {
+            fs.mkdirSync(templateDir, { recursive: true });
+        }
+        fs.writeFileSync(filePath, selected.text);
+
+        vscode.window.showInformationMessage(`已导出模板，修改后将覆盖内置的「${selected.template.name}」`);
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(doc);
+    }
+
+    private loadDirectory(dir: string, source: 'user' | 'workspace', templates: Map<string, WorkflowTemplate>): void {
+        if (!fs.existsSync(dir)) return;
+
+        for (const file of fs.readdirSync(dir)) {
+            if (!/\.ya?ml$/.test(file)) continue;
+
+            const filePath = path.join(dir, file);
+            try {
+                const template = this.parseTemplate(fs.readFileSync(filePath, 'utf-8'), source, filePath);
+                templates.set(template.id, template);
+            } catch (error) {
+                vscode.window.showWarningMessage(`模板加载失败 ${filePath}: ${(error as Error).message}`);
+            }
+        }
+    }
+
+    /**
+     * 解析模板文件：--- 之间的 YAML 头信息 + 模板正文
+     */
+    private parseTemplate(text: string, source: WorkflowTemplate['source'], filePath?: string): WorkflowTemplate {
+        const match = text.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+        if (!match) {
+            throw new Error('缺少 --- 包围的模板头信息');
+        }
+
+        const header = (parseYaml(match[1]) ?? {}) as Record<string, unknown>;
+        const body = match[2];
+
+        const syntaxError = validateTemplate(body);
+        if (syntaxError) {
+            throw new Error(syntaxError);
+        }
+
+        const id = String(header.id ?? (filePath ? path.basename(filePath).replace(/\.ya?ml$/, '') : ''));
+        if (!id) {
+            throw new Error('模板缺少 id');
+        }
+
+        const variables = (Array.isArray(header.variables) ? header.variables : []) as TemplateVariable[];
+        for (const variable of variables) {
+            if (!variable?.name) {
+                throw new Error('变量缺少 name');
+            }
+            variable.type = variable.type ?? 'string';
+            if (!['string', 'boolean', 'choice', 'multiChoice', 'files'].includes(variable.type)) {
+                throw new Error(`变量 ${variable.name} 的类型 ${variable.type} 不受支持`);
+            }
+            if ((variable.type === 'choice' || variable.type === 'multiChoice') && !variable.options?.length) {
+                throw new Error(`变量 ${variable.name} 缺少 options`);
+            }
+        }
+
+        return {
+            id,
+            name: String(header.name ?? id),
+            description: header.description !== undefined ? String(header.description) : undefined,
+            output: String(header.output ?? `${id}.yml`),
+            variables,
+            body,
+            source,
+            filePath
+        };
+    }
+
+    private async promptVariable(variable: TemplateVariable, rootPath: string): Promise<unknown> {
+        const prompt = variable.prompt ?? variable.name;
+
+        switch (variable.type) {
+            case 'boolean': {
+                // 默认值排在第一项
+                const yes = { label: '是', value: true };
+                const no = { label: '否', value: false };
+                const choice = await vscode.window.showQuickPick(variable.default === false ? [no, yes] : [yes, no], { placeHolder: prompt });
+                return choice?.value;
+            }
+            case 'choice': {
+                const options = variable.options!.filter(o => o !== variable.default);
+                if (variable.options!.includes(String(variable.default))) {
+                    options.unshift(String(variable.default));
+                }
+                return vscode.window.showQuickPick(options, { placeHolder: prompt });
+            }
+            case 'multiChoice': {
+                const defaults = Array.isArray(variable.default) ? variable.default : [];
+                const choices = await vscode.window.showQuickPick(
+                    variable.options!.map(o => ({ label: o, picked: defaults.includes(o) })),
+                    { canPickMany: true, placeHolder: prompt }
+                );
+                return choices?.map(c => c.label);
+            }
+            case 'files': {
+                const pattern = new vscode.RelativePattern(rootPath, variable.glob ?? '**/*');
+                const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
+                if (files.length === 0) {
+                    vscode.window.showWarningMessage(`没有找到匹配 ${variable.glob} 的文件`);
+                    return undefined;
+                }
+                const choices = await vscode.window.showQuickPick(
+                    files.map(f => {
+                        const relative = path.relative(rootPath, f.fsPath).replace(/\\/g, '/');
+                        return { label: path.basename(relative), description: relative, relative };
+                    }),
+                    { canPickMany: true, placeHolder: prompt }
+                );
+                if (!choices || choices.length === 0) return undefined;
+                // 在模板中通过 {{ path }}、{{ name }}、{{ dir }} 访问
+                return choices.map(c => ({
+                    path: c.relative,
+                    name: path.basename(c.relative, path.extname(c.relative)),
+                    dir: path.posix.dirname(c.relative)
+                }));
+            }
+            default:
+                return vscode.window.showInputBox({
+                    prompt,
+                    value: variable.default !== undefined ? String(variable.default) : undefined
+                });
+        }
+    }
+
+    private getSourceLabel(template: WorkflowTemplate): string {
+        switch (template.source) {
+            case 'workspace':
+                return '工作区';
+            case 'user':
+                return '用户';
+            default:
+                return '内置';
+        }
+    }
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type PreviewAction = 'apply' | 'newFile';
+
+/**
+ * 生成文件预览：写入前在 diff 编辑器中对比当前文件与即将写入的内容
+ */
+export class DiffPreview implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'lyugitex-preview';
+    private static instance: DiffPreview;
+    private contents = new Map<string, string>();
+    private previewId = 0;
+
+    private constructor() {}
+
+    static getInstance(): DiffPreview {
+        if (!DiffPreview.instance) {
+            DiffPreview.instance = new DiffPreview();
+        }
+        return DiffPreview.instance;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * 打开 diff 预览并让用户确认
+     * @returns 用户选择的操作，取消时返回 undefined
+     */
+    async confirm(filePath: string, proposedContent: string): Promise<PreviewAction | undefined> {
+        const enabled = vscode.workspace.getConfiguration('lyugitex.generator').get('previewBeforeWrite', true);
+        if (!enabled) return 'apply';
+
+        const fileName = path.basename(filePath);
+        const exists = fs.existsSync(filePath);
+        const id = ++this.previewId;
+
+        // 文件不存在时与空文档对比
+        const originalUri = exists
+            ? vscode.Uri.file(filePath)
+            : vscode.Uri.from({ scheme: DiffPreview.scheme, path: `/original/${fileName}`, query: String(id) });
+        const proposedUri = vscode.Uri.from({ scheme: DiffPreview.scheme, path: `/proposed/${fileName}`, query: String(id) });
+
+        if (!exists) {
+            this.contents.set(originalUri.toString(), '');
+        }
+        this.contents.set(proposedUri.toString(), proposedContent);
+
+        try {
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                originalUri,
+                proposedUri,
+                `${fileName}: ${exists ? '当前' : '(新文件)'} ↔ 生成后`,
+                { preview: true }
+            );
+
+            const action = await vscode.window.showInformationMessage(
+                `确认写入 ${fileName}？`,
+                '应用',
+                '应用到新文件',
+                '取消'
+            );
+
+            if (action === '应用') return 'apply';
+            if (action === '应用到新文件') return 'newFile';
+            return undefined;
+        } finally {
+            await this.closePreview(proposedUri);
+            this.contents.delete(originalUri.toString());
+            this.contents.delete(proposedUri.toString());
+        }
+    }
+
+    /**
+     * 预览差异，确认后写入（可改为写入新文件）
+     * @returns 是否写入了原文件，取消或写入新文件时返回 false
+     */
+    async confirmAndWrite(filePath: string, content: string): Promise<boolean> {
+        const action = await this.confirm(filePath, content);
+        if (action === 'newFile') {
+            const newPath = await this.pickNewFilePath(filePath);
+            if (newPath) fs.writeFileSync(newPath, content);
+            return false;
+        }
+        if (action !== 'apply') return false;
+
+        fs.writeFileSync(filePath, content);
+        return true;
+    }
+
+    /**
+     * 询问新文件名（与原文件同目录）
+     */
+    async pickNewFilePath(filePath: string, validate?: (name: string) => string | null): Promise<string | undefined> {
+        const dir = path.dirname(filePath);
+        const fileName = path.basename(filePath);
+        const ext = path.extname(fileName);
+
+        const newName = await vscode.window.showInputBox({
+            prompt: '新文件名',
+            value: `${path.basename(fileName, ext)}-generated${ext}`,
+            validateInput: (v) => {
+                if (!v.trim()) return '文件名不能为空';
+                if (/[\\/]/.test(v)) return '文件名不能包含路径';
+                if (fs.existsSync(path.join(dir, v))) return '文件已存在';
+                return validate?.(v) ?? null;
+            }
+        });
+        if (!newName) return undefined;
+
+        return path.join(dir, newName);
+    }
+
+    private async closePreview(proposedUri: vscode.Uri): Promise<void> {
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === proposedUri.toString()) {
+                    await vscode.window.tabGroups.close(tab);
+                }
+            }
+        }
+    }
+}
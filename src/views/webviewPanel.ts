@@ -144,18 +144,57 @@ export class WorkflowWebviewProvider implements vscode.WebviewViewProvider {
             <span class="section-title">⚙️ 工作流</span>
         </div>
         <div class="btn-group">
-            <button class="btn" data-cmd="lyugitex.generateReleaseYml" onclick="exec(this)" title="为 C#/.NET 项目生成 GitHub Actions 的 release.yml 工作流。支持自动检测 .NET 版本、发布到 NuGet（类库）、生成 ZIP（应用程序）、Dry-run 测试模式">
+            <button class="btn" data-cmd="lyugitex.generateReleaseYml" onclick="exec(this)" title="为 C#/.NET 项目生成 GitHub Actions 的 release.yml 工作流。读取 .sln/.slnx、Directory.Build.props 和 global.json，自动区分类库和应用程序并预选 NuGet（类库）或 ZIP（应用程序），固定 SDK 版本，支持 Dry-run 测试模式。可选代码签名：PFX 证书（signtool / dotnet nuget sign）或 Azure Key Vault（AzureSignTool），签名在打包/推送前进行。NuGet 包可推送到 nuget.org、GitHub Packages、Azure Artifacts 等多个源，支持 .snupkg 符号包。也可生成 GitLab CI 或 Gitea Actions 流水线">
                 <span class="spinner"></span><span class="icon">📄</span> C#/.NET 工作流
             </button>
-            <button class="btn" data-cmd="lyugitex.generateVscodeExtYml" onclick="exec(this)" title="为 VS Code 扩展项目生成发布工作流。支持打包 .vsix 文件、发布到 VS Code Marketplace。需要配置 VSCE_PAT Secret">
+            <button class="btn" data-cmd="lyugitex.generateVscodeExtYml" onclick="exec(this)" title="为 VS Code 扩展项目生成发布工作流。支持打包 .vsix 文件、发布到 VS Code Marketplace（VSCE_PAT）和 Open VSX（OVSX_PAT），按 Tag 后缀或次版本号奇偶发布预发布版本，可按 Tag 选择发布到哪些市场。含原生依赖的扩展可选择多个目标平台，矩阵打包后一起发布。生成前会检查 package.json 和 .vscodeignore，问题项可一键修复。也可生成 GitLab CI 或 Gitea Actions 流水线">
                 <span class="spinner"></span><span class="icon">🧩</span> VS Code 扩展工作流
             </button>
+            <button class="btn" data-cmd="lyugitex.generateNpmYml" onclick="exec(this)" title="为 npm 包生成发布工作流。读取 package.json（脚本、publishConfig、workspaces），发布到 npmjs 或 GitHub Packages，支持 provenance 和 Dry-run 测试模式，可一键配置 NPM_TOKEN Secret">
+                <span class="spinner"></span><span class="icon">📦</span> npm 包工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.generatePythonYml" onclick="exec(this)" title="为 Python 项目生成 PyPI 发布工作流。自动检测 pyproject.toml/setup.cfg/setup.py，可选构建方式和 Python 版本矩阵，构建 sdist/wheel 并发布到 PyPI 或 TestPyPI（Trusted Publishing 或 API Token）">
+                <span class="spinner"></span><span class="icon">🐍</span> Python 包工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.generateBinaryYml" onclick="exec(this)" title="为 Rust（Cargo.toml）或 Go（go.mod）命令行工具生成发布工作流。可多选目标平台（Linux/Windows/macOS，x64/arm64），矩阵构建后打包为 tar.gz/zip，生成 SHA256 校验文件并上传到 GitHub Release">
+                <span class="spinner"></span><span class="icon">🦀</span> Rust/Go 二进制工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.generateDockerYml" onclick="exec(this)" title="查找项目中的 Dockerfile，生成基于 buildx 的镜像构建推送工作流。支持 ghcr.io、Docker Hub 和自定义镜像仓库，可选 amd64/arm64 平台和标签策略（语义化版本、latest、SHA），启用 GitHub Actions 层缓存">
+                <span class="spinner"></span><span class="icon">🐳</span> Docker 镜像工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.generateCiYml" onclick="exec(this)" title="为 .NET 或 Node.js 项目生成日常 CI 工作流 ci.yml：push / Pull Request 触发，操作系统 × SDK 版本矩阵，依赖缓存，运行测试并收集覆盖率，上传测试结果，新提交自动取消旧的运行">
+                <span class="spinner"></span><span class="icon">🧪</span> CI 测试工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.generateReusableWorkflow" onclick="exec(this)" title="把公共仓库中的工作流转换为可复用工作流（workflow_call，输入带类型，Secret 由调用方传入）或 .github/actions 下的组合操作，再为工作区中的其他仓库生成只包含 owner/repo/.github/workflows/x.yml@ref 调用的工作流">
+                <span class="spinner"></span><span class="icon">♻️</span> 可复用工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.generateFromTemplate" onclick="exec(this)" title="从模板生成工作流。模板放在工作区 .lyugitex/templates/*.yml 或设置 lyugitex.templates.directories 指定的目录，支持变量提示、条件块和循环；同 id 的模板可覆盖内置的 .NET / VS Code 扩展工作流">
+                <span class="spinner"></span><span class="icon">🧾</span> 从模板生成工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.exportTemplate" onclick="exec(this)" title="把内置的 .NET / VS Code 扩展工作流模板导出到 .lyugitex/templates，修改后生成器会使用自定义版本（如自托管 Runner、内部 NuGet 源、合规检查步骤）">
+                <span class="spinner"></span><span class="icon">📤</span> 导出内置模板
+            </button>
+            <button class="btn" data-cmd="lyugitex.lintWorkflows" onclick="exec(this)" title="检查工作区 .github/workflows 下的所有工作流：YAML 语法、未知字段、\${{ }} 表达式语法、未声明的 inputs、needs 循环依赖、已弃用的 action 版本、缺少 permissions。结果显示在问题面板，部分问题可快速修复">
+                <span class="spinner"></span><span class="icon">🩺</span> 检查工作流
+            </button>
+            <button class="btn" data-cmd="lyugitex.simulateWorkflow" onclick="exec(this)" title="离线模拟工作流：选择推送 Tag（如 v1.2.3）、推送分支或带输入的手动运行，判断 on 过滤条件是否匹配，并对每个 job / step 的 if 表达式求值，显示哪些会运行、哪些会跳过、哪些取决于运行时的值">
+                <span class="spinner"></span><span class="icon">🧪</span> 模拟运行条件
+            </button>
+            <button class="btn" data-cmd="lyugitex.hardenWorkflows" onclick="exec(this)" title="加固已有的工作流：通过 GitHub API 把 uses 的版本解析为提交 SHA（原版本保留为行尾注释），按 job 实际用到的操作设置最小 permissions，为 Release 附件生成 SHA256SUMS.txt，可选生成 SBOM 和构建来源证明。生成时自动加固可开启 lyugitex.harden.onGenerate">
+                <span class="spinner"></span><span class="icon">🛡️</span> 加固工作流
+            </button>
             <button class="btn" data-cmd="lyugitex.manageSecrets" onclick="exec(this)" title="管理 GitHub 仓库的 Secrets（如 NUGET_API_KEY）。使用 GitHub OAuth 登录，登录一次后会话保持无需重复登录，可添加、修改、删除 Secrets">
                 <span class="spinner"></span><span class="icon">🔑</span> 管理 GitHub Secrets
             </button>
+            <button class="btn" data-cmd="lyugitex.checkWorkflowSecrets" onclick="exec(this)" title="扫描 .github/workflows 中所有 secrets.* 引用，与仓库已配置的 Secrets 对比：缺少的可一键创建（可从本地保存的密钥中选择），未被引用的可选择删除">
+                <span class="spinner"></span><span class="icon">🔍</span> 检查 Secrets 引用
+            </button>
             <button class="btn" data-cmd="lyugitex.openActions" onclick="exec(this)" title="在浏览器中打开当前仓库的 GitHub Actions 页面，查看工作流运行状态和日志">
                 <span class="spinner"></span><span class="icon">▶️</span> 打开 Actions 页面
             </button>
+            <button class="btn" data-cmd="lyugitex.manageReleases" onclick="exec(this)" title="列出仓库的 GitHub Releases 及附件下载次数。可为已推送的 Tag 创建 Release，编辑标题、说明（附注 Tag 说明 / 根据提交生成 / GitHub 自动生成）、草稿和预发布状态，上传或删除附件，删除 Release 及其 Tag">
+                <span class="spinner"></span><span class="icon">📦</span> 管理 Releases
+            </button>
             <button class="btn btn-danger" data-cmd="lyugitex.deleteWorkflowRuns" onclick="exec(this)" title="获取最近 30 条 Actions 运行记录，可多选删除。显示状态（✅成功/❌失败/🔄进行中）、运行编号、分支和时间">
                 <span class="spinner"></span><span class="icon">🗑️</span> 删除 Actions 记录
             </button>
@@ -198,6 +237,12 @@ export class WorkflowWebviewProvider implements vscode.WebviewViewProvider {
             <button class="btn btn-primary" data-cmd="lyugitex.createTag" onclick="exec(this)" title="创建新的 Git Tag。可输入 Tag 名称（如 v1.0.0）和说明。留空说明创建轻量 Tag，填写说明创建附注 Tag。创建后可选择是否推送到远程">
                 <span class="spinner"></span><span class="icon">➕</span> 创建 Tag
             </button>
+            <button class="btn" data-cmd="lyugitex.bumpVersion" onclick="exec(this)" title="根据最新的语义化版本 Tag 递增 major / minor / patch 或预发布版本（alpha / beta / rc），同步更新 csproj、Directory.Build.props 和 package.json 中的版本号，提交后创建附注 Tag，可选择一起推送">
+                <span class="spinner"></span><span class="icon">🔖</span> 递增版本
+            </button>
+            <button class="btn" data-cmd="lyugitex.generateChangelog" onclick="exec(this)" title="收集上一个 Tag 到所选版本之间的提交，按 Conventional Commits 类型（破坏性变更 / feat / fix / perf）分组，写入或追加到 CHANGELOG.md 顶部，也可复制为发布说明">
+                <span class="spinner"></span><span class="icon">📝</span> 生成变更日志
+            </button>
             <button class="btn" data-cmd="lyugitex.deleteLatestTag" onclick="exec(this)" title="快速删除最新的 Git Tag。可选择只删除本地，或同时删除本地和远程的 Tag">
                 <span class="spinner"></span><span class="icon">🗑️</span> 删除最新 Tag
             </button>
@@ -0,0 +1,389 @@
+/**
+ * GitHub Actions 表达式（${{ }}）解析
+ *
+ * 语法参考 https://docs.github.com/actions/learn-github-actions/expressions
+ */
+
+export type ExpressionNode =
+    | { type: 'literal'; value: string | number | boolean | null }
+    | { type: 'context'; name: string }
+    | { type: 'property'; object: ExpressionNode; name: string }
+    | { type: 'index'; object: ExpressionNode; index: ExpressionNode }
+    | { type: 'wildcard'; object: ExpressionNode }
+    | { type: 'call'; name: string; args: ExpressionNode[] }
+    | { type: 'unary'; operator: '!'; operand: ExpressionNode }
+    | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+export type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface EmbeddedExpression {
+    /** ${{ 与 }} 之间的表达式文本 */
+    expression: string;
+    /** ${{ 在原文中的偏移 */
+    start: number;
+    /** }} 之后的偏移 */
+    end: number;
+}
+
+export class ExpressionError extends Error {
+    constructor(message: string, public readonly position: number) {
+        super(message);
+    }
+}
+
+export const KNOWN_CONTEXTS = [
+    'github', 'env', 'vars', 'job', 'jobs', 'steps', 'runner', 'secrets', 'strategy', 'matrix', 'needs', 'inputs'
+];
+
+/** 函数名 → [最少参数, 最多参数] */
+export const KNOWN_FUNCTIONS: Record<string, [number, number]> = {
+    contains: [2, 2],
+    startswith: [2, 2],
+    endswith: [2, 2],
+    format: [1, Infinity],
+    join: [1, 2],
+    tojson: [1, 1],
+    fromjson: [1, 1],
+    hashfiles: [1, Infinity],
+    success: [0, 0],
+    always: [0, 0],
+    cancelled: [0, 0],
+    failure: [0, 0]
+};
+
+type Token =
+    | { kind: 'number'; value: number; pos: number }
+    | { kind: 'string'; value: string; pos: number }
+    | { kind: 'ident'; value: string; pos: number }
+    | { kind: 'punct'; value: string; pos: number }
+    | { kind: 'eof'; pos: number };
+
+const PUNCTUATION = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')', '[', ']', '.', ',', '*'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        // 字符串只能用单引号，'' 表示单引号本身
+        if (ch === '\'') {
+            const start = i;
+            let value = '';
+            i++;
+            for (;;) {
+                if (i >= source.length) {
+                    throw new ExpressionError('字符串缺少结束引号', start);
+                }
+                if (source[i] === '\'') {
+                    if (source[i + 1] === '\'') {
+                        value += '\'';
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                value += source[i++];
+            }
+            tokens.push({ kind: 'string', value, pos: start });
+            continue;
+        }
+
+        if (ch === '"') {
+            throw new ExpressionError('表达式中的字符串必须使用单引号', i);
+        }
+
+        const number = source.slice(i).match(/^(0x[0-9a-f]+|-?\d+(\.\d+)?(e[+-]?\d+)?)/i);
+        if (number && (ch !== '-' || /\d/.test(source[i + 1] ?? ''))) {
+            tokens.push({ kind: 'number', value: Number(number[0]), pos: i });
+            i += number[0].length;
+            continue;
+        }
+
+        const ident = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_-]*/);
+        if (ident) {
+            tokens.push({ kind: 'ident', value: ident[0], pos: i });
+            i += ident[0].length;
+            continue;
+        }
+
+        const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+        if (punct) {
+            tokens.push({ kind: 'punct', value: punct, pos: i });
+            i += punct.length;
+            continue;
+        }
+
+        throw new ExpressionError(`无法识别的字符 "${ch}"`, i);
+    }
+
+    tokens.push({ kind: 'eof', pos: source.length });
+    return tokens;
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private tokens: Token[]) {}
+
+    parse(): ExpressionNode {
+        if (this.peek().kind === 'eof') {
+            throw new ExpressionError('表达式为空', 0);
+        }
+        const node = this.parseOr();
+        const token = this.peek();
+        if (token.kind !== 'eof') {
+            throw new ExpressionError(`多余的内容 "${this.describe(token)}"`, token.pos);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isPunct(value: string): boolean {
+        const token = this.peek();
+        return token.kind === 'punct' && token.value === value;
+    }
+
+    private expect(value: string): void {
+        const token = this.next();
+        if (token.kind !== 'punct' || token.value !== value) {
+            throw new ExpressionError(`缺少 "${value}"`, token.pos);
+        }
+    }
+
+    private describe(token: Token): string {
+        return token.kind === 'eof' ? '表达式结尾' : String(token.value);
+    }
+
+    private parseOr(): ExpressionNode {
+        let left = this.parseAnd();
+        while (this.isPunct('||')) {
+            this.next();
+            left = { type: 'binary', operator: '||', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): ExpressionNode {
+        let left = this.parseEquality();
+        while (this.isPunct('&&')) {
+            this.next();
+            left = { type: 'binary', operator: '&&', left, right: this.parseEquality() };
+        }
+        return left;
+    }
+
+    private parseEquality(): ExpressionNode {
+        let left = this.parseComparison();
+        while (this.isPunct('==') || this.isPunct('!=')) {
+            const operator = (this.next() as { value: string }).value as BinaryOperator;
+            left = { type: 'binary', operator, left, right: this.parseComparison() };
+        }
+        return left;
+    }
+
+    private parseComparison(): ExpressionNode {
+        let left = this.parseUnary();
+        while (['<', '<=', '>', '>='].some(op => this.isPunct(op))) {
+            const operator = (this.next() as { value: string }).value as BinaryOperator;
+            left = { type: 'binary', operator, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.isPunct('!')) {
+            this.next();
+            return { type: 'unary', operator: '!', operand: this.parseUnary() };
+        }
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        switch (token.kind) {
+            case 'number':
+            case 'string':
+                return { type: 'literal', value: token.value };
+            case 'ident': {
+                const lower = token.value.toLowerCase();
+                if (lower === 'true' || lower === 'false') return { type: 'literal', value: lower === 'true' };
+                if (lower === 'null') return { type: 'literal', value: null };
+
+                if (this.isPunct('(')) {
+                    return this.parseCall(token.value, token.pos);
+                }
+                if (!KNOWN_CONTEXTS.includes(token.value)) {
+                    throw new ExpressionError(`未知的上下文 "${token.value}"`, token.pos);
+                }
+                return { type: 'context', name: token.value };
+            }
+            case 'punct':
+                if (token.value === '(') {
+                    const node = this.parseOr();
+                    this.expect(')');
+                    return node;
+                }
+                break;
+        }
+        throw new ExpressionError(`意外的 "${this.describe(token)}"`, token.pos);
+    }
+
+    private parseCall(name: string, pos: number): ExpressionNode {
+        const arity = KNOWN_FUNCTIONS[name.toLowerCase()];
+        if (!arity) {
+            throw new ExpressionError(`未知的函数 "${name}"`, pos);
+        }
+
+        this.expect('(');
+        const args: ExpressionNode[] = [];
+        if (!this.isPunct(')')) {
+            args.push(this.parseOr());
+            while (this.isPunct(',')) {
+                this.next();
+                args.push(this.parseOr());
+            }
+        }
+        this.expect(')');
+
+        if (args.length < arity[0] || args.length > arity[1]) {
+            throw new ExpressionError(`函数 ${name} 的参数数量不正确`, pos);
+        }
+        return { type: 'call', name, args };
+    }
+
+    private parsePostfix(node: ExpressionNode): ExpressionNode {
+        for (;;) {
+            if (this.isPunct('.')) {
+                this.next();
+                const token = this.next();
+                if (token.kind === 'punct' && token.value === '*') {
+                    node = { type: 'wildcard', object: node };
+                } else if (token.kind === 'ident') {
+                    node = { type: 'property', object: node, name: token.value };
+                } else {
+                    throw new ExpressionError('"." 之后缺少属性名', token.pos);
+                }
+            } else if (this.isPunct('[')) {
+                this.next();
+                if (this.isPunct('*')) {
+                    this.next();
+                    node = { type: 'wildcard', object: node };
+                } else {
+                    const index = this.parseOr();
+                    node = index.type === 'literal' && typeof index.value === 'string'
+                        ? { type: 'property', object: node, name: index.value }
+                        : { type: 'index', object: node, index };
+                }
+                this.expect(']');
+            } else {
+                return node;
+            }
+        }
+    }
+}
+
+export function parseExpression(source: string): ExpressionNode {
+    return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * 找出文本中所有 ${{ }} 表达式（跳过字符串中的 }}）
+ */
+export function extractExpressions(text: string): EmbeddedExpression[] {
+    const result: EmbeddedExpression[] = [];
+    let searchFrom = 0;
+
+    for (;;) {
+        const start = text.indexOf('${{', searchFrom);
+        if (start < 0) break;
+
+        let i = start + 3;
+        let inString = false;
+        let end = -1;
+        while (i < text.length) {
+            if (text[i] === '\'') {
+                inString = !inString;
+            } else if (!inString && text.startsWith('}}', i)) {
+                end = i + 2;
+                break;
+            }
+            i++;
+        }
+
+        if (end < 0) {
+            throw new ExpressionError('${{ 缺少结束的 }}', start);
+        }
+
+        result.push({ expression: text.slice(start + 3, end - 2), start, end });
+        searchFrom = end;
+    }
+
+    return result;
+}
+
+/**
+ * 收集表达式中以点号访问的上下文路径，如 inputs.dry_run、github.event.inputs.version
+ */
+export function collectContextPaths(node: ExpressionNode): string[] {
+    const paths: string[] = [];
+
+    const pathOf = (n: ExpressionNode): string | undefined => {
+        if (n.type === 'context') return n.name;
+        if (n.type === 'property') {
+            const parent = pathOf(n.object);
+            return parent !== undefined ? `${parent}.${n.name}` : undefined;
+        }
+        return undefined;
+    };
+
+    const visit = (n: ExpressionNode): void => {
+        switch (n.type) {
+            case 'context':
+            case 'property': {
+                const path = pathOf(n);
+                if (path !== undefined) {
+                    paths.push(path);
+                } else if (n.type === 'property') {
+                    visit(n.object);
+                }
+                break;
+            }
+            case 'index':
+                visit(n.object);
+                visit(n.index);
+                break;
+            case 'wildcard':
+                visit(n.object);
+                break;
+            case 'call':
+                n.args.forEach(visit);
+                break;
+            case 'unary':
+                visit(n.operand);
+                break;
+            case 'binary':
+                visit(n.left);
+                visit(n.right);
+                break;
+        }
+    };
+
+    visit(node);
+    return paths;
+}
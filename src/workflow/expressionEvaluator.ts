@@ -0,0 +1,285 @@
+import { ExpressionNode, extractExpressions, parseExpression } from './expression';
+
+/**
+ * GitHub Actions 表达式求值
+ *
+ * 按 https://docs.github.com/actions/learn-github-actions/expressions 的规则：
+ * - == / != / < 等在类型不同时转换为数字比较，字符串比较不区分大小写
+ * - && / || 返回操作数本身，上下文属性名不区分大小写
+ * - 离线无法得知的值（steps 输出、needs 输出等）用 UnknownValue 表示，参与运算的结果同样未知
+ */
+
+export type ExpressionValue = string | number | boolean | null | UnknownValue | ExpressionValue[] | { [key: string]: ExpressionValue };
+
+/**
+ * 运行时才能确定的值
+ */
+export class UnknownValue {
+    constructor(public readonly sources: string[]) {}
+
+    static merge(...values: ExpressionValue[]): UnknownValue {
+        return new UnknownValue([...new Set(values.flatMap(v => v instanceof UnknownValue ? v.sources : []))]);
+    }
+}
+
+/** 状态函数的结果，undefined 表示未知 */
+export interface JobStatus {
+    success: boolean | undefined;
+    failure: boolean | undefined;
+    cancelled: boolean;
+}
+
+export interface EvaluationContext {
+    contexts: Record<string, ExpressionValue>;
+    status: JobStatus;
+}
+
+const STATUS_FUNCTIONS = ['success', 'failure', 'always', 'cancelled'];
+
+/**
+ * 求值 if 条件：可以带或不带 ${{ }}，不含状态函数时隐含 success() &&
+ * @returns true / false，无法离线确定时返回 UnknownValue
+ */
+export function evaluateCondition(condition: string | boolean | undefined, context: EvaluationContext): boolean | UnknownValue {
+    if (condition === undefined || condition === '') condition = 'success()';
+
+    const trimmed = String(condition).trim();
+    const expressions = extractExpressions(trimmed);
+    let node: ExpressionNode;
+    if (expressions.length === 0) {
+        node = parseExpression(trimmed);
+    } else if (expressions.length === 1 && expressions[0].start === 0 && expressions[0].end === trimmed.length) {
+        node = parseExpression(expressions[0].expression);
+    } else {
+        // 表达式与文本混合时结果是字符串，非空即为真
+        const value = interpolate(trimmed, context);
+        return value instanceof UnknownValue ? value : value !== '';
+    }
+
+    const usesStatus = containsStatusFunction(node);
+    const value = evaluate(node, context);
+    const result = value instanceof UnknownValue ? value : isTruthy(value);
+    if (usesStatus) return result;
+
+    // 隐含的 success()
+    const success = context.status.success;
+    if (success === false) return false;
+    if (success === undefined) return result === false ? false : UnknownValue.merge(result, new UnknownValue(['success()']));
+    return result;
+}
+
+/**
+ * 展开文本中的 ${{ }}，任一表达式未知时返回 UnknownValue
+ */
+export function interpolate(text: string, context: EvaluationContext): string | UnknownValue {
+    let result = '';
+    let lastIndex = 0;
+    const unknowns: UnknownValue[] = [];
+    for (const expr of extractExpressions(text)) {
+        const value = evaluate(parseExpression(expr.expression), context);
+        if (value instanceof UnknownValue) unknowns.push(value);
+        result += text.slice(lastIndex, expr.start) + toDisplayString(value);
+        lastIndex = expr.end;
+    }
+    result += text.slice(lastIndex);
+    return unknowns.length > 0 ? UnknownValue.merge(...unknowns) : result;
+}
+
+export function evaluate(node: ExpressionNode, context: EvaluationContext): ExpressionValue {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'context':
+            return lookup(context.contexts, node.name) ?? null;
+        case 'property': {
+            const object = evaluate(node.object, context);
+            return access(object, node.name);
+        }
+        case 'index': {
+            const object = evaluate(node.object, context);
+            const index = evaluate(node.index, context);
+            if (index instanceof UnknownValue) return index;
+            return access(object, typeof index === 'number' ? index : toDisplayString(index));
+        }
+        case 'wildcard': {
+            const object = evaluate(node.object, context);
+            if (object instanceof UnknownValue) return object;
+            if (Array.isArray(object)) return object;
+            if (object !== null && typeof object === 'object') return Object.values(object);
+            return [];
+        }
+        case 'unary': {
+            const operand = evaluate(node.operand, context);
+            return operand instanceof UnknownValue ? operand : !isTruthy(operand);
+        }
+        case 'binary':
+            return evaluateBinary(node.operator, node.left, node.right, context);
+        case 'call':
+            return callFunction(node.name.toLowerCase(), node.args, context);
+    }
+}
+
+export function isTruthy(value: ExpressionValue): boolean {
+    if (value === null || value === false || value === '' || value === 0) return false;
+    if (typeof value === 'number' && isNaN(value)) return false;
+    return true;
+}
+
+/**
+ * 显示用的字符串形式，与 GitHub 把值插入文本时一致
+ */
+export function toDisplayString(value: ExpressionValue): string {
+    if (value instanceof UnknownValue) return `<${value.sources.join(', ')}>`;
+    if (value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    return String(value);
+}
+
+function evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, context: EvaluationContext): ExpressionValue {
+    const left = evaluate(leftNode, context);
+
+    if (operator === '&&' || operator === '||') {
+        if (!(left instanceof UnknownValue)) {
+            const shortCircuit = operator === '&&' ? !isTruthy(left) : isTruthy(left);
+            return shortCircuit ? left : evaluate(rightNode, context);
+        }
+        // 左侧未知时，右侧已知且能决定结果的情况仍可确定真假
+        const right = evaluate(rightNode, context);
+        if (!(right instanceof UnknownValue) && (operator === '&&' ? !isTruthy(right) : isTruthy(right))) {
+            return right;
+        }
+        return UnknownValue.merge(left, right);
+    }
+
+    const right = evaluate(rightNode, context);
+    if (left instanceof UnknownValue || right instanceof UnknownValue) {
+        return UnknownValue.merge(left, right);
+    }
+
+    switch (operator) {
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        default: {
+            const [a, b] = typeof left === 'string' && typeof right === 'string'
+                ? [left.toLowerCase(), right.toLowerCase()]
+                : [toNumber(left), toNumber(right)];
+            switch (operator) {
+                case '<': return a < b;
+                case '<=': return a <= b;
+                case '>': return a > b;
+                default: return a >= b;
+            }
+        }
+    }
+}
+
+function callFunction(name: string, argNodes: ExpressionNode[], context: EvaluationContext): ExpressionValue {
+    switch (name) {
+        case 'success':
+            return context.status.success ?? new UnknownValue(['success()']);
+        case 'failure':
+            return context.status.failure ?? new UnknownValue(['failure()']);
+        case 'cancelled':
+            return context.status.cancelled;
+        case 'always':
+            return true;
+    }
+
+    const args = argNodes.map(arg => evaluate(arg, context));
+    const unknown = args.filter(arg => arg instanceof UnknownValue);
+    if (unknown.length > 0) return UnknownValue.merge(...unknown);
+
+    switch (name) {
+        case 'contains': {
+            const [search, item] = args;
+            if (Array.isArray(search)) return search.some(element => looseEquals(element, item));
+            return toDisplayString(search).toLowerCase().includes(toDisplayString(item).toLowerCase());
+        }
+        case 'startswith':
+            return toDisplayString(args[0]).toLowerCase().startsWith(toDisplayString(args[1]).toLowerCase());
+        case 'endswith':
+            return toDisplayString(args[0]).toLowerCase().endsWith(toDisplayString(args[1]).toLowerCase());
+        case 'format': {
+            const [format, ...values] = args;
+            return toDisplayString(format).replace(/\{\{|\}\}|\{(\d+)\}/g, (match, index?: string) => {
+                if (match === '{{') return '{';
+                if (match === '}}') return '}';
+                return toDisplayString(values[Number(index)] ?? null);
+            });
+        }
+        case 'join': {
+            const [list, separator] = args;
+            const items = Array.isArray(list) ? list : [list];
+            return items.map(toDisplayString).join(separator === undefined ? ',' : toDisplayString(separator));
+        }
+        case 'tojson':
+            return JSON.stringify(args[0], null, 2);
+        case 'fromjson':
+            try {
+                return JSON.parse(toDisplayString(args[0])) as ExpressionValue;
+            } catch {
+                throw new Error(`fromJSON 的参数不是有效的 JSON: ${toDisplayString(args[0])}`);
+            }
+        case 'hashfiles':
+            return new UnknownValue([`hashFiles(${args.map(toDisplayString).join(', ')})`]);
+        default:
+            throw new Error(`未知的函数 ${name}`);
+    }
+}
+
+function containsStatusFunction(node: ExpressionNode): boolean {
+    switch (node.type) {
+        case 'call':
+            return STATUS_FUNCTIONS.includes(node.name.toLowerCase()) || node.args.some(containsStatusFunction);
+        case 'unary':
+            return containsStatusFunction(node.operand);
+        case 'binary':
+            return containsStatusFunction(node.left) || containsStatusFunction(node.right);
+        case 'property':
+        case 'wildcard':
+            return containsStatusFunction(node.object);
+        case 'index':
+            return containsStatusFunction(node.object) || containsStatusFunction(node.index);
+        default:
+            return false;
+    }
+}
+
+function access(object: ExpressionValue, key: string | number): ExpressionValue {
+    if (object instanceof UnknownValue) return object;
+    if (Array.isArray(object)) {
+        if (typeof key === 'number') return object[key] ?? null;
+        // 过滤后的数组（a.*.b）对每个元素取属性
+        return object.map(element => access(element, key)).filter(v => v !== null);
+    }
+    if (object !== null && typeof object === 'object') {
+        return lookup(object, String(key)) ?? null;
+    }
+    return null;
+}
+
+function lookup(object: { [key: string]: ExpressionValue }, key: string): ExpressionValue | undefined {
+    if (key in object) return object[key];
+    const lower = key.toLowerCase();
+    const match = Object.keys(object).find(k => k.toLowerCase() === lower);
+    return match !== undefined ? object[match] : undefined;
+}
+
+function looseEquals(left: ExpressionValue, right: ExpressionValue): boolean {
+    if (typeof left === 'string' && typeof right === 'string') {
+        return left.toLowerCase() === right.toLowerCase();
+    }
+    if (typeof left === 'object' && left !== null || typeof right === 'object' && right !== null) {
+        return left === right;
+    }
+    if (typeof left === typeof right) return left === right;
+    return toNumber(left) === toNumber(right);
+}
+
+function toNumber(value: ExpressionValue): number {
+    if (value === null) return 0;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') return value.trim() === '' ? 0 : Number(value);
+    return NaN;
+}
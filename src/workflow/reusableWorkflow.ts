@@ -0,0 +1,397 @@
+import { parseDocument, visit, isMap, isScalar, stringify, YAMLMap } from 'yaml';
+import { findSecretReferences } from './secretReferences';
+
+/**
+ * 可复用工作流（workflow_call）与组合操作（composite action）转换
+ *
+ * - 可复用工作流：触发条件改为 workflow_call，workflow_dispatch 的输入变为类型化输入，引用的 Secret 声明为调用方传入
+ * - 组合操作：单个 job 的步骤放到 runs.steps，Secret 和 matrix 变量改为输入（组合操作无法访问 secrets / matrix）
+ * - 调用方工作流：保留原触发条件和权限，只剩一个 uses 调用
+ */
+
+export type WorkflowCallInputType = 'string' | 'boolean' | 'number';
+
+export interface WorkflowCallInput {
+    name: string;
+    type: WorkflowCallInputType;
+    description?: string;
+    required: boolean;
+    default?: string | boolean | number;
+}
+
+export interface WorkflowInterface {
+    name: string;
+    inputs: WorkflowCallInput[];
+    /** 调用方需要传入的 Secret（不含 GITHUB_TOKEN） */
+    secrets: string[];
+    /** 原工作流的触发条件（不含 workflow_call），生成调用方时使用 */
+    triggers: unknown;
+    permissions?: unknown;
+    /** 源文件本身已是可复用工作流 */
+    isReusable: boolean;
+}
+
+export interface CompositeAction {
+    content: string;
+    /** 调用时传给 with 的值（原工作流上下文中的表达式） */
+    with: Record<string, string>;
+    /** 组合操作之外需要保留在调用方的 job 配置 */
+    job: Record<string, unknown>;
+    /** 调用方在 uses 之前执行的步骤（checkout） */
+    setupSteps: unknown[];
+    outputs: string[];
+    /** 无法转换、被丢弃的内容 */
+    warnings: string[];
+}
+
+type YamlObject = Record<string, unknown>;
+
+/** 组合操作中不支持的 job 字段 */
+const UNSUPPORTED_JOB_KEYS = ['services', 'container'];
+/** 组合操作中不支持的步骤字段 */
+const UNSUPPORTED_STEP_KEYS = ['timeout-minutes'];
+/** 保留在调用方 job 上的字段 */
+const CALLER_JOB_KEYS = ['if', 'needs', 'environment', 'permissions', 'concurrency', 'strategy', 'timeout-minutes', 'services', 'container'];
+
+/** 未指定触发条件的可复用工作流，调用方默认在推送 Tag 或手动运行时触发 */
+const DEFAULT_TRIGGERS = { push: { tags: ['v*'] } };
+
+/**
+ * 读取工作流的输入、Secret、触发条件和权限
+ */
+export function readWorkflowInterface(text: string, fallbackName: string): WorkflowInterface {
+    const workflow = parseWorkflow(text);
+    const on = workflow.on;
+    const triggers: YamlObject = isObject(on) ? { ...on } : typeof on === 'string' ? { [on]: null } : Array.isArray(on) ? Object.fromEntries(on.map(e => [e, null])) : {};
+
+    const workflowCall = triggers.workflow_call;
+    const isReusable = 'workflow_call' in triggers;
+    delete triggers.workflow_call;
+
+    let inputs: WorkflowCallInput[];
+    let secrets: string[];
+    if (isReusable) {
+        const call = isObject(workflowCall) ? workflowCall : {};
+        inputs = readInputs(call.inputs);
+        secrets = isObject(call.secrets) ? Object.keys(call.secrets) : [];
+    } else {
+        const dispatch = triggers.workflow_dispatch;
+        inputs = readInputs(isObject(dispatch) ? dispatch.inputs : undefined);
+        secrets = [...new Set(findSecretReferences(text).map(r => r.name))];
+    }
+
+    // 只有 workflow_call 时调用方没有可参照的触发条件
+    let callerTriggers: unknown = triggers;
+    if (Object.keys(triggers).length === 0) {
+        callerTriggers = { ...DEFAULT_TRIGGERS, workflow_dispatch: inputs.length > 0 ? { inputs: toDispatchInputs(inputs) } : null };
+    }
+
+    return {
+        name: typeof workflow.name === 'string' ? workflow.name : fallbackName,
+        inputs,
+        secrets,
+        triggers: callerTriggers,
+        permissions: workflow.permissions,
+        isReusable
+    };
+}
+
+/**
+ * 转换为可复用工作流：触发条件替换为 workflow_call，其余内容保持不变
+ */
+export function toReusableWorkflow(text: string, iface: WorkflowInterface): string {
+    const doc = parseDocument(text);
+    if (!isMap(doc.contents)) {
+        throw new Error('工作流顶层不是映射');
+    }
+
+    const workflowCall: YamlObject = {};
+    if (iface.inputs.length > 0) {
+        workflowCall.inputs = Object.fromEntries(iface.inputs.map(input => [input.name, {
+            ...(input.description ? { description: input.description } : {}),
+            type: input.type,
+            required: input.required,
+            ...(input.default !== undefined ? { default: input.default } : {})
+        }]));
+    }
+    if (iface.secrets.length > 0) {
+        workflowCall.secrets = Object.fromEntries(iface.secrets.map(name => [name, { required: true }]));
+    }
+    (doc.contents as YAMLMap).set('on', doc.createNode({ workflow_call: Object.keys(workflowCall).length > 0 ? workflowCall : null }));
+
+    // 被调用时 github.event 是调用方的事件，手动运行的输入改从 inputs 读取（原值是字符串，保持字符串语义）
+    const types = new Map(iface.inputs.map(input => [input.name, input.type]));
+    const replace = (path: string): string | undefined => {
+        const match = path.match(/^github\.event\.inputs\.(.+)$/);
+        if (!match) return undefined;
+        return types.get(match[1]) === 'string' ? `inputs.${match[1]}` : `format('{0}', inputs.${match[1]})`;
+    };
+
+    visit(doc, {
+        Pair(_, pair) {
+            if (isScalar(pair.key) && pair.key.value === 'if' && isScalar(pair.value) && typeof pair.value.value === 'string' && !pair.value.value.includes('${{')) {
+                pair.value.value = rewriteContextPaths(pair.value.value, replace);
+            }
+        }
+    });
+    return rewriteExpressions(doc.toString({ lineWidth: 0 }), replace);
+}
+
+/**
+ * 把指定 job 的步骤转换为组合操作
+ */
+export function toCompositeAction(text: string, jobId: string, iface: WorkflowInterface, description: string): CompositeAction {
+    const workflow = parseWorkflow(text);
+    const jobs = isObject(workflow.jobs) ? workflow.jobs : {};
+    const job = jobs[jobId];
+    if (!isObject(job) || !Array.isArray(job.steps)) {
+        throw new Error(`作业 ${jobId} 没有 steps（调用其他工作流的作业无法转换）`);
+    }
+
+    const warnings: string[] = [];
+    const actionInputs: YamlObject = {};
+    const withValues: Record<string, string> = {};
+    const booleanInputs = new Set(iface.inputs.filter(i => i.type === 'boolean').map(i => i.name));
+
+    for (const input of iface.inputs) {
+        actionInputs[input.name] = {
+            description: input.description ?? input.name,
+            required: input.required,
+            ...(input.default !== undefined ? { default: String(input.default) } : {})
+        };
+        withValues[input.name] = passInput(input);
+    }
+
+    // 组合操作没有 secrets / matrix 上下文，引用到的值改为输入
+    const replace = (path: string): string | undefined => {
+        const [context, name, ...rest] = path.split('.');
+        if (context === 'secrets' && name) {
+            if (name === 'GITHUB_TOKEN') return ['github.token', ...rest].join('.');
+            const inputName = name.toLowerCase();
+            if (!actionInputs[inputName]) {
+                actionInputs[inputName] = { description: `Secret ${name}`, required: true };
+                withValues[inputName] = `\${{ secrets.${name} }}`;
+            }
+            return [`inputs.${inputName}`, ...rest].join('.');
+        }
+        if (context === 'matrix' && name) {
+            const inputName = actionInputs[name] && withValues[name] !== `\${{ matrix.${name} }}` ? `matrix_${name}` : name;
+            if (!actionInputs[inputName]) {
+                actionInputs[inputName] = { description: `matrix.${name}`, required: true };
+                withValues[inputName] = `\${{ matrix.${name} }}`;
+            }
+            return [`inputs.${inputName}`, ...rest].join('.');
+        }
+        if (context === 'github' && name === 'event' && rest[0] === 'inputs' && rest[1]) {
+            return `inputs.${rest[1]}`;
+        }
+        // 组合操作的输入都是字符串，布尔输入需要显式比较
+        if (context === 'inputs' && name && booleanInputs.has(name) && rest.length === 0) {
+            return `(inputs.${name} == 'true')`;
+        }
+        if (context === 'needs' || context === 'strategy') {
+            warnings.push(`步骤引用了 ${path}，组合操作中不可用`);
+        }
+        return undefined;
+    };
+
+    const defaults = { ...readRunDefaults(workflow.defaults), ...readRunDefaults(job.defaults) };
+    const runsOn = JSON.stringify(job['runs-on'] ?? '');
+    const shell = defaults.shell ?? (/windows/i.test(runsOn) ? 'pwsh' : 'bash');
+    const env = { ...(isObject(workflow.env) ? workflow.env : {}), ...(isObject(job.env) ? job.env : {}) };
+
+    const setupSteps: unknown[] = [];
+    const steps: unknown[] = [];
+    for (const rawStep of job.steps) {
+        if (!isObject(rawStep)) continue;
+        // 代码检出由调用方完成
+        if (typeof rawStep.uses === 'string' && rawStep.uses.startsWith('actions/checkout@')) {
+            setupSteps.push(rawStep);
+            continue;
+        }
+
+        const step: YamlObject = { ...rawStep };
+        for (const key of UNSUPPORTED_STEP_KEYS) {
+            if (key in step) {
+                const label = step.name ?? step.id ?? step.uses ?? String(step.run).split('\n')[0];
+                warnings.push(`步骤 ${label} 的 ${key} 在组合操作中不支持，已移除`);
+                delete step[key];
+            }
+        }
+        if (typeof step.run === 'string') {
+            step.shell ??= shell;
+            if (defaults['working-directory'] && !step['working-directory']) {
+                step['working-directory'] = defaults['working-directory'];
+            }
+        }
+        if (Object.keys(env).length > 0) {
+            step.env = { ...env, ...(isObject(step.env) ? step.env : {}) };
+        }
+        steps.push(rewriteValue(step, replace));
+    }
+
+    for (const key of UNSUPPORTED_JOB_KEYS) {
+        if (key in job) warnings.push(`作业的 ${key} 在组合操作中不支持，保留在调用方`);
+    }
+
+    const outputs = isObject(job.outputs) ? job.outputs : {};
+    const action: YamlObject = {
+        name: iface.name,
+        description,
+        ...(Object.keys(actionInputs).length > 0 ? { inputs: actionInputs } : {}),
+        ...(Object.keys(outputs).length > 0 ? {
+            outputs: Object.fromEntries(Object.entries(outputs).map(([name, value]) => [name, { description: name, value: rewriteValue(value, replace) }]))
+        } : {}),
+        runs: { using: 'composite', steps }
+    };
+
+    const callerJob: YamlObject = { 'runs-on': job['runs-on'] };
+    for (const key of CALLER_JOB_KEYS) {
+        if (key in job) callerJob[key] = job[key];
+    }
+
+    return {
+        content: stringify(action, { lineWidth: 0 }),
+        with: withValues,
+        job: callerJob,
+        setupSteps,
+        outputs: Object.keys(outputs),
+        warnings: [...new Set(warnings)]
+    };
+}
+
+/**
+ * 生成调用可复用工作流的调用方
+ * @param uses owner/repo/.github/workflows/x.yml@ref
+ */
+export function buildReusableCaller(iface: WorkflowInterface, jobId: string, uses: string): string {
+    const job: YamlObject = { uses };
+    if (iface.inputs.length > 0) {
+        job.with = Object.fromEntries(iface.inputs.map(input => [input.name, passInput(input)]));
+    }
+    if (iface.secrets.length > 0) {
+        job.secrets = Object.fromEntries(iface.secrets.map(name => [name, `\${{ secrets.${name} }}`]));
+    }
+    return stringifyWorkflow(iface, { [jobId]: job });
+}
+
+/**
+ * 生成调用组合操作的调用方
+ * @param uses owner/repo/.github/actions/x@ref
+ */
+export function buildCompositeCaller(iface: WorkflowInterface, jobId: string, uses: string, action: CompositeAction): string {
+    const step: YamlObject = { name: iface.name };
+    if (action.outputs.length > 0) step.id = 'action';
+    step.uses = uses;
+    if (Object.keys(action.with).length > 0) step.with = action.with;
+
+    const job: YamlObject = {
+        ...action.job,
+        ...(action.outputs.length > 0 ? { outputs: Object.fromEntries(action.outputs.map(name => [name, `\${{ steps.action.outputs.${name} }}`])) } : {}),
+        steps: [...(action.setupSteps.length > 0 ? action.setupSteps : [{ name: 'Checkout', uses: 'actions/checkout@v4' }]), step]
+    };
+    return stringifyWorkflow(iface, { [jobId]: job });
+}
+
+function stringifyWorkflow(iface: WorkflowInterface, jobs: YamlObject): string {
+    const workflow: YamlObject = { name: iface.name, on: iface.triggers };
+    if (iface.permissions !== undefined) workflow.permissions = iface.permissions;
+    workflow.jobs = jobs;
+    return stringify(workflow, { lineWidth: 0, nullStr: '' });
+}
+
+/**
+ * 调用方把手动运行的输入传下去；推送 Tag 等事件没有 inputs，此时使用默认值
+ */
+function passInput(input: WorkflowCallInput): string {
+    const ref = `inputs.${input.name}`;
+    const fallback = input.default ?? (input.type === 'boolean' ? false : undefined);
+    if (fallback === undefined || fallback === '') return `\${{ ${ref} }}`;
+
+    const literal = typeof fallback === 'string' ? `'${fallback.replace(/'/g, '\'\'')}'` : String(fallback);
+    // 默认值为真值时不能写成 a || default，否则手动选择的 false 会被默认值覆盖
+    return fallback ? `\${{ ${ref} == null && ${literal} || ${ref} }}` : `\${{ ${ref} || ${literal} }}`;
+}
+
+function readInputs(node: unknown): WorkflowCallInput[] {
+    if (!isObject(node)) return [];
+    return Object.entries(node).map(([name, value]) => {
+        const spec = isObject(value) ? value : {};
+        const rawType = typeof spec.type === 'string' ? spec.type : 'string';
+        // workflow_call 只支持 string / boolean / number，choice 与 environment 退化为 string
+        const type: WorkflowCallInputType = rawType === 'boolean' || rawType === 'number' ? rawType : 'string';
+        let description = typeof spec.description === 'string' ? spec.description : undefined;
+        if (rawType === 'choice' && Array.isArray(spec.options)) {
+            description = `${description ?? name}（可选值: ${spec.options.join(', ')}）`;
+        }
+        const input: WorkflowCallInput = { name, type, required: spec.required === true };
+        if (description) input.description = description;
+        if (spec.default !== undefined && spec.default !== null) input.default = spec.default as string | boolean | number;
+        return input;
+    });
+}
+
+function toDispatchInputs(inputs: WorkflowCallInput[]): YamlObject {
+    return Object.fromEntries(inputs.map(input => [input.name, {
+        ...(input.description ? { description: input.description } : {}),
+        type: input.type,
+        required: input.required,
+        ...(input.default !== undefined ? { default: input.default } : {})
+    }]));
+}
+
+function readRunDefaults(defaults: unknown): Record<string, string> {
+    const run = isObject(defaults) && isObject(defaults.run) ? defaults.run : {};
+    return Object.fromEntries(Object.entries(run).filter(([, v]) => typeof v === 'string')) as Record<string, string>;
+}
+
+function parseWorkflow(text: string): YamlObject {
+    const doc = parseDocument(text);
+    if (doc.errors.length > 0) {
+        throw new Error(`YAML 解析失败: ${doc.errors[0].message.split('\n')[0]}`);
+    }
+    const workflow = doc.toJS();
+    if (!isObject(workflow)) {
+        throw new Error('工作流顶层不是映射');
+    }
+    return workflow;
+}
+
+/**
+ * 递归改写值中的表达式；if 的值即使没有 ${{ }} 也是表达式
+ */
+function rewriteValue(value: unknown, replace: (path: string) => string | undefined, key?: string): unknown {
+    if (typeof value === 'string') {
+        return key === 'if' && !value.includes('${{')
+            ? rewriteContextPaths(value, replace)
+            : rewriteExpressions(value, replace);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => rewriteValue(item, replace));
+    }
+    if (isObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, rewriteValue(v, replace, k)]));
+    }
+    return value;
+}
+
+/**
+ * 改写文本中所有 ${{ }} 表达式里的上下文路径
+ */
+function rewriteExpressions(text: string, replace: (path: string) => string | undefined): string {
+    return text.replace(/\$\{\{([\s\S]*?)\}\}/g, (whole, expression: string) => `\${{${rewriteContextPaths(expression, replace)}}}`);
+}
+
+/**
+ * 改写表达式中的上下文路径（跳过字符串字面量），replace 返回 undefined 时保持原样
+ */
+function rewriteContextPaths(expression: string, replace: (path: string) => string | undefined): string {
+    return expression.split(/('(?:[^']|'')*')/).map((part, index) => {
+        if (index % 2 === 1) return part;
+        return part.replace(/(?<![\w.-])[A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)+/g, path => replace(path) ?? path);
+    }).join('');
+}
+
+function isObject(value: unknown): value is YamlObject {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,70 @@
+import { parseDocument, isMap } from 'yaml';
+import { collectContextPaths, extractExpressions, parseExpression } from './expression';
+
+export interface SecretReference {
+    name: string;
+    /** 从 1 开始的行号 */
+    line: number;
+}
+
+/** GitHub 自动提供的 Secret，不需要手动创建 */
+export const BUILTIN_SECRETS = ['GITHUB_TOKEN'];
+
+/**
+ * 找出工作流中所有 secrets.* 引用（语法错误的表达式跳过，由工作流检查负责报告）
+ */
+export function findSecretReferences(text: string): SecretReference[] {
+    const references: SecretReference[] = [];
+
+    let expressions;
+    try {
+        expressions = extractExpressions(text);
+    } catch {
+        return references;
+    }
+
+    for (const expr of expressions) {
+        let paths: string[];
+        try {
+            paths = collectContextPaths(parseExpression(expr.expression));
+        } catch {
+            continue;
+        }
+
+        const line = text.slice(0, expr.start).split('\n').length;
+        for (const path of paths) {
+            const [context, name] = path.split('.');
+            if (context === 'secrets' && name && !BUILTIN_SECRETS.includes(name)) {
+                references.push({ name, line });
+            }
+        }
+    }
+
+    return references;
+}
+
+/**
+ * 可复用工作流在 on.workflow_call.secrets 中声明的 Secret 由调用方传入，不需要在本仓库创建
+ */
+export function getCallerProvidedSecrets(text: string): string[] {
+    const doc = parseDocument(text);
+    const on = doc.contents && isMap(doc.contents) ? doc.contents.get('on') : undefined;
+    if (!isMap(on)) return [];
+
+    const workflowCall = on.get('workflow_call');
+    const secrets = isMap(workflowCall) ? workflowCall.get('secrets') : undefined;
+    if (!isMap(secrets)) return [];
+
+    return secrets.items.map(pair => String(pair.key));
+}
+
+/**
+ * 工作流中是否有 job 以 secrets: inherit 调用可复用工作流（被调用方可使用本仓库的全部 Secret）
+ */
+export function inheritsSecrets(text: string): boolean {
+    const doc = parseDocument(text);
+    const jobs = doc.contents && isMap(doc.contents) ? doc.contents.get('jobs') : undefined;
+    if (!isMap(jobs)) return false;
+
+    return jobs.items.some(pair => isMap(pair.value) && String(pair.value.get('secrets')) === 'inherit');
+}
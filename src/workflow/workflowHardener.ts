@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { hardenWorkflow, findUnpinnedActions, HardeningOptions, HardeningResult } from './workflowHardening';
+import { ActionPinResolver } from '../git/actionPinResolver';
+import { WorkflowWriter } from '../generators/workflowWriter';
+import { WorkspaceManager } from '../git/workspaceManager';
+
+type HardeningOption = Exclude<keyof HardeningOptions, 'pins'> | 'pin';
+
+/**
+ * 加固工作区中已有的工作流：固定 Action SHA、最小权限、校验和、SBOM 与来源证明
+ */
+export class WorkflowHardener {
+    private workspaceManager = WorkspaceManager.getInstance();
+    private pinResolver = new ActionPinResolver();
+    private workflowWriter = new WorkflowWriter();
+
+    async hardenWorkspace(): Promise<void> {
+        const folder = await this.workspaceManager.selectWorkspaceFolderSmart({ placeHolder: '选择要加固工作流的项目' });
+        if (!folder) return;
+
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '.github/workflows/*.{yml,yaml}'));
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('项目中没有 .github/workflows 下的工作流文件');
+            return;
+        }
+
+        const pickedFiles = await vscode.window.showQuickPick(
+            files.map(file => ({ label: path.basename(file.fsPath), picked: true, file })),
+            { placeHolder: '选择要加固的工作流', canPickMany: true }
+        );
+        if (!pickedFiles || pickedFiles.length === 0) return;
+
+        const options = await this.pickOptions();
+        if (!options) return;
+
+        const texts = new Map<vscode.Uri, string>();
+        for (const { file } of pickedFiles) {
+            texts.set(file, (await vscode.workspace.openTextDocument(file)).getText());
+        }
+
+        let pins: Map<string, string> | undefined;
+        let failedRefs: string[] = [];
+        if (options.has('pin')) {
+            const refs = new Set<string>();
+            for (const [file, text] of texts) {
+                try {
+                    findUnpinnedActions(text, { sbom: options.has('sbom'), provenance: options.has('provenance') }).forEach(ref => refs.add(ref));
+                } catch (error: unknown) {
+                    vscode.window.showErrorMessage(`无法解析 ${path.basename(file.fsPath)}: ${(error as Error).message}`);
+                    return;
+                }
+            }
+            const resolution = await this.pinResolver.resolve([...refs]);
+            if (!resolution) return;
+            pins = resolution.pins;
+            failedRefs = resolution.failed;
+        }
+
+        let written = 0;
+        let unchanged = 0;
+        for (const [file, text] of texts) {
+            const fileName = path.basename(file.fsPath);
+            let result: HardeningResult;
+            try {
+                result = hardenWorkflow(text, {
+                    pins,
+                    permissions: options.has('permissions'),
+                    checksums: options.has('checksums'),
+                    sbom: options.has('sbom'),
+                    provenance: options.has('provenance')
+                });
+            } catch (error: unknown) {
+                vscode.window.showErrorMessage(`无法加固 ${fileName}: ${(error as Error).message}`);
+                continue;
+            }
+
+            if (result.changes.length === 0) {
+                unchanged++;
+                continue;
+            }
+            const relativePath = path.relative(folder.uri.fsPath, file.fsPath).split(path.sep).join('/');
+            if (await this.workflowWriter.writePipeline(folder.uri.fsPath, relativePath, result.content)) {
+                written++;
+                vscode.window.showInformationMessage(`${fileName}: ${result.changes.length} 处改动`, '查看详情').then(action => {
+                    if (action) this.showChanges(fileName, result.changes);
+                });
+            }
+        }
+
+        if (failedRefs.length > 0) {
+            vscode.window.showWarningMessage(`${failedRefs.length} 个 Action 无法解析，保持原版本:\n${failedRefs.join('\n')}`);
+        }
+        if (written === 0 && unchanged > 0) {
+            vscode.window.showInformationMessage(`✅ ${unchanged} 个工作流已满足所选的加固项`);
+        }
+    }
+
+    private async pickOptions(): Promise<Set<HardeningOption> | undefined> {
+        const config = vscode.workspace.getConfiguration('lyugitex.harden');
+        const items: (vscode.QuickPickItem & { value: HardeningOption })[] = [
+            { label: '$(pin) 固定 Action 到提交 SHA', description: '原版本保留为行尾注释', picked: true, value: 'pin' },
+            { label: '$(shield) 最小 permissions', description: '工作流级 contents: read，按需为 job 授权', picked: true, value: 'permissions' },
+            { label: '$(checklist) Release 附件校验和', description: 'SHA256SUMS.txt', picked: true, value: 'checksums' },
+            { label: '$(list-tree) SBOM', description: 'anchore/sbom-action，SPDX JSON 作为 Release 附件', picked: config.get('sbom', false), value: 'sbom' },
+            { label: '$(verified) 构建来源证明', description: 'actions/attest-build-provenance', picked: config.get('provenance', false), value: 'provenance' }
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: '选择加固项', canPickMany: true });
+        if (!picked || picked.length === 0) return undefined;
+        return new Set(picked.map(item => item.value));
+    }
+
+    private async showChanges(fileName: string, changes: string[]): Promise<void> {
+        const content = [`# ${fileName} 加固改动`, '', ...changes.map(change => `- ${change}`), ''].join('\n');
+        const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
+    }
+}
@@ -0,0 +1,363 @@
+import { parseDocument, isMap, isScalar, isSeq, YAMLMap, YAMLSeq, Scalar, Document } from 'yaml';
+
+/**
+ * 工作流供应链加固
+ *
+ * - 把 uses 的 Tag / 分支固定到提交 SHA，原版本写在行尾注释中
+ * - 按各 job 实际用到的操作推断最小 permissions
+ * - 为 softprops/action-gh-release 上传的附件生成 SHA256SUMS.txt
+ * - 可选生成 SPDX SBOM 和构建来源证明（build provenance attestation）
+ */
+
+export interface HardeningOptions {
+    /** owner/repo@ref → 提交 SHA，未提供时不固定 */
+    pins?: Map<string, string>;
+    permissions: boolean;
+    checksums: boolean;
+    sbom: boolean;
+    provenance: boolean;
+}
+
+export interface HardeningResult {
+    content: string;
+    /** 每项改动的说明 */
+    changes: string[];
+}
+
+const SBOM_ACTION = 'anchore/sbom-action@v0';
+const PROVENANCE_ACTION = 'actions/attest-build-provenance@v2';
+const RELEASE_ACTION = 'softprops/action-gh-release';
+const CHECKSUM_FILE = 'SHA256SUMS.txt';
+const SBOM_FILE = 'sbom.spdx.json';
+
+const FULL_SHA = /^[0-9a-f]{40}$/i;
+const ACTION_REF = /^([^/@\s]+\/[^/@\s]+)((?:\/[^@]*)?)@(.+)$/;
+
+/** 推断时会重新计算的权限，其余权限（pages、pull-requests 等）保留原声明 */
+const INFERRED_SCOPES = ['contents', 'packages', 'id-token', 'attestations', 'security-events', 'checks'];
+const SCOPE_ORDER = ['contents', 'packages', 'id-token', 'attestations', 'security-events', 'checks'];
+
+/** 需要 id-token: write 的操作（OIDC 登录或可信发布） */
+const OIDC_ACTIONS = [
+    'pypa/gh-action-pypi-publish', 'aws-actions/configure-aws-credentials', 'azure/login', 'google-github-actions/auth',
+    'actions/attest-build-provenance', 'actions/attest-sbom', 'actions/attest', 'sigstore/cosign-installer'
+];
+const ATTEST_ACTIONS = ['actions/attest-build-provenance', 'actions/attest-sbom', 'actions/attest'];
+const CHECK_ACTIONS = ['dorny/test-reporter', 'EnricoMi/publish-unit-test-result-action'];
+const GITHUB_REGISTRIES = /(nuget|npm|maven|rubygems)\.pkg\.github\.com|ghcr\.io/i;
+
+type Permissions = Record<string, string>;
+
+/**
+ * 工作流中尚未固定到 SHA 的 owner/repo@ref，包括加固时将要添加的操作
+ */
+export function findUnpinnedActions(text: string, options?: Pick<HardeningOptions, 'sbom' | 'provenance'>): string[] {
+    const doc = parseDocument(text);
+    const refs = new Set<string>();
+    for (const node of collectUsesNodes(doc)) {
+        const key = toPinKey(String(node.value));
+        if (key) refs.add(key);
+    }
+    if (options?.sbom) refs.add(SBOM_ACTION);
+    if (options?.provenance) refs.add(PROVENANCE_ACTION);
+    return [...refs];
+}
+
+export function hardenWorkflow(text: string, options: HardeningOptions): HardeningResult {
+    const doc = parseDocument(text);
+    if (doc.errors.length > 0) {
+        throw new Error(`YAML 语法错误: ${doc.errors[0].message}`);
+    }
+    if (!isMap(doc.contents)) {
+        throw new Error('工作流顶层不是映射');
+    }
+
+    const changes: string[] = [];
+    if (options.checksums || options.sbom || options.provenance) {
+        addReleaseHardening(doc, options, changes);
+    }
+    if (options.pins) {
+        pinActions(doc, options.pins, changes);
+    }
+    if (options.permissions) {
+        setMinimalPermissions(doc, changes);
+    }
+
+    return { content: changes.length > 0 ? doc.toString({ lineWidth: 0 }) : text, changes };
+}
+
+/**
+ * uses 的值对应的解析键 owner/repo@ref，本地操作、Docker 镜像和已固定的引用返回 undefined
+ */
+function toPinKey(uses: string): string | undefined {
+    const match = uses.match(ACTION_REF);
+    if (!match || FULL_SHA.test(match[3])) return undefined;
+    return `${match[1]}@${match[3]}`;
+}
+
+function pinActions(doc: Document, pins: Map<string, string>, changes: string[]): void {
+    for (const node of collectUsesNodes(doc)) {
+        const uses = String(node.value);
+        const key = toPinKey(uses);
+        const sha = key ? pins.get(key) : undefined;
+        if (!key || !sha) continue;
+
+        const [, action, subPath, ref] = uses.match(ACTION_REF)!;
+        node.value = `${action}${subPath}@${sha}`;
+        node.comment = ` ${ref}`;
+        changes.push(`${action}${subPath}@${ref} 固定为 ${sha.slice(0, 12)}`);
+    }
+}
+
+/**
+ * job 级 uses（可复用工作流）和各步骤的 uses
+ */
+function collectUsesNodes(doc: Document): Scalar[] {
+    const nodes: Scalar[] = [];
+    const jobs = isMap(doc.contents) ? doc.contents.get('jobs') : undefined;
+    if (!isMap(jobs)) return nodes;
+
+    for (const pair of jobs.items) {
+        const job = pair.value;
+        if (!isMap(job)) continue;
+        const jobUses = job.get('uses', true);
+        if (isScalar(jobUses)) nodes.push(jobUses);
+
+        const steps = job.get('steps');
+        if (!isSeq(steps)) continue;
+        for (const step of steps.items) {
+            if (!isMap(step)) continue;
+            const uses = step.get('uses', true);
+            if (isScalar(uses)) nodes.push(uses);
+        }
+    }
+    return nodes;
+}
+
+/**
+ * 在 Release 步骤前插入 SBOM、校验和与来源证明步骤，并把生成的文件加入附件
+ */
+function addReleaseHardening(doc: Document, options: HardeningOptions, changes: string[]): void {
+    const jobs = (doc.contents as YAMLMap).get('jobs');
+    if (!isMap(jobs)) return;
+
+    for (const pair of jobs.items) {
+        const job = pair.value;
+        const steps = isMap(job) ? job.get('steps') : undefined;
+        if (!isSeq(steps)) continue;
+
+        const releaseIndex = steps.items.findIndex(step => isMap(step) && String(step.get('uses') ?? '').startsWith(`${RELEASE_ACTION}@`));
+        if (releaseIndex < 0) continue;
+
+        const release = steps.items[releaseIndex] as YAMLMap;
+        const withMap = release.get('with');
+        const files = isMap(withMap) ? String(withMap.get('files') ?? '').split('\n').map(f => f.trim()).filter(Boolean) : [];
+        if (files.length === 0) continue;
+
+        const jobText = String(job);
+        const condition = release.get('if');
+        const inserted: unknown[] = [];
+        const addedFiles: string[] = [];
+
+        if (options.sbom && !jobText.includes('anchore/sbom-action') && !files.includes(SBOM_FILE)) {
+            inserted.push({
+                name: 'Generate SBOM',
+                uses: SBOM_ACTION,
+                with: { path: '.', format: 'spdx-json', 'output-file': SBOM_FILE, 'upload-artifact': false, 'upload-release-assets': false }
+            });
+            addedFiles.push(SBOM_FILE);
+            changes.push(`job ${pair.key} 生成 SBOM（${SBOM_FILE}）`);
+        }
+
+        // 已自行生成校验和的工作流（如二进制发布）不再重复
+        if (options.checksums && !/sha256sum|SHA256SUMS/i.test(jobText)) {
+            const subjects = [...files, ...addedFiles];
+            inserted.push({
+                name: 'Generate checksums',
+                shell: 'bash',
+                run: [
+                    'shopt -s nullglob',
+                    `files=(${subjects.join(' ')})`,
+                    '# 只保留文件名，下载附件后可直接 sha256sum -c 校验',
+                    `sha256sum "\${files[@]}" | sed 's|  .*/|  |' > ${CHECKSUM_FILE}`,
+                    ''
+                ].join('\n')
+            });
+            addedFiles.push(CHECKSUM_FILE);
+            changes.push(`job ${pair.key} 为 Release 附件生成 ${CHECKSUM_FILE}`);
+        }
+
+        if (options.provenance && !ATTEST_ACTIONS.some(a => jobText.includes(a))) {
+            inserted.push({
+                name: 'Attest build provenance',
+                ...(condition !== undefined ? { if: condition } : {}),
+                uses: PROVENANCE_ACTION,
+                with: { 'subject-path': [...files, ...addedFiles].join('\n') + '\n' }
+            });
+            changes.push(`job ${pair.key} 添加构建来源证明`);
+        }
+
+        if (inserted.length === 0) continue;
+
+        // 与 Release 步骤的空行风格保持一致
+        const nodes = inserted.map(step => doc.createNode(step));
+        nodes.forEach(node => node.spaceBefore = release.spaceBefore);
+        steps.items.splice(releaseIndex, 0, ...nodes);
+        if (addedFiles.length > 0) {
+            (withMap as YAMLMap).set('files', doc.createNode([...files, ...addedFiles].join('\n') + '\n'));
+        }
+    }
+}
+
+/**
+ * 工作流级别只授予 contents: read，需要更多权限的 job 单独声明
+ */
+function setMinimalPermissions(doc: Document, changes: string[]): void {
+    const root = doc.contents as YAMLMap;
+    const jobs = root.get('jobs');
+    if (!isMap(jobs)) return;
+
+    const workflowNode = root.get('permissions', true);
+    const workflowPermissions = readPermissions(workflowNode);
+    const readOnly: Permissions = { contents: 'read' };
+
+    const jobPermissions = new Map<string, Permissions>();
+    for (const pair of jobs.items) {
+        const job = pair.value;
+        if (!isMap(job)) continue;
+        const id = String(isScalar(pair.key) ? pair.key.value : pair.key);
+
+        // 可复用工作流的权限需求无法推断：沿用原来继承的工作流级别权限，未声明时提示确认
+        if (job.has('uses')) {
+            if (job.has('permissions') || sameJson(workflowPermissions, readOnly)) continue;
+            if (workflowNode) {
+                job.set('permissions', doc.createNode(workflowNode.toJSON()));
+                changes.push(`job ${id} 调用可复用工作流，沿用原工作流级别的 permissions`);
+            } else {
+                changes.push(`job ${id} 调用可复用工作流，权限需求无法推断，请确认 contents: read 是否足够`);
+            }
+            continue;
+        }
+        const existing = readPermissions(job.get('permissions')) ?? workflowPermissions;
+        jobPermissions.set(id, inferJobPermissions(job, existing));
+
+        // 原来继承默认权限或 write-all 时无法得知 job 是否需要 pull-requests、issues 等写权限
+        if (!existing) {
+            const jobNode = job.get('permissions', true);
+            const source = isScalar(jobNode) ? jobNode : workflowNode;
+            if (!isScalar(source) || source.value !== 'read-all') {
+                const inherited = isScalar(source) ? `permissions: ${source.value}` : '仓库默认的 GITHUB_TOKEN 权限';
+                changes.push(`job ${id} 原来使用 ${inherited}，只能推断 ${INFERRED_SCOPES.join('、')} 权限，请确认是否还需要 pull-requests、issues、statuses 等写权限`);
+            }
+        }
+    }
+
+    if (!sameJson(workflowPermissions, readOnly)) {
+        const before = workflowNode ? `（原为 ${isScalar(workflowNode) ? workflowNode.value : formatPermissions(workflowPermissions ?? {})}）` : '';
+        if (workflowNode) {
+            root.set('permissions', doc.createNode(readOnly));
+        } else {
+            const jobsIndex = root.items.findIndex(p => isScalar(p.key) && p.key.value === 'jobs');
+            root.items.splice(jobsIndex, 0, doc.createPair('permissions', readOnly));
+        }
+        changes.push(`工作流级别 permissions 改为 contents: read${before}`);
+    }
+
+    for (const pair of jobs.items) {
+        const job = pair.value;
+        if (!isMap(job) || job.has('uses')) continue;
+        const id = String(isScalar(pair.key) ? pair.key.value : pair.key);
+        const permissions = jobPermissions.get(id)!;
+        const current = readPermissions(job.get('permissions'));
+
+        if (sameJson(permissions, readOnly)) {
+            if (job.has('permissions')) {
+                job.delete('permissions');
+                changes.push(`job ${id} 只需要 contents: read，移除 job 级 permissions`);
+            }
+            continue;
+        }
+        if (sameJson(current, permissions)) continue;
+
+        setJobPermissions(doc, job, permissions);
+        changes.push(`job ${id} 授予 ${formatPermissions(permissions)}`);
+    }
+}
+
+function inferJobPermissions(job: YAMLMap, existing: Permissions | undefined): Permissions {
+    const steps = job.get('steps');
+    const uses = isSeq(steps)
+        ? (steps as YAMLSeq).items.filter(isMap).map(step => String(step.get('uses') ?? '').split('@')[0])
+        : [];
+    const text = String(job);
+    const usesAny = (actions: string[]) => uses.some(u => actions.some(a => u === a || u.startsWith(`${a}/`)));
+
+    const permissions: Permissions = { contents: 'read' };
+    if (uses.includes(RELEASE_ACTION) || /\bgh release\b|\bgit push\b/.test(text)) {
+        permissions.contents = 'write';
+    }
+
+    const usesToken = /secrets\.GITHUB_TOKEN|github\.token/.test(text);
+    if (GITHUB_REGISTRIES.test(text) || existing?.packages === 'write' && usesToken) {
+        permissions.packages = 'write';
+    }
+
+    const npmProvenance = /npm publish[^\n]*--provenance/.test(text);
+    if (usesAny(OIDC_ACTIONS) || npmProvenance || existing?.['id-token'] === 'write') {
+        permissions['id-token'] = 'write';
+    }
+    if (usesAny(ATTEST_ACTIONS)) {
+        permissions.attestations = 'write';
+    }
+    if (usesAny(['github/codeql-action'])) {
+        permissions['security-events'] = 'write';
+    }
+    if (usesAny(CHECK_ACTIONS)) {
+        permissions.checks = 'write';
+    }
+
+    // 无法推断的权限保留原声明
+    for (const [scope, level] of Object.entries(existing ?? {})) {
+        if (!INFERRED_SCOPES.includes(scope)) permissions[scope] = level;
+    }
+    return permissions;
+}
+
+function setJobPermissions(doc: Document, job: YAMLMap, permissions: Permissions): void {
+    const ordered = Object.fromEntries(Object.entries(permissions).sort(([a], [b]) => rank(a) - rank(b)));
+    const node = doc.createNode(ordered);
+    if (job.has('permissions')) {
+        job.set('permissions', node);
+        return;
+    }
+
+    // 放在 runs-on 之后，与手写工作流的习惯一致
+    const index = job.items.findIndex(p => isScalar(p.key) && ['runs-on', 'needs', 'if', 'name'].includes(String(p.key.value)));
+    const runsOn = job.items.findIndex(p => isScalar(p.key) && p.key.value === 'runs-on');
+    const pair = doc.createPair('permissions', node);
+    job.items.splice((runsOn >= 0 ? runsOn : index) + 1, 0, pair);
+}
+
+function readPermissions(node: unknown): Permissions | undefined {
+    if (!isMap(node)) return undefined;
+    const permissions: Permissions = {};
+    for (const pair of node.items) {
+        if (isScalar(pair.key) && isScalar(pair.value)) {
+            permissions[String(pair.key.value)] = String(pair.value.value);
+        }
+    }
+    return permissions;
+}
+
+function formatPermissions(permissions: Permissions): string {
+    return Object.entries(permissions).map(([scope, level]) => `${scope}: ${level}`).join('、');
+}
+
+function rank(scope: string): number {
+    const index = SCOPE_ORDER.indexOf(scope);
+    return index < 0 ? SCOPE_ORDER.length : index;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { lintWorkflow, LintIssue } from './workflowLinter';
+
+const WORKFLOW_FILE = /[\\/]\.github[\\/]workflows[\\/][^\\/]+\.ya?ml$/;
+
+/**
+ * 工作流检查：把检查结果显示到问题面板，并提供快速修复
+ */
+export class WorkflowLintProvider implements vscode.CodeActionProvider {
+    public static readonly source = 'LyuGitEx';
+    private diagnostics = vscode.languages.createDiagnosticCollection('lyugitex-workflow');
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this.diagnostics,
+            vscode.languages.registerCodeActionsProvider(
+                { pattern: '**/.github/workflows/*.{yml,yaml}' },
+                this,
+                { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+            ),
+            vscode.workspace.onDidSaveTextDocument(doc => {
+                if (this.isLintOnSaveEnabled()) this.lintDocument(doc);
+            }),
+            vscode.workspace.onDidOpenTextDocument(doc => {
+                if (this.isLintOnSaveEnabled()) this.lintDocument(doc);
+            })
+        );
+    }
+
+    /**
+     * 检查工作区中所有工作流文件
+     */
+    async lintWorkspace(): Promise<void> {
+        const files = await vscode.workspace.findFiles('**/.github/workflows/*.{yml,yaml}', '**/node_modules/**');
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('工作区中没有 .github/workflows 下的工作流文件');
+            return;
+        }
+
+        let errors = 0;
+        let warnings = 0;
+        for (const file of files) {
+            const doc = await vscode.workspace.openTextDocument(file);
+            for (const diagnostic of this.lintDocument(doc)) {
+                if (diagnostic.severity === vscode.DiagnosticSeverity.Error) errors++;
+                else warnings++;
+            }
+        }
+
+        if (errors === 0 && warnings === 0) {
+            vscode.window.showInformationMessage(`✅ 已检查 ${files.length} 个工作流文件，没有发现问题`);
+            return;
+        }
+
+        vscode.window.showWarningMessage(`已检查 ${files.length} 个工作流文件：${errors} 个错误，${warnings} 个警告`);
+        await vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+
+    lintDocument(doc: vscode.TextDocument): vscode.Diagnostic[] {
+        if (!WORKFLOW_FILE.test(doc.uri.fsPath)) return [];
+
+        const diagnostics = lintWorkflow(doc.getText()).map(issue => this.toDiagnostic(doc, issue));
+        this.diagnostics.set(doc.uri, diagnostics);
+        return diagnostics;
+    }
+
+    provideCodeActions(doc: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const ours = context.diagnostics.filter(d => d.source === WorkflowLintProvider.source);
+        if (ours.length === 0) return [];
+
+        // 快速修复依赖当前文本的偏移，重新检查一次以获得最新的修复内容
+        const issues = lintWorkflow(doc.getText());
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of ours) {
+            const issue = issues.find(i =>
+                i.code === diagnostic.code &&
+                doc.positionAt(i.start).isEqual(diagnostic.range.start) &&
+                i.message === diagnostic.message
+            );
+            if (!issue) continue;
+
+            for (const fix of issue.fixes) {
+                const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.edit = new vscode.WorkspaceEdit();
+                for (const edit of fix.edits) {
+                    action.edit.replace(doc.uri, new vscode.Range(doc.positionAt(edit.start), doc.positionAt(edit.end)), edit.newText);
+                }
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+
+    private toDiagnostic(doc: vscode.TextDocument, issue: LintIssue): vscode.Diagnostic {
+        const range = new vscode.Range(doc.positionAt(issue.start), doc.positionAt(issue.end));
+        const severity = issue.severity === 'error'
+            ? vscode.DiagnosticSeverity.Error
+            : issue.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information;
+
+        const diagnostic = new vscode.Diagnostic(range, issue.message, severity);
+        diagnostic.source = WorkflowLintProvider.source;
+        diagnostic.code = issue.code;
+        return diagnostic;
+    }
+
+    private isLintOnSaveEnabled(): boolean {
+        return vscode.workspace.getConfiguration('lyugitex.lint').get('onSave', true);
+    }
+}
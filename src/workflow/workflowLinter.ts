@@ -0,0 +1,498 @@
+import { parseDocument, visit, isMap, isPair, isScalar, isSeq, Document, Node, Pair, Scalar, YAMLMap } from 'yaml';
+import { collectContextPaths, extractExpressions, parseExpression, ExpressionError } from './expression';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface TextEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface LintFix {
+    title: string;
+    edits: TextEdit[];
+}
+
+export interface LintIssue {
+    code: string;
+    message: string;
+    severity: LintSeverity;
+    /** 问题在文件中的偏移范围 */
+    start: number;
+    end: number;
+    fixes: LintFix[];
+}
+
+const TOP_LEVEL_KEYS = ['name', 'run-name', 'on', 'permissions', 'env', 'defaults', 'concurrency', 'jobs'];
+
+const JOB_KEYS = [
+    'name', 'permissions', 'needs', 'if', 'runs-on', 'environment', 'concurrency', 'outputs', 'env', 'defaults',
+    'steps', 'timeout-minutes', 'strategy', 'continue-on-error', 'container', 'services', 'uses', 'with', 'secrets'
+];
+
+const STEP_KEYS = ['id', 'if', 'name', 'uses', 'run', 'working-directory', 'shell', 'with', 'env', 'continue-on-error', 'timeout-minutes'];
+
+const STRATEGY_KEYS = ['matrix', 'fail-fast', 'max-parallel'];
+
+const PERMISSION_SCOPES = [
+    'actions', 'attestations', 'checks', 'contents', 'deployments', 'discussions', 'id-token', 'issues', 'models',
+    'packages', 'pages', 'pull-requests', 'repository-projects', 'security-events', 'statuses'
+];
+
+const EVENTS = [
+    'branch_protection_rule', 'check_run', 'check_suite', 'create', 'delete', 'deployment', 'deployment_status',
+    'discussion', 'discussion_comment', 'fork', 'gollum', 'issue_comment', 'issues', 'label', 'merge_group',
+    'milestone', 'page_build', 'public', 'pull_request', 'pull_request_review', 'pull_request_review_comment',
+    'pull_request_target', 'push', 'registry_package', 'release', 'repository_dispatch', 'schedule', 'status',
+    'watch', 'workflow_call', 'workflow_dispatch', 'workflow_run'
+];
+
+/** 各事件允许的配置项，未列出的事件不检查 */
+const EVENT_KEYS: Record<string, string[]> = {
+    push: ['branches', 'branches-ignore', 'tags', 'tags-ignore', 'paths', 'paths-ignore'],
+    pull_request: ['types', 'branches', 'branches-ignore', 'paths', 'paths-ignore'],
+    pull_request_target: ['types', 'branches', 'branches-ignore', 'paths', 'paths-ignore'],
+    workflow_dispatch: ['inputs'],
+    workflow_call: ['inputs', 'outputs', 'secrets']
+};
+
+const INPUT_KEYS: Record<string, string[]> = {
+    workflow_dispatch: ['description', 'required', 'default', 'type', 'options'],
+    workflow_call: ['description', 'required', 'default', 'type']
+};
+
+/** 已弃用的 action 版本（主版本号）及替代版本 */
+const DEPRECATED_ACTIONS: Record<string, { versions: string[]; replacement?: string; reason: string }> = {
+    'softprops/action-gh-release': { versions: ['v1'], replacement: 'v2', reason: 'v1 运行在已停用的 Node 16 上' },
+    'actions/checkout': { versions: ['v1', 'v2', 'v3'], replacement: 'v4', reason: '旧版本运行在已停用的 Node 运行时上' },
+    'actions/setup-node': { versions: ['v1', 'v2', 'v3'], replacement: 'v4', reason: '旧版本运行在已停用的 Node 运行时上' },
+    'actions/setup-dotnet': { versions: ['v1', 'v2', 'v3'], replacement: 'v4', reason: '旧版本运行在已停用的 Node 运行时上' },
+    'actions/setup-python': { versions: ['v1', 'v2', 'v3', 'v4'], replacement: 'v5', reason: '旧版本运行在已停用的 Node 运行时上' },
+    'actions/setup-go': { versions: ['v1', 'v2', 'v3', 'v4'], replacement: 'v5', reason: '旧版本运行在已停用的 Node 运行时上' },
+    'actions/cache': { versions: ['v1', 'v2', 'v3'], replacement: 'v4', reason: '旧版本的缓存服务已下线' },
+    'actions/upload-artifact': { versions: ['v1', 'v2', 'v3'], replacement: 'v4', reason: 'v3 及以下已被 GitHub 停用' },
+    'actions/download-artifact': { versions: ['v1', 'v2', 'v3'], replacement: 'v4', reason: 'v3 及以下已被 GitHub 停用' },
+    'actions/create-release': { versions: ['*'], reason: '仓库已归档，建议改用 softprops/action-gh-release@v2' },
+    'actions/upload-release-asset': { versions: ['*'], reason: '仓库已归档，建议改用 softprops/action-gh-release@v2' }
+};
+
+/**
+ * 检查工作流文件，返回发现的问题
+ */
+export function lintWorkflow(text: string): LintIssue[] {
+    const doc = parseDocument(text);
+
+    if (doc.errors.length > 0) {
+        return doc.errors.map(error => ({
+            code: 'yaml-syntax',
+            message: `YAML 语法错误: ${error.message.split('\n')[0]}`,
+            severity: 'error',
+            start: error.pos[0],
+            end: Math.max(error.pos[1], error.pos[0] + 1),
+            fixes: []
+        }));
+    }
+
+    const linter = new Linter(text, doc);
+    linter.run();
+    return linter.issues;
+}
+
+class Linter {
+    readonly issues: LintIssue[] = [];
+    /** 声明的 inputs，undefined 表示工作流没有 workflow_dispatch / workflow_call */
+    private declaredInputs?: Set<string>;
+
+    constructor(private text: string, private doc: Document) {}
+
+    run(): void {
+        const root = this.doc.contents;
+        if (!isMap(root)) {
+            this.report('invalid-workflow', '工作流顶层必须是映射', 'error', root ?? undefined);
+            return;
+        }
+
+        this.checkKeys(root, TOP_LEVEL_KEYS, '顶层');
+        this.checkTriggers(root.get('on', true) as Node | undefined, root);
+        this.checkPermissions(root.get('permissions', true) as Node | undefined);
+
+        const jobs = root.get('jobs', true);
+        if (!isMap(jobs)) {
+            this.report('missing-jobs', '工作流缺少 jobs', 'error', jobs ?? this.findKeyNode(root, 'on'));
+        } else {
+            this.checkJobs(jobs);
+            this.checkMissingPermissions(root, jobs);
+        }
+
+        this.checkExpressions();
+    }
+
+    private checkTriggers(on: Node | undefined, root: YAMLMap): void {
+        if (on === undefined) {
+            this.report('missing-on', '工作流缺少触发条件 on', 'error', this.findKeyNode(root, 'jobs'));
+            return;
+        }
+
+        const checkEventName = (node: Node) => {
+            if (isScalar(node) && !EVENTS.includes(String(node.value))) {
+                this.report('unknown-event', `未知的触发事件 "${node.value}"`, 'error', node, this.suggest(node, EVENTS));
+            }
+        };
+
+        if (isScalar(on)) {
+            checkEventName(on);
+        } else if (isSeq(on)) {
+            on.items.forEach(item => checkEventName(item as Node));
+        } else if (isMap(on)) {
+            for (const pair of on.items as Pair<Node, Node>[]) {
+                checkEventName(pair.key);
+                const event = String((pair.key as Scalar).value);
+                if (EVENT_KEYS[event] && isMap(pair.value)) {
+                    this.checkKeys(pair.value, EVENT_KEYS[event], `${event} 事件`);
+                }
+                if (INPUT_KEYS[event] && isMap(pair.value)) {
+                    this.collectInputs(event, pair.value.get('inputs', true));
+                } else if (INPUT_KEYS[event]) {
+                    this.declaredInputs = this.declaredInputs ?? new Set();
+                }
+            }
+        }
+
+        // 以列表或字符串形式声明的 workflow_dispatch 没有 inputs
+        const events = isScalar(on) ? [on] : isSeq(on) ? on.items : [];
+        if (events.some(e => isScalar(e) && INPUT_KEYS[String(e.value)])) {
+            this.declaredInputs = this.declaredInputs ?? new Set();
+        }
+    }
+
+    private collectInputs(event: string, inputs: unknown): void {
+        this.declaredInputs = this.declaredInputs ?? new Set();
+        if (!isMap(inputs)) return;
+
+        for (const pair of inputs.items as Pair<Scalar, Node>[]) {
+            this.declaredInputs.add(String(pair.key.value));
+            if (isMap(pair.value)) {
+                this.checkKeys(pair.value, INPUT_KEYS[event], `输入参数 ${pair.key.value}`);
+            }
+        }
+    }
+
+    private checkPermissions(permissions: Node | undefined): void {
+        if (permissions === undefined) return;
+
+        if (isScalar(permissions)) {
+            if (!['read-all', 'write-all'].includes(String(permissions.value))) {
+                this.report('invalid-permissions', 'permissions 只能是 read-all、write-all 或按权限逐项配置', 'error', permissions);
+            }
+            return;
+        }
+        if (!isMap(permissions)) {
+            this.report('invalid-permissions', 'permissions 格式无效', 'error', permissions);
+            return;
+        }
+
+        this.checkKeys(permissions, PERMISSION_SCOPES, 'permissions');
+        for (const pair of permissions.items as Pair<Scalar, Node>[]) {
+            if (isScalar(pair.value) && !['read', 'write', 'none'].includes(String(pair.value.value))) {
+                this.report('invalid-permissions', `权限 ${pair.key.value} 的值只能是 read、write 或 none`, 'error', pair.value);
+            }
+        }
+    }
+
+    private checkJobs(jobs: YAMLMap): void {
+        const jobIds = (jobs.items as Pair<Scalar, Node>[]).map(p => String(p.key.value));
+        const needsGraph = new Map<string, string[]>();
+
+        for (const pair of jobs.items as Pair<Scalar, Node>[]) {
+            const jobId = String(pair.key.value);
+            const job = pair.value;
+            if (!isMap(job)) {
+                this.report('invalid-job', `job "${jobId}" 必须是映射`, 'error', job ?? pair.key);
+                continue;
+            }
+
+            this.checkKeys(job, JOB_KEYS, `job "${jobId}"`);
+            this.checkPermissions(job.get('permissions', true) as Node | undefined);
+
+            if (!job.has('runs-on') && !job.has('uses')) {
+                this.report('missing-runs-on', `job "${jobId}" 缺少 runs-on`, 'error', pair.key);
+            }
+
+            const strategy = job.get('strategy', true);
+            if (isMap(strategy)) {
+                this.checkKeys(strategy, STRATEGY_KEYS, `job "${jobId}" 的 strategy`);
+            }
+
+            needsGraph.set(jobId, this.checkNeeds(jobId, job.get('needs', true) as Node | undefined, jobIds));
+
+            const steps = job.get('steps', true);
+            if (isSeq(steps)) {
+                steps.items.forEach((step, index) => this.checkStep(jobId, index, step as Node));
+            } else if (steps !== undefined) {
+                this.report('invalid-steps', `job "${jobId}" 的 steps 必须是列表`, 'error', steps as Node);
+            } else if (!job.has('uses')) {
+                this.report('missing-steps', `job "${jobId}" 缺少 steps`, 'error', pair.key);
+            }
+        }
+
+        this.checkNeedsCycles(jobs, needsGraph);
+    }
+
+    private checkNeeds(jobId: string, needs: Node | undefined, jobIds: string[]): string[] {
+        if (needs === undefined) return [];
+
+        const items = isSeq(needs) ? needs.items as Node[] : [needs];
+        const result: string[] = [];
+        for (const item of items) {
+            if (!isScalar(item)) {
+                this.report('invalid-needs', `job "${jobId}" 的 needs 格式无效`, 'error', item);
+                continue;
+            }
+            const target = String(item.value);
+            if (!jobIds.includes(target)) {
+                this.report('unknown-needs', `job "${jobId}" 依赖的 job "${target}" 不存在`, 'error', item, this.suggest(item, jobIds.filter(id => id !== jobId)));
+                continue;
+            }
+            result.push(target);
+        }
+        return result;
+    }
+
+    private checkNeedsCycles(jobs: YAMLMap, graph: Map<string, string[]>): void {
+        const state = new Map<string, 'visiting' | 'done'>();
+        const reported = new Set<string>();
+
+        const dfs = (jobId: string, stack: string[]): void => {
+            state.set(jobId, 'visiting');
+            stack.push(jobId);
+
+            for (const next of graph.get(jobId) ?? []) {
+                if (state.get(next) === 'visiting') {
+                    const cycle = [...stack.slice(stack.indexOf(next)), next];
+                    const key = [...new Set(cycle)].sort().join(',');
+                    if (!reported.has(key)) {
+                        reported.add(key);
+                        const job = jobs.get(jobId, true);
+                        const needsNode = isMap(job) ? job.get('needs', true) as Node : undefined;
+                        this.report('needs-cycle', `needs 存在循环依赖: ${cycle.join(' → ')}`, 'error', needsNode);
+                    }
+                } else if (!state.has(next)) {
+                    dfs(next, stack);
+                }
+            }
+
+            stack.pop();
+            state.set(jobId, 'done');
+        };
+
+        for (const jobId of graph.keys()) {
+            if (!state.has(jobId)) dfs(jobId, []);
+        }
+    }
+
+    private checkStep(jobId: string, index: number, step: Node): void {
+        if (!isMap(step)) {
+            this.report('invalid-step', `job "${jobId}" 的第 ${index + 1} 个步骤必须是映射`, 'error', step);
+            return;
+        }
+
+        const label = `job "${jobId}" 的步骤 ${step.get('name') ?? index + 1}`;
+        this.checkKeys(step, STEP_KEYS, label);
+
+        if (step.has('uses') && step.has('run')) {
+            this.report('invalid-step', `${label} 不能同时使用 uses 和 run`, 'error', step);
+        } else if (!step.has('uses') && !step.has('run')) {
+            this.report('invalid-step', `${label} 缺少 uses 或 run`, 'error', step);
+        }
+
+        const uses = step.get('uses', true);
+        if (isScalar(uses)) {
+            this.checkDeprecatedAction(uses);
+        }
+    }
+
+    private checkDeprecatedAction(uses: Scalar): void {
+        const match = String(uses.value).match(/^([^/@\s]+\/[^/@\s]+)(?:\/[^@]*)?@(.+)$/);
+        if (!match) return;
+
+        const [, action, ref] = match;
+        const deprecated = DEPRECATED_ACTIONS[action];
+        if (!deprecated) return;
+
+        const major = ref.match(/^v\d+/)?.[0];
+        if (!deprecated.versions.includes('*') && (!major || !deprecated.versions.includes(major))) return;
+
+        const fixes: LintFix[] = [];
+        if (deprecated.replacement && uses.range) {
+            const raw = this.text.slice(uses.range[0], uses.range[1]);
+            const refOffset = raw.lastIndexOf(`@${ref}`);
+            if (refOffset >= 0) {
+                const start = uses.range[0] + refOffset + 1;
+                fixes.push({
+                    title: `升级到 ${action}@${deprecated.replacement}`,
+                    edits: [{ start, end: start + ref.length, newText: deprecated.replacement }]
+                });
+            }
+        }
+
+        this.report('deprecated-action', `${action}@${ref} 已弃用: ${deprecated.reason}`, 'warning', uses, fixes);
+    }
+
+    private checkMissingPermissions(root: YAMLMap, jobs: YAMLMap): void {
+        if (root.has('permissions')) return;
+
+        const jobsWithout = (jobs.items as Pair<Scalar, Node>[])
+            .filter(p => isMap(p.value) && !p.value.has('permissions') && !p.value.has('uses'))
+            .map(p => String(p.key.value));
+        if (jobsWithout.length === 0) return;
+
+        const jobsKey = this.findKeyNode(root, 'jobs');
+        const fixes: LintFix[] = [];
+        if (jobsKey?.range) {
+            const lineStart = this.text.lastIndexOf('\n', jobsKey.range[0] - 1) + 1;
+            fixes.push({
+                title: '添加最小权限 permissions: contents: read',
+                edits: [{ start: lineStart, end: lineStart, newText: 'permissions:\n  contents: read\n\n' }]
+            });
+        }
+
+        this.report(
+            'missing-permissions',
+            `未声明 permissions，job ${jobsWithout.map(j => `"${j}"`).join('、')} 将使用仓库默认的 GITHUB_TOKEN 权限`,
+            'warning',
+            jobsKey,
+            fixes
+        );
+    }
+
+    /**
+     * 检查所有 ${{ }} 表达式以及 if 条件的语法和 inputs 引用
+     */
+    private checkExpressions(): void {
+        visit(this.doc, {
+            Scalar: (key, node, path) => {
+                if (key === 'key' || typeof node.value !== 'string' || !node.range) return;
+
+                const raw = this.text.slice(node.range[0], node.range[1]);
+                const parent = path[path.length - 1];
+                const isCondition = isPair(parent) && isScalar(parent.key) && parent.key.value === 'if';
+
+                let embedded;
+                try {
+                    embedded = extractExpressions(raw);
+                } catch (error) {
+                    const offset = node.range[0] + (error as ExpressionError).position;
+                    this.reportAt('expression-syntax', (error as Error).message, 'error', offset, offset + 3);
+                    return;
+                }
+
+                // if 的值不写 ${{ }} 时整体作为表达式
+                if (isCondition && embedded.length === 0) {
+                    const valueOffset = Math.max(raw.indexOf(node.value), 0);
+                    this.checkExpression(node.value, node.range[0] + valueOffset);
+                    return;
+                }
+
+                for (const expr of embedded) {
+                    this.checkExpression(expr.expression, node.range[0] + expr.start + 3);
+                }
+            }
+        });
+    }
+
+    private checkExpression(source: string, offset: number): void {
+        let parsed;
+        try {
+            parsed = parseExpression(source);
+        } catch (error) {
+            if (!(error instanceof ExpressionError)) throw error;
+            const start = offset + error.position;
+            this.reportAt('expression-syntax', `表达式语法错误: ${error.message}`, 'error', start, Math.max(start + 1, offset + source.trimEnd().length));
+            return;
+        }
+
+        for (const contextPath of collectContextPaths(parsed)) {
+            const parts = contextPath.split('.');
+            let inputName: string | undefined;
+            if (parts[0] === 'inputs') {
+                inputName = parts[1];
+            } else if (parts[0] === 'github' && parts[1] === 'event' && parts[2] === 'inputs') {
+                inputName = parts[3];
+            }
+            if (inputName === undefined || this.declaredInputs?.has(inputName)) continue;
+
+            const nameOffset = source.indexOf(inputName, source.indexOf('inputs'));
+            const start = offset + Math.max(nameOffset, 0);
+            const end = start + inputName.length;
+
+            const message = this.declaredInputs === undefined
+                ? `inputs.${inputName} 未定义：工作流没有 workflow_dispatch 或 workflow_call 触发器`
+                : `inputs.${inputName} 未在 workflow_dispatch / workflow_call 的 inputs 中声明`;
+
+            const fixes = [...(this.declaredInputs ?? [])]
+                .filter(name => editDistance(name, inputName!) <= 2)
+                .map(name => ({ title: `改为 inputs.${name}`, edits: [{ start, end, newText: name }] }));
+
+            this.reportAt('undefined-input', message, 'warning', start, end, fixes);
+        }
+    }
+
+    private checkKeys(map: YAMLMap, allowed: string[], label: string): void {
+        for (const pair of map.items as Pair<Node, Node>[]) {
+            if (!isScalar(pair.key)) continue;
+            const key = String(pair.key.value);
+            if (!allowed.includes(key)) {
+                this.report('unknown-key', `${label} 中未知的字段 "${key}"`, 'error', pair.key, this.suggest(pair.key, allowed));
+            }
+        }
+    }
+
+    /**
+     * 为拼写错误的名称提供最接近的候选项
+     */
+    private suggest(node: Scalar, candidates: string[]): LintFix[] {
+        if (!node.range) return [];
+        const value = String(node.value);
+        const raw = this.text.slice(node.range[0], node.range[1]);
+        const offset = raw.indexOf(value);
+        if (offset < 0) return [];
+
+        const start = node.range[0] + offset;
+        return candidates
+            .map(candidate => ({ candidate, distance: editDistance(value, candidate) }))
+            .filter(c => c.distance <= Math.max(2, Math.floor(value.length / 4)))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, 3)
+            .map(c => ({ title: `改为 "${c.candidate}"`, edits: [{ start, end: start + value.length, newText: c.candidate }] }));
+    }
+
+    private findKeyNode(map: YAMLMap, key: string): Scalar | undefined {
+        const pair = (map.items as Pair<Scalar, Node>[]).find(p => isScalar(p.key) && p.key.value === key);
+        return pair?.key;
+    }
+
+    private report(code: string, message: string, severity: LintSeverity, node: Node | undefined, fixes: LintFix[] = []): void {
+        const range = node?.range ?? [0, 0];
+        this.reportAt(code, message, severity, range[0], Math.max(range[1], range[0] + 1), fixes);
+    }
+
+    private reportAt(code: string, message: string, severity: LintSeverity, start: number, end: number, fixes: LintFix[] = []): void {
+        this.issues.push({ code, message, severity, start, end, fixes });
+    }
+}
+
+function editDistance(a: string, b: string): number {
+    const dp = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) dp[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            dp[i][j] = Math.min(
+                dp[i - 1][j] + 1,
+                dp[i][j - 1] + 1,
+                dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+    }
+    return dp[a.length][b.length];
+}
@@ -0,0 +1,470 @@
+import { parse as parseYaml } from 'yaml';
+import { evaluateCondition, interpolate, ExpressionValue, UnknownValue, EvaluationContext, JobStatus } from './expressionEvaluator';
+
+/**
+ * 离线模拟工作流：给定触发事件，判断 on 过滤条件是否匹配，以及每个 job / step 的 if 条件是否成立
+ *
+ * 假设所有运行的步骤都成功；steps / needs 的输出、secrets、vars、matrix 等运行时才知道的值视为未知
+ */
+
+export type SimulatedEvent =
+    | { kind: 'tag'; tag: string }
+    | { kind: 'branch'; branch: string }
+    | { kind: 'dispatch'; ref: string; refType: 'branch' | 'tag'; inputs: Record<string, string | boolean | number> };
+
+export type Outcome = 'run' | 'skip' | 'unknown';
+
+export interface StepSimulation {
+    name: string;
+    condition?: string;
+    outcome: Outcome;
+    note?: string;
+}
+
+export interface JobSimulation {
+    id: string;
+    name: string;
+    condition?: string;
+    outcome: Outcome;
+    note?: string;
+    steps: StepSimulation[];
+}
+
+export interface SimulationResult {
+    triggered: boolean;
+    /** 触发或未触发的原因 */
+    triggerNote: string;
+    jobs: JobSimulation[];
+    warnings: string[];
+}
+
+export interface DispatchInput {
+    name: string;
+    type: string;
+    description?: string;
+    required: boolean;
+    default?: string | boolean | number;
+    options?: string[];
+}
+
+type YamlObject = Record<string, unknown>;
+
+const REPOSITORY = 'owner/repo';
+
+/**
+ * 读取 workflow_dispatch 的输入定义，没有 workflow_dispatch 时返回 undefined
+ */
+export function getDispatchInputs(text: string): DispatchInput[] | undefined {
+    const on = normalizeTriggers(parseWorkflow(text).on);
+    if (!('workflow_dispatch' in on)) return undefined;
+
+    const dispatch = on.workflow_dispatch;
+    const inputs = isObject(dispatch) && isObject(dispatch.inputs) ? dispatch.inputs : {};
+    return Object.entries(inputs).map(([name, value]) => {
+        const spec = isObject(value) ? value : {};
+        return {
+            name,
+            type: typeof spec.type === 'string' ? spec.type : 'string',
+            description: typeof spec.description === 'string' ? spec.description : undefined,
+            required: spec.required === true,
+            default: spec.default as string | boolean | number | undefined,
+            options: Array.isArray(spec.options) ? spec.options.map(String) : undefined
+        };
+    });
+}
+
+export function simulateWorkflow(text: string, event: SimulatedEvent): SimulationResult {
+    const workflow = parseWorkflow(text);
+    const warnings: string[] = [];
+    const on = normalizeTriggers(workflow.on);
+
+    const trigger = checkTrigger(on, event, warnings);
+    const jobs = isObject(workflow.jobs) ? workflow.jobs : {};
+    if (!trigger.triggered) {
+        return { triggered: false, triggerNote: trigger.note, jobs: [], warnings };
+    }
+
+    const baseContexts = buildContexts(workflow, event, on);
+    const results = new Map<string, JobSimulation>();
+    const needsContext: Record<string, ExpressionValue> = {};
+
+    for (const id of orderJobs(jobs, warnings)) {
+        const job = isObject(jobs[id]) ? jobs[id] as YamlObject : {};
+        const needs = toList(job.needs);
+
+        // 依赖的 job 被跳过时 success() 为 false，未知时 success() 未知
+        const needResults = needs.map(n => results.get(n)?.outcome ?? 'unknown');
+        const status: JobStatus = {
+            success: needResults.includes('skip') ? false : needResults.includes('unknown') ? undefined : true,
+            failure: false,
+            cancelled: false
+        };
+
+        const jobContexts: Record<string, ExpressionValue> = {
+            ...baseContexts,
+            needs: Object.fromEntries(needs.map(n => [n, needsContext[n] ?? null])),
+            runner: runnerContext(job['runs-on'])
+        };
+
+        const condition = job.if === undefined ? undefined : String(job.if);
+        const jobOutcome = evaluateOutcome(condition, { contexts: jobContexts, status });
+        const simulation: JobSimulation = {
+            id,
+            name: typeof job.name === 'string' ? safeInterpolate(job.name, { contexts: jobContexts, status }) : id,
+            condition,
+            outcome: jobOutcome.outcome,
+            note: jobOutcome.note,
+            steps: []
+        };
+
+        if (typeof job.uses === 'string') {
+            simulation.note = [simulation.note, `调用 ${job.uses}，步骤在被调用的工作流中`].filter(Boolean).join('；');
+        } else if (jobOutcome.outcome !== 'skip') {
+            simulation.steps = simulateSteps(job, jobContexts, warnings);
+        }
+
+        results.set(id, simulation);
+        needsContext[id] = {
+            result: jobOutcome.outcome === 'run' ? 'success' : jobOutcome.outcome === 'skip' ? 'skipped' : new UnknownValue([`needs.${id}.result`]),
+            outputs: jobOutcome.outcome === 'skip' ? {} : new UnknownValue([`needs.${id}.outputs`])
+        };
+    }
+
+    return { triggered: true, triggerNote: trigger.note, jobs: [...results.values()], warnings };
+}
+
+/**
+ * 模拟结果渲染为 Markdown
+ */
+export function renderSimulationReport(result: SimulationResult, fileName: string, event: SimulatedEvent): string {
+    const icons: Record<Outcome, string> = { run: '✅', skip: '⏭️', unknown: '❓' };
+    const labels: Record<Outcome, string> = { run: '运行', skip: '跳过', unknown: '运行时决定' };
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    const lines: string[] = [`# 工作流模拟：${fileName}`, '', `**事件**：${describeEvent(event)}`, ''];
+
+    if (event.kind === 'dispatch' && Object.keys(event.inputs).length > 0) {
+        lines.push('| 输入 | 值 |', '| --- | --- |');
+        for (const [name, value] of Object.entries(event.inputs)) {
+            lines.push(`| ${cell(name)} | \`${cell(String(value))}\` |`);
+        }
+        lines.push('');
+    }
+
+    lines.push(`${result.triggered ? '✅ 会触发' : '⛔ 不会触发'}：${result.triggerNote}`, '');
+
+    for (const job of result.jobs) {
+        lines.push(`## ${icons[job.outcome]} ${job.name}${job.name !== job.id ? ` (${job.id})` : ''} — ${labels[job.outcome]}`, '');
+        if (job.condition !== undefined) lines.push(`条件：\`${cell(job.condition)}\``, '');
+        if (job.note) lines.push(`> ${job.note}`, '');
+
+        if (job.steps.length > 0) {
+            lines.push('| | 步骤 | 条件 | 说明 |', '| --- | --- | --- | --- |');
+            for (const step of job.steps) {
+                const condition = step.condition !== undefined ? `\`${cell(step.condition)}\`` : '';
+                lines.push(`| ${icons[step.outcome]} | ${cell(step.name)} | ${condition} | ${cell(step.note ?? labels[step.outcome])} |`);
+            }
+            lines.push('');
+        }
+    }
+
+    if (result.warnings.length > 0) {
+        lines.push('## 注意', '', ...result.warnings.map(w => `- ${w}`), '');
+    }
+    lines.push('---', '', '模拟假设运行的步骤全部成功；steps / needs 的输出、secrets、vars 和 matrix 的值只有运行时才知道，依赖它们的条件显示为「运行时决定」。');
+    return lines.join('\n');
+}
+
+export function describeEvent(event: SimulatedEvent): string {
+    switch (event.kind) {
+        case 'tag':
+            return `推送 Tag \`${event.tag}\`（github.ref = refs/tags/${event.tag}）`;
+        case 'branch':
+            return `推送到分支 \`${event.branch}\`（github.ref = refs/heads/${event.branch}）`;
+        case 'dispatch':
+            return `手动运行 workflow_dispatch，${event.refType === 'tag' ? 'Tag' : '分支'} \`${event.ref}\``;
+    }
+}
+
+function simulateSteps(job: YamlObject, jobContexts: Record<string, ExpressionValue>, warnings: string[]): StepSimulation[] {
+    const steps = Array.isArray(job.steps) ? job.steps : [];
+    const stepsContext: Record<string, ExpressionValue> = {};
+    const env = { ...(jobContexts.env as YamlObject), ...evaluateEnv(job.env, jobContexts) };
+    const results: StepSimulation[] = [];
+
+    steps.forEach((raw, index) => {
+        const step = isObject(raw) ? raw : {};
+        const contexts = { ...jobContexts, env: env as ExpressionValue, steps: stepsContext as ExpressionValue };
+        // 前面的步骤都假定成功
+        const context: EvaluationContext = { contexts, status: { success: true, failure: false, cancelled: false } };
+
+        const condition = step.if === undefined ? undefined : String(step.if);
+        const { outcome, note } = evaluateOutcome(condition, context);
+        const name = typeof step.name === 'string'
+            ? safeInterpolate(step.name, context)
+            : typeof step.uses === 'string' ? `Run ${step.uses}` : typeof step.run === 'string' ? `Run ${step.run.split('\n')[0]}` : `步骤 ${index + 1}`;
+        results.push({ name, condition, outcome, note });
+
+        if (typeof step.id === 'string') {
+            stepsContext[step.id] = {
+                outcome: outcome === 'run' ? 'success' : outcome === 'skip' ? 'skipped' : new UnknownValue([`steps.${step.id}.outcome`]),
+                conclusion: outcome === 'run' ? 'success' : outcome === 'skip' ? 'skipped' : new UnknownValue([`steps.${step.id}.conclusion`]),
+                outputs: outcome === 'skip' ? {} : new UnknownValue([`steps.${step.id}.outputs`])
+            };
+        }
+        if (step['continue-on-error'] !== undefined && outcome !== 'skip') {
+            warnings.push(`步骤「${name}」设置了 continue-on-error，失败时后续步骤仍会运行`);
+        }
+    });
+    return results;
+}
+
+function evaluateOutcome(condition: string | undefined, context: EvaluationContext): { outcome: Outcome; note?: string } {
+    try {
+        const result = evaluateCondition(condition, context);
+        if (result instanceof UnknownValue) {
+            return { outcome: 'unknown', note: `取决于 ${result.sources.join('、')}` };
+        }
+        return { outcome: result ? 'run' : 'skip', note: result ? undefined : condition === undefined ? '依赖的 job 被跳过' : '条件为 false' };
+    } catch (error: unknown) {
+        return { outcome: 'unknown', note: `无法求值: ${(error as Error).message}` };
+    }
+}
+
+function checkTrigger(on: YamlObject, event: SimulatedEvent, warnings: string[]): { triggered: boolean; note: string } {
+    if (event.kind === 'dispatch') {
+        return 'workflow_dispatch' in on
+            ? { triggered: true, note: 'on 中声明了 workflow_dispatch' }
+            : { triggered: false, note: 'on 中没有 workflow_dispatch，无法手动运行' };
+    }
+
+    if (!('push' in on)) {
+        return { triggered: false, note: 'on 中没有 push 事件' };
+    }
+
+    const push = isObject(on.push) ? on.push : {};
+    if (push.paths !== undefined || push['paths-ignore'] !== undefined) {
+        warnings.push('push 配置了 paths / paths-ignore 过滤，离线无法判断变更的文件，按有匹配的变更处理');
+    }
+
+    const isTag = event.kind === 'tag';
+    const name = isTag ? event.tag : event.branch;
+    const [include, exclude, otherInclude, otherExclude] = isTag
+        ? ['tags', 'tags-ignore', 'branches', 'branches-ignore']
+        : ['branches', 'branches-ignore', 'tags', 'tags-ignore'];
+    const kind = isTag ? 'Tag' : '分支';
+
+    if (push[include] === undefined && push[exclude] === undefined) {
+        // 只过滤了另一种 ref 时，这种 ref 的推送不会触发
+        if (push[otherInclude] !== undefined || push[otherExclude] !== undefined) {
+            return { triggered: false, note: `push 只配置了${isTag ? '分支' : ' Tag '}过滤，推送${kind}不会触发` };
+        }
+        return { triggered: true, note: `push 没有过滤条件，任何${kind}推送都会触发` };
+    }
+
+    if (push[include] !== undefined) {
+        const patterns = toList(push[include]);
+        return matchesFilters(name, patterns)
+            ? { triggered: true, note: `on.push.${include} 匹配 ${patterns.map(p => `\`${p}\``).join('、')}` }
+            : { triggered: false, note: `${name} 不匹配 on.push.${include}（${patterns.map(p => `\`${p}\``).join('、')}）` };
+    }
+
+    const ignored = toList(push[exclude]);
+    return matchesFilters(name, ignored)
+        ? { triggered: false, note: `${name} 匹配 on.push.${exclude}（${ignored.map(p => `\`${p}\``).join('、')}）` }
+        : { triggered: true, note: `${name} 不在 on.push.${exclude} 中` };
+}
+
+/**
+ * 按顺序匹配过滤模式，! 开头的模式排除之前匹配的结果
+ */
+function matchesFilters(name: string, patterns: string[]): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+        if (pattern.startsWith('!')) {
+            if (matched && filterToRegex(pattern.slice(1)).test(name)) matched = false;
+        } else if (filterToRegex(pattern).test(name)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * GitHub 过滤模式：* 不跨越 /，** 匹配任意字符，? 和 + 修饰前一个字符，[] 为字符集
+ */
+function filterToRegex(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === '*') {
+            if (pattern[i + 1] === '*') {
+                source += '.*';
+                i++;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (ch === '?' || ch === '+') {
+            source += ch;
+        } else if (ch === '[') {
+            const end = pattern.indexOf(']', i);
+            if (end < 0) {
+                source += '\\[';
+            } else {
+                source += pattern.slice(i, end + 1);
+                i = end;
+            }
+        } else {
+            source += ch.replace(/[.^$|(){}\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function buildContexts(workflow: YamlObject, event: SimulatedEvent, on: YamlObject): Record<string, ExpressionValue> {
+    const refName = event.kind === 'tag' ? event.tag : event.kind === 'branch' ? event.branch : event.ref;
+    const refType = event.kind === 'tag' || (event.kind === 'dispatch' && event.refType === 'tag') ? 'tag' : 'branch';
+    const ref = `refs/${refType === 'tag' ? 'tags' : 'heads'}/${refName}`;
+
+    let inputs: Record<string, ExpressionValue> = {};
+    let payload: Record<string, ExpressionValue> = { ref, created: true, deleted: false, forced: false, base_ref: null, head_commit: { message: '' } };
+    if (event.kind === 'dispatch') {
+        inputs = withDispatchDefaults(on, event.inputs);
+        // github.event.inputs 中的值都是字符串
+        payload = { ref, inputs: Object.fromEntries(Object.entries(inputs).map(([k, v]) => [k, String(v)])) };
+    }
+
+    const github: Record<string, ExpressionValue> = {
+        event_name: event.kind === 'dispatch' ? 'workflow_dispatch' : 'push',
+        event: payload,
+        ref,
+        ref_name: refName,
+        ref_type: refType,
+        ref_protected: false,
+        head_ref: '',
+        base_ref: '',
+        sha: new UnknownValue(['github.sha']),
+        repository: REPOSITORY,
+        repository_owner: REPOSITORY.split('/')[0],
+        actor: 'octocat',
+        workflow: typeof workflow.name === 'string' ? workflow.name : '',
+        run_number: 1,
+        run_attempt: 1,
+        server_url: 'https://github.com',
+        token: new UnknownValue(['github.token'])
+    };
+
+    const contexts: Record<string, ExpressionValue> = {
+        github,
+        inputs,
+        vars: new UnknownValue(['vars']),
+        secrets: new UnknownValue(['secrets']),
+        matrix: new UnknownValue(['matrix']),
+        strategy: new UnknownValue(['strategy']),
+        runner: new UnknownValue(['runner']),
+        job: { status: 'success' },
+        steps: {},
+        needs: {}
+    };
+    contexts.env = evaluateEnv(workflow.env, contexts);
+    return contexts;
+}
+
+/**
+ * 根据 runs-on 推断 runner.os，自托管或表达式时未知
+ */
+function runnerContext(runsOn: unknown): ExpressionValue {
+    const labels = toList(runsOn).map(label => label.toLowerCase());
+    const os = labels.some(l => l.startsWith('windows')) ? 'Windows'
+        : labels.some(l => l.startsWith('macos')) ? 'macOS'
+            : labels.some(l => l.startsWith('ubuntu')) ? 'Linux'
+                : undefined;
+    return os ? { os, arch: labels.some(l => l.includes('arm')) ? 'ARM64' : 'X64', temp: '', tool_cache: '' } : new UnknownValue(['runner']);
+}
+
+function withDispatchDefaults(on: YamlObject, values: Record<string, string | boolean | number>): Record<string, ExpressionValue> {
+    const dispatch = on.workflow_dispatch;
+    const declared = isObject(dispatch) && isObject(dispatch.inputs) ? dispatch.inputs : {};
+    const inputs: Record<string, ExpressionValue> = {};
+    for (const [name, value] of Object.entries(declared)) {
+        const spec = isObject(value) ? value : {};
+        const provided = values[name];
+        if (provided !== undefined) {
+            inputs[name] = provided;
+        } else if (spec.default !== undefined && spec.default !== null) {
+            inputs[name] = spec.default as ExpressionValue;
+        } else {
+            inputs[name] = spec.type === 'boolean' ? false : '';
+        }
+    }
+    return inputs;
+}
+
+function evaluateEnv(env: unknown, contexts: Record<string, ExpressionValue>): Record<string, ExpressionValue> {
+    if (!isObject(env)) return {};
+    const context: EvaluationContext = { contexts, status: { success: true, failure: false, cancelled: false } };
+    return Object.fromEntries(Object.entries(env).map(([key, value]) => {
+        if (typeof value !== 'string') return [key, value === null || value === undefined ? '' : String(value)];
+        try {
+            return [key, interpolate(value, context)];
+        } catch {
+            return [key, new UnknownValue([`env.${key}`])];
+        }
+    }));
+}
+
+function safeInterpolate(text: string, context: EvaluationContext): string {
+    try {
+        const value = interpolate(text, context);
+        return value instanceof UnknownValue ? text : value;
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * 按 needs 排序，循环依赖的 job 放到最后
+ */
+function orderJobs(jobs: YamlObject, warnings: string[]): string[] {
+    const order: string[] = [];
+    const visiting = new Set<string>();
+    const visit = (id: string) => {
+        if (order.includes(id)) return;
+        if (visiting.has(id)) {
+            warnings.push(`job ${id} 存在循环依赖`);
+            return;
+        }
+        visiting.add(id);
+        const job = jobs[id];
+        for (const need of toList(isObject(job) ? job.needs : undefined)) {
+            if (need in jobs) visit(need);
+        }
+        visiting.delete(id);
+        if (!order.includes(id)) order.push(id);
+    };
+    Object.keys(jobs).forEach(visit);
+    return order;
+}
+
+function normalizeTriggers(on: unknown): YamlObject {
+    if (isObject(on)) return on;
+    if (typeof on === 'string') return { [on]: null };
+    if (Array.isArray(on)) return Object.fromEntries(on.map(event => [String(event), null]));
+    return {};
+}
+
+function parseWorkflow(text: string): YamlObject {
+    const workflow = parseYaml(text);
+    if (!isObject(workflow)) {
+        throw new Error('工作流顶层不是映射');
+    }
+    return workflow;
+}
+
+function toList(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+function isObject(value: unknown): value is YamlObject {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
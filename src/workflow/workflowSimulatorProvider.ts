@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { simulateWorkflow, renderSimulationReport, getDispatchInputs, SimulatedEvent, DispatchInput } from './workflowSimulator';
+
+const execAsync = promisify(exec);
+
+const WORKFLOW_FILE = /[\\/]\.github[\\/]workflows[\\/][^\\/]+\.ya?ml$/;
+
+/**
+ * 工作流条件模拟：选择触发事件，显示哪些 job / step 会运行或跳过
+ */
+export class WorkflowSimulatorProvider {
+    async simulate(): Promise<void> {
+        const uri = await this.pickWorkflowFile();
+        if (!uri) return;
+
+        const doc = await vscode.workspace.openTextDocument(uri);
+        const text = doc.getText();
+
+        let dispatchInputs: DispatchInput[] | undefined;
+        try {
+            dispatchInputs = getDispatchInputs(text);
+        } catch (error: unknown) {
+            vscode.window.showErrorMessage(`无法解析 ${path.basename(uri.fsPath)}: ${(error as Error).message}`);
+            return;
+        }
+
+        const cwd = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? path.dirname(uri.fsPath);
+        const event = await this.pickEvent(cwd, dispatchInputs);
+        if (!event) return;
+
+        let report: string;
+        try {
+            report = renderSimulationReport(simulateWorkflow(text, event), path.basename(uri.fsPath), event);
+        } catch (error: unknown) {
+            vscode.window.showErrorMessage(`模拟失败: ${(error as Error).message}`);
+            return;
+        }
+
+        const reportDoc = await vscode.workspace.openTextDocument({ language: 'markdown', content: report });
+        try {
+            await vscode.commands.executeCommand('markdown.showPreviewToSide', reportDoc.uri);
+        } catch {
+            await vscode.window.showTextDocument(reportDoc, vscode.ViewColumn.Beside);
+        }
+    }
+
+    private async pickWorkflowFile(): Promise<vscode.Uri | undefined> {
+        const active = vscode.window.activeTextEditor?.document.uri;
+        if (active && WORKFLOW_FILE.test(active.fsPath)) return active;
+
+        const files = await vscode.workspace.findFiles('**/.github/workflows/*.{yml,yaml}', '**/node_modules/**');
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('工作区中没有 .github/workflows 下的工作流文件');
+            return undefined;
+        }
+        if (files.length === 1) return files[0];
+
+        const picked = await vscode.window.showQuickPick(
+            files.map(file => ({ label: path.basename(file.fsPath), description: vscode.workspace.asRelativePath(file), file })),
+            { placeHolder: '选择要模拟的工作流' }
+        );
+        return picked?.file;
+    }
+
+    private async pickEvent(cwd: string, dispatchInputs: DispatchInput[] | undefined): Promise<SimulatedEvent | undefined> {
+        const kinds = [
+            { label: '$(tag) 推送 Tag', description: 'push tags', value: 'tag' as const },
+            { label: '$(git-branch) 推送到分支', description: 'push branches', value: 'branch' as const },
+            ...(dispatchInputs
+                ? [{ label: '$(run) 手动运行', description: `workflow_dispatch${dispatchInputs.length > 0 ? `，${dispatchInputs.length} 个输入` : ''}`, value: 'dispatch' as const }]
+                : [])
+        ];
+        const choice = await vscode.window.showQuickPick(kinds, { placeHolder: '选择触发事件' });
+        if (!choice) return undefined;
+
+        if (choice.value === 'tag') {
+            const tag = await vscode.window.showInputBox({
+                prompt: '推送的 Tag',
+                value: await this.git('git describe --tags --abbrev=0', cwd) ?? 'v1.0.0',
+                validateInput: (v) => v.trim() ? null : '请输入 Tag'
+            });
+            return tag ? { kind: 'tag', tag: tag.trim() } : undefined;
+        }
+
+        if (choice.value === 'branch') {
+            const branch = await vscode.window.showInputBox({
+                prompt: '推送到的分支',
+                value: await this.git('git rev-parse --abbrev-ref HEAD', cwd) ?? 'main',
+                validateInput: (v) => v.trim() ? null : '请输入分支名'
+            });
+            return branch ? { kind: 'branch', branch: branch.trim() } : undefined;
+        }
+
+        const ref = await this.pickDispatchRef(cwd);
+        if (!ref) return undefined;
+
+        const inputs: Record<string, string | boolean | number> = {};
+        for (const input of dispatchInputs ?? []) {
+            const value = await this.promptInput(input);
+            if (value === undefined) return undefined;
+            inputs[input.name] = value;
+        }
+        return { kind: 'dispatch', ref: ref.name, refType: ref.type, inputs };
+    }
+
+    private async pickDispatchRef(cwd: string): Promise<{ name: string; type: 'branch' | 'tag' } | undefined> {
+        const branches = (await this.git('git branch --format="%(refname:short)"', cwd) ?? '').split('\n').filter(Boolean);
+        const tags = (await this.git('git tag --sort=-creatordate', cwd) ?? '').split('\n').filter(Boolean).slice(0, 20);
+        if (branches.length === 0 && tags.length === 0) {
+            const name = await vscode.window.showInputBox({ prompt: '运行所在的分支', value: 'main' });
+            return name?.trim() ? { name: name.trim(), type: 'branch' } : undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick([
+            ...branches.map(name => ({ label: `$(git-branch) ${name}`, name, type: 'branch' as const })),
+            ...tags.map(name => ({ label: `$(tag) ${name}`, name, type: 'tag' as const }))
+        ], { placeHolder: '在哪个分支或 Tag 上运行' });
+        return picked ? { name: picked.name, type: picked.type } : undefined;
+    }
+
+    private async promptInput(input: DispatchInput): Promise<string | boolean | number | undefined> {
+        const title = `${input.name}${input.description ? ` — ${input.description}` : ''}`;
+
+        if (input.type === 'boolean') {
+            const picked = await vscode.window.showQuickPick(
+                ['true', 'false'].map(label => ({ label, description: String(input.default ?? false) === label ? '默认' : undefined })),
+                { placeHolder: title }
+            );
+            return picked ? picked.label === 'true' : undefined;
+        }
+
+        if (input.type === 'choice' && input.options && input.options.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                input.options.map(label => ({ label, description: String(input.default ?? '') === label ? '默认' : undefined })),
+                { placeHolder: title }
+            );
+            return picked?.label;
+        }
+
+        const value = await vscode.window.showInputBox({
+            prompt: title,
+            value: input.default === undefined || input.default === null ? '' : String(input.default),
+            validateInput: (v) => {
+                if (input.required && !v.trim()) return '必填输入';
+                if (input.type === 'number' && v.trim() && isNaN(Number(v))) return '请输入数字';
+                return null;
+            }
+        });
+        if (value === undefined) return undefined;
+        return input.type === 'number' && value.trim() ? Number(value) : value;
+    }
+
+    private async git(command: string, cwd: string): Promise<string | undefined> {
+        try {
+            const { stdout } = await execAsync(command, { cwd });
+            return stdout.trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}